@@ -4,6 +4,7 @@ import helmet from 'helmet';
 import rateLimit from 'express-rate-limit';
 import dotenv from 'dotenv';
 import { workflowRoutes } from './routes/workflows.js';
+import { approvalRoutes } from './routes/approvals.js';
 import { agentRoutes } from './routes/agents.js';
 import { deployRoutes } from './routes/deploy.js';
 import { txRoutes } from './routes/tx.js';
@@ -16,6 +17,9 @@ import { logger } from './utils/logger.js';
 import { sanitizeErrorForLogging, generateErrorCode } from './utils/error-sanitizer.js';
 import { setupMetricsRoute } from './middleware/metrics-route.js';
 import { auditMiddleware } from './middleware/audit.js';
+import { startTriggers } from './services/triggers.js';
+import { getCeloClient, getOrchestrator, recoverExecutions } from './services/workflow-runner.js';
+import { transactionWatcher } from './services/transaction-watcher.js';
 
 dotenv.config();
 
@@ -34,6 +38,7 @@ app.use('/api/', limiter);
 app.use(auditMiddleware);
 
 app.use('/api/workflows', workflowRoutes);
+app.use('/api/approvals', approvalRoutes);
 app.use('/api/agents', agentRoutes);
 app.use('/api/deploy', deployRoutes);
 app.use('/api/tx', txRoutes);
@@ -97,4 +102,23 @@ app.listen(PORT, () => {
   console.log(`🚀 Celo Automator Backend running on port ${PORT}`);
   const host = process.env.HOST || 'localhost';
   console.log(`📖 Health check: http://${host}:${PORT}/api/health`);
+
+  const celoClient = getCeloClient();
+  if (celoClient) {
+    transactionWatcher.start(celoClient);
+    if (celoClient.getWalletClient()) {
+      celoClient.resyncNonce().catch((error) => {
+        console.error('❌ Failed to sync wallet nonce:', error);
+      });
+    }
+  }
+
+  if (getOrchestrator()) {
+    startTriggers().catch((error) => {
+      console.error('❌ Failed to start workflow triggers:', error);
+    });
+  }
+  recoverExecutions().catch((error) => {
+    console.error('❌ Failed to recover workflow executions:', error);
+  });
 });
\ No newline at end of file
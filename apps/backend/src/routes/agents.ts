@@ -5,6 +5,8 @@ import { CeloClient } from '@celo-automator/celo-functions';
 import { AgentFactory, type SpecializedAgent, type SpecializedAgentType } from '@celo-ai/agents';
 import { RiskEngine } from '@celo-ai/risk-engine';
 import type { TransactionContext } from '@celo-ai/risk-engine';
+import { FeeCurrencyPolicySchema } from '@celo-automator/types';
+import { feePolicyStore } from '../services/fee-currency.js';
 import { logger } from '../utils/logger.js';
 
 const router: Router = express.Router();
@@ -18,6 +20,7 @@ const createAgentSchema = z.object({
   description: z.string().optional(),
   objectives: z.array(z.string()).optional(),
   promptPreamble: z.string().optional(),
+  feePolicy: FeeCurrencyPolicySchema.optional(),
   metadata: z.record(z.unknown()).optional(),
 });
 
@@ -133,6 +136,7 @@ router.post('/', async (req, res, next) => {
       config: { ...parsed, id },
       instance: agent,
     });
+    feePolicyStore.set(id, parsed.feePolicy);
 
     return res.status(201).json({
       success: true,
@@ -142,6 +146,7 @@ router.post('/', async (req, res, next) => {
         name: parsed.name,
         description: parsed.description,
         objectives: parsed.objectives,
+        feePolicy: parsed.feePolicy,
         metadata: parsed.metadata,
       },
     });
@@ -158,6 +163,7 @@ router.get('/', (_req, res) => {
     name: config.name,
     description: config.description,
     objectives: config.objectives,
+    feePolicy: config.feePolicy,
     metadata: config.metadata,
   }));
 
@@ -167,6 +173,19 @@ router.get('/', (_req, res) => {
   });
 });
 
+router.get('/providers', (_req, res, next) => {
+  try {
+    ensureDependencies();
+
+    return res.json({
+      success: true,
+      usage: baseAgent!.getProviderUsage(),
+    });
+  } catch (error) {
+    return next(error);
+  }
+});
+
 router.get('/:id', (req, res) => {
   const record = registry.get(req.params.id);
   if (!record) {
@@ -184,6 +203,7 @@ router.get('/:id', (req, res) => {
       name: record.config.name,
       description: record.config.description,
       objectives: record.config.objectives,
+      feePolicy: record.config.feePolicy,
       metadata: record.config.metadata,
     },
   });
@@ -214,6 +234,7 @@ router.put('/:id', (req, res, next) => {
       config: updatedConfig,
       instance: agent,
     });
+    feePolicyStore.set(req.params.id, updatedConfig.feePolicy);
 
     return res.json({
       success: true,
@@ -223,6 +244,7 @@ router.put('/:id', (req, res, next) => {
         name: updatedConfig.name,
         description: updatedConfig.description,
         objectives: updatedConfig.objectives,
+        feePolicy: updatedConfig.feePolicy,
         metadata: updatedConfig.metadata,
       },
     });
@@ -240,6 +262,7 @@ router.delete('/:id', (req, res) => {
   }
 
   registry.delete(req.params.id);
+  feePolicyStore.set(req.params.id);
 
   return res.json({
     success: true,
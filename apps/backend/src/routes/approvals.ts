@@ -0,0 +1,149 @@
+import express, { Router } from 'express';
+import { z } from 'zod';
+import type { WorkflowApproval } from '@celo-automator/types';
+import { workflowRepository } from '../storage/index.js';
+import { approvalManager } from '../services/approvals.js';
+
+const router: Router = express.Router();
+
+const decisionSchema = z.object({
+  approver: z.string().min(1).optional(),
+  comment: z.string().optional(),
+});
+
+function parseApproverTokens(value?: string): Map<string, string> {
+  const tokens = new Map<string, string>();
+  for (const entry of (value ?? '').split(',')) {
+    const separator = entry.indexOf(':');
+    if (separator > 0 && separator < entry.length - 1) {
+      tokens.set(entry.slice(separator + 1).trim(), entry.slice(0, separator).trim());
+    }
+  }
+  return tokens;
+}
+
+const approverTokens = parseApproverTokens(process.env.APPROVER_TOKENS);
+
+function resolveApprover(req: express.Request, claimed?: string): string | undefined {
+  if (approverTokens.size === 0) {
+    return claimed;
+  }
+  const token = req.headers.authorization?.replace(/^Bearer\s+/i, '');
+  return token ? approverTokens.get(token) : undefined;
+}
+
+const APPROVAL_STATUSES: WorkflowApproval['status'][] = ['pending', 'approved', 'rejected', 'expired', 'cancelled'];
+
+router.get('/', async (req, res, next) => {
+  try {
+    const status = req.query.status as WorkflowApproval['status'] | undefined;
+    const executionId = req.query.executionId as string | undefined;
+
+    if (status && !APPROVAL_STATUSES.includes(status)) {
+      return res.status(400).json({
+        success: false,
+        error: `Status must be one of ${APPROVAL_STATUSES.join(', ')}`,
+      });
+    }
+
+    const approvals = await workflowRepository.listApprovals({ status, executionId });
+    return res.json({
+      success: true,
+      approvals,
+    });
+  } catch (error) {
+    return next(error);
+  }
+});
+
+router.get('/:approvalId', async (req, res, next) => {
+  try {
+    const approval = await workflowRepository.getApproval(req.params.approvalId);
+
+    if (!approval) {
+      return res.status(404).json({
+        success: false,
+        error: 'Approval not found',
+      });
+    }
+
+    return res.json({
+      success: true,
+      approval,
+    });
+  } catch (error) {
+    return next(error);
+  }
+});
+
+function decide(approved: boolean): express.RequestHandler {
+  return async (req, res, next) => {
+    try {
+      const { approvalId } = req.params;
+      const parsed = decisionSchema.safeParse(req.body ?? {});
+
+      if (!parsed.success) {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid approval decision',
+        });
+      }
+
+      const approver = resolveApprover(req, parsed.data.approver);
+      if (!approver) {
+        return approverTokens.size > 0
+          ? res.status(401).json({
+              success: false,
+              error: 'A valid approver token is required',
+            })
+          : res.status(400).json({
+              success: false,
+              error: 'Approver identity is required',
+            });
+      }
+
+      const approval = await workflowRepository.getApproval(approvalId);
+      if (!approval) {
+        return res.status(404).json({
+          success: false,
+          error: 'Approval not found',
+        });
+      }
+
+      if (approval.approvers?.length && !approval.approvers.includes(approver)) {
+        return res.status(403).json({
+          success: false,
+          error: 'Approver is not allowed to decide this approval',
+        });
+      }
+
+      const decided =
+        approval.status === 'pending'
+          ? await approvalManager.decide(approvalId, {
+              approved,
+              decidedBy: approver,
+              comment: parsed.data.comment,
+            })
+          : undefined;
+
+      if (!decided) {
+        return res.status(409).json({
+          success: false,
+          error: `Approval is already ${(await workflowRepository.getApproval(approvalId))?.status ?? approval.status}`,
+        });
+      }
+
+      return res.json({
+        success: true,
+        approval: decided,
+      });
+    } catch (error) {
+      return next(error);
+    }
+  };
+}
+
+router.post('/:approvalId/approve', decide(true));
+router.post('/:approvalId/reject', decide(false));
+
+export { router as approvalRoutes };
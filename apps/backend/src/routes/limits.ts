@@ -1,5 +1,6 @@
 import express, { Router } from 'express';
 import { z } from 'zod';
+import { spendingLimitStore } from '../services/spending-limits.js';
 import { logger } from '../utils/logger.js';
 
 const router: Router = express.Router();
@@ -13,22 +14,12 @@ const limitSchema = z.object({
   metadata: z.record(z.unknown()).optional(),
 });
 
-const limits = new Map<string, {
-  agentId: string;
-  dailyLimit: string;
-  perTxLimit: string;
-  currency?: string;
-  effectiveFrom: string;
-  updatedAt: string;
-  metadata?: Record<string, unknown>;
-}>();
-
 router.post('/', async (req, res, next) => {
   try {
     const parsed = limitSchema.parse(req.body);
     const now = new Date().toISOString();
 
-    limits.set(parsed.agentId, {
+    spendingLimitStore.set({
       agentId: parsed.agentId,
       dailyLimit: parsed.dailyLimit,
       perTxLimit: parsed.perTxLimit,
@@ -60,7 +51,7 @@ router.post('/', async (req, res, next) => {
 
 router.get('/:agentId', (req, res) => {
   const { agentId } = req.params;
-  const limit = limits.get(agentId);
+  const limit = spendingLimitStore.get(agentId);
 
   if (!limit) {
     return res.status(404).json({
@@ -0,0 +1,90 @@
+import type { AddressInfo } from 'net';
+import type { Server } from 'http';
+import express from 'express';
+import { afterAll, beforeAll, describe, it, expect, vi } from 'vitest';
+
+vi.hoisted(() => {
+  process.env.WORKFLOW_STORE = 'memory';
+});
+
+vi.mock('@celo-automator/celo-functions', () => ({
+  CeloClient: vi.fn(),
+  DEFAULT_REPLACEMENT_BUMP_PERCENT: 10,
+  MIN_REPLACEMENT_BUMP_PERCENT: 10,
+  broadcastTransaction: vi.fn(),
+  estimateTransactionCost: vi.fn(),
+  getBlockNumber: vi.fn(),
+  getTransactionLifecycle: vi.fn(),
+  nonceManager: { releaseNonce: vi.fn() },
+  replaceTransaction: vi.fn(),
+  selectFeeCurrency: vi.fn(),
+}));
+
+import type { BroadcastTransaction } from '@celo-automator/types';
+import type { Address, Hash } from 'viem';
+import { workflowRepository } from '../storage/index.js';
+import { trackTransaction } from '../services/transaction-watcher.js';
+import { txRoutes } from './tx.js';
+
+function broadcast(hash: string): BroadcastTransaction {
+  return {
+    hash: hash as Hash,
+    from: '0x00000000000000000000000000000000000000aa' as Address,
+    to: '0x00000000000000000000000000000000000000bb' as Address,
+    value: 1n,
+    nonce: 7,
+    chainId: 44787,
+    gasLimit: 21000n,
+    maxFeePerGas: 100n,
+    maxPriorityFeePerGas: 10n,
+  };
+}
+
+describe('tx routes', () => {
+  let server: Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    const app = express();
+    app.use('/api/tx', txRoutes);
+    server = app.listen(0);
+    await new Promise((resolve) => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/tx`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('should return the mined member of a replacement chain for any hash in it', async () => {
+    const original = await trackTransaction(broadcast('0xoriginal'), {});
+    const speedup = await trackTransaction(broadcast('0xspeedup'), { replaces: original.hash, replacement: 'speedup' });
+    await workflowRepository.saveTransaction({ ...original, status: 'replaced', replacedBy: speedup.hash });
+    await workflowRepository.saveTransaction({ ...speedup, status: 'confirmed', blockNumber: '120', gasUsed: '21000' });
+
+    const response = await fetch(`${baseUrl}/${original.hash}`);
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body).toMatchObject({
+      success: true,
+      transactionHash: speedup.hash,
+      requestedHash: original.hash,
+      status: 'confirmed',
+      replacement: 'speedup',
+      blockNumber: '120',
+      gasUsed: '21000',
+    });
+    expect(body.replacementChain).toEqual([
+      expect.objectContaining({ hash: original.hash, status: 'replaced' }),
+      expect.objectContaining({ hash: speedup.hash, status: 'confirmed', replacement: 'speedup' }),
+    ]);
+  });
+
+  it('should return 404 for unknown transactions', async () => {
+    const response = await fetch(`${baseUrl}/0xunknown`);
+
+    expect(response.status).toBe(404);
+    expect(await response.json()).toEqual({ success: false, error: 'Transaction not found' });
+  });
+});
@@ -1,9 +1,24 @@
 import express, { Router } from 'express';
 import { z } from 'zod';
-import { CeloClient } from '@celo-automator/celo-functions';
+import {
+  broadcastTransaction,
+  CeloClient,
+  estimateTransactionCost,
+  getBlockNumber,
+  MIN_REPLACEMENT_BUMP_PERCENT,
+} from '@celo-automator/celo-functions';
+import { findToken, formatAmount, isValidAddress, resolveFeeCurrency, type TokenNetwork } from '@celo-automator/core';
 import { RiskEngine } from '@celo-ai/risk-engine';
+import { workflowRepository, type TrackedTransaction } from '../storage/index.js';
+import { feePolicyStore, selectPolicyFeeCurrency } from '../services/fee-currency.js';
+import {
+  getReplacementChain,
+  trackTransaction,
+  transactionWatcher,
+  type ReplacementMode,
+} from '../services/transaction-watcher.js';
 import { logger } from '../utils/logger.js';
-import type { Address, Hash } from 'viem';
+import type { Address } from 'viem';
 
 const router: Router = express.Router();
 
@@ -17,19 +32,21 @@ const txSchema = z.object({
   maxPriorityFeePerGas: z.string().optional(),
   chainId: z.union([z.number(), z.string()]).optional(),
   nonce: z.number().optional(),
+  feeCurrency: z.string().optional(),
   agentId: z.string().optional(),
   memo: z.string().optional(),
   simulateOnly: z.boolean().optional(),
   metadata: z.record(z.unknown()).optional(),
 });
 
-const transactions = new Map<string, {
-  hash: Hash;
-  status: 'pending' | 'confirmed' | 'failed';
-  createdAt: string;
-  riskScore?: number;
-  requiresApproval?: boolean;
-}>();
+const estimateSchema = txSchema.extend({
+  priority: z.enum(['low', 'normal', 'high']).optional(),
+  maxGasPrice: z.string().optional(),
+});
+
+const replacementSchema = z.object({
+  bumpPercent: z.number().min(MIN_REPLACEMENT_BUMP_PERCENT).optional(),
+});
 
 let celoClient: CeloClient | undefined;
 let riskEngine: RiskEngine | undefined;
@@ -52,6 +69,10 @@ function ensureDependencies() {
   }
 }
 
+function isKnownFeeCurrency(feeCurrency: string, network: TokenNetwork): boolean {
+  return resolveFeeCurrency(feeCurrency, network) !== undefined || findToken(feeCurrency, network)?.native === true;
+}
+
 router.post('/send', async (req, res, next) => {
   try {
     ensureDependencies();
@@ -65,6 +86,28 @@ router.post('/send', async (req, res, next) => {
 
     const parsed = txSchema.parse(req.body);
 
+    if (!isValidAddress(parsed.to)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid recipient address',
+      });
+    }
+
+    if (parsed.chainId !== undefined && Number(parsed.chainId) !== celoClient.getChain().id) {
+      return res.status(400).json({
+        success: false,
+        error: `Chain ID ${parsed.chainId} does not match configured chain ${celoClient.getChain().id}`,
+      });
+    }
+
+    const network = celoClient.getNetworkConfig().network;
+    if (parsed.feeCurrency && !isKnownFeeCurrency(parsed.feeCurrency, network)) {
+      return res.status(400).json({
+        success: false,
+        error: `Unknown fee currency ${parsed.feeCurrency}`,
+      });
+    }
+
     const riskContext = {
       agentId: parsed.agentId || 'unknown',
       type: parsed.data && parsed.data !== '0x' ? 'contract_call' : 'transfer',
@@ -73,6 +116,7 @@ router.post('/send', async (req, res, next) => {
     };
 
     const riskResult = await riskEngine!.validateTransaction(riskContext);
+    const requiresApproval = riskResult.riskScore >= 0.6;
 
     if (!riskResult.isValid) {
       return res.status(400).json({
@@ -81,7 +125,7 @@ router.post('/send', async (req, res, next) => {
         riskScore: riskResult.riskScore,
         warnings: riskResult.warnings,
         recommendations: riskResult.recommendations,
-        requiresApproval: riskResult.riskScore >= 0.6,
+        requiresApproval,
       });
     }
 
@@ -90,7 +134,7 @@ router.post('/send', async (req, res, next) => {
         success: true,
         transactionHash: undefined,
         riskScore: riskResult.riskScore,
-        requiresApproval: riskResult.riskScore >= 0.6,
+        requiresApproval,
         metadata: {
           simulated: true,
           ...parsed.metadata,
@@ -98,28 +142,69 @@ router.post('/send', async (req, res, next) => {
       });
     }
 
-    const mockTxHash = `0x${Math.random().toString(16).substr(2, 64)}` as Hash;
+    if (requiresApproval) {
+      return res.status(403).json({
+        success: false,
+        error: 'Transaction requires approval. Submit it from a workflow with an approval step.',
+        riskScore: riskResult.riskScore,
+        warnings: riskResult.warnings,
+        recommendations: riskResult.recommendations,
+        requiresApproval,
+      });
+    }
 
-    transactions.set(mockTxHash, {
-      hash: mockTxHash,
-      status: 'pending',
-      createdAt: new Date().toISOString(),
-      riskScore: riskResult.riskScore,
-      requiresApproval: riskResult.riskScore >= 0.6,
+    const agentFeePolicy = parsed.agentId ? feePolicyStore.get(parsed.agentId) : undefined;
+    const feeCurrency = parsed.feeCurrency
+      ? resolveFeeCurrency(parsed.feeCurrency, network)
+      : agentFeePolicy
+        ? await selectPolicyFeeCurrency(celoClient, agentFeePolicy, network)
+        : undefined;
+    const submittedBlock = await getBlockNumber(celoClient);
+
+    const sent = await broadcastTransaction(celoClient, {
+      to: parsed.to as Address,
+      value: parsed.value ? BigInt(parsed.value) : undefined,
+      data: parsed.data as `0x${string}` | undefined,
+      gasLimit: parsed.gasLimit ? BigInt(parsed.gasLimit) : undefined,
+      gasPrice: parsed.gasPrice ? BigInt(parsed.gasPrice) : undefined,
+      maxFeePerGas: parsed.maxFeePerGas ? BigInt(parsed.maxFeePerGas) : undefined,
+      maxPriorityFeePerGas: parsed.maxPriorityFeePerGas ? BigInt(parsed.maxPriorityFeePerGas) : undefined,
+      nonce: parsed.nonce,
+      feeCurrency: feeCurrency as Address | undefined,
     });
 
     logger.info('Transaction sent', {
-      hash: mockTxHash,
+      hash: sent.hash,
       to: parsed.to,
+      nonce: sent.nonce,
       agentId: parsed.agentId,
       riskScore: riskResult.riskScore,
     });
 
-    return res.json({
+    let status: TrackedTransaction['status'] = 'pending';
+    try {
+      const tracked = await trackTransaction(sent, {
+        agentId: parsed.agentId,
+        memo: parsed.memo,
+        metadata: parsed.metadata,
+        riskScore: riskResult.riskScore,
+        requiresApproval,
+        submittedBlock: submittedBlock.toString(),
+      });
+      status = tracked.status;
+      transactionWatcher.start(celoClient);
+    } catch (error) {
+      logger.error('Failed to record broadcast transaction', { hash: sent.hash, error });
+    }
+
+    return res.status(202).json({
       success: true,
-      transactionHash: mockTxHash,
+      transactionHash: sent.hash,
+      status,
+      nonce: sent.nonce,
+      feeCurrency: sent.feeCurrency,
       riskScore: riskResult.riskScore,
-      requiresApproval: riskResult.riskScore >= 0.6,
+      requiresApproval,
       metadata: parsed.metadata,
     });
   } catch (error) {
@@ -139,18 +224,82 @@ router.post('/estimate', async (req, res, next) => {
       });
     }
 
-    const parsed = txSchema.parse(req.body);
+    const parsed = estimateSchema.parse(req.body);
 
-    const gasLimit = parsed.gasLimit || '21000';
-    const gasPrice = parsed.gasPrice || '20000000000';
+    if (!isValidAddress(parsed.to)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid recipient address',
+      });
+    }
+
+    const network = celoClient.getNetworkConfig().network;
+    if (parsed.feeCurrency && !isKnownFeeCurrency(parsed.feeCurrency, network)) {
+      return res.status(400).json({
+        success: false,
+        error: `Unknown fee currency ${parsed.feeCurrency}`,
+      });
+    }
+    const feeCurrency = parsed.feeCurrency ? resolveFeeCurrency(parsed.feeCurrency, network) : undefined;
+    const feeToken = feeCurrency ? findToken(feeCurrency, network) : undefined;
+
+    const estimate = await estimateTransactionCost(
+      celoClient,
+      {
+        to: parsed.to as Address,
+        value: parsed.value ? BigInt(parsed.value) : undefined,
+        data: parsed.data as `0x${string}` | undefined,
+      },
+      {
+        priority: parsed.priority,
+        maxGasPrice: parsed.maxGasPrice ? BigInt(parsed.maxGasPrice) : undefined,
+        feeCurrency: feeCurrency as Address | undefined,
+      }
+    );
+
+    const suggestions = estimate.fees
+      ? Object.fromEntries(
+          Object.entries(estimate.fees.suggestions).map(([priority, fees]) => [
+            priority,
+            {
+              maxFeePerGas: fees.maxFeePerGas.toString(),
+              maxPriorityFeePerGas: fees.maxPriorityFeePerGas.toString(),
+            },
+          ])
+        )
+      : undefined;
 
     return res.json({
       success: true,
-      gasLimit,
-      gasPrice,
-      maxFeePerGas: parsed.maxFeePerGas || gasPrice,
-      maxPriorityFeePerGas: parsed.maxPriorityFeePerGas || '1000000000',
-      confidence: 0.95,
+      priority: estimate.priority,
+      gasUsed: estimate.gasUsed.toString(),
+      gasLimit: estimate.gasLimit.toString(),
+      gasPrice: estimate.gasPrice.toString(),
+      maxFeePerGas: estimate.maxFeePerGas?.toString(),
+      maxPriorityFeePerGas: estimate.maxPriorityFeePerGas?.toString(),
+      baseFeePerGas: estimate.fees?.baseFeePerGas.toString(),
+      feeSuggestions: suggestions,
+      feeHistory: estimate.fees
+        ? { oldestBlock: estimate.fees.oldestBlock.toString(), blockCount: estimate.fees.blockCount }
+        : undefined,
+      estimatedCost: { wei: estimate.estimatedCost.toString(), celo: formatAmount(estimate.estimatedCost) },
+      maxCost: { wei: estimate.maxCost.toString(), celo: formatAmount(estimate.maxCost) },
+      feeCurrency: estimate.feeCurrency
+        ? {
+            address: estimate.feeCurrency.address,
+            symbol: feeToken?.symbol,
+            gasPrice: estimate.feeCurrency.gasPrice.toString(),
+            estimatedCost: estimate.feeCurrency.estimatedCost.toString(),
+            maxCost: estimate.feeCurrency.maxCost.toString(),
+            ...(feeToken
+              ? {
+                  estimatedCostFormatted: formatAmount(estimate.feeCurrency.estimatedCost, feeToken.decimals),
+                  maxCostFormatted: formatAmount(estimate.feeCurrency.maxCost, feeToken.decimals),
+                }
+              : {}),
+          }
+        : undefined,
+      confidence: estimate.confidence,
       metadata: parsed.metadata,
     });
   } catch (error) {
@@ -159,25 +308,119 @@ router.post('/estimate', async (req, res, next) => {
   }
 });
 
-router.get('/:hash', (req, res) => {
-  const { hash } = req.params;
-  const tx = transactions.get(hash as Hash);
+function replacementHandler(mode: ReplacementMode): express.RequestHandler {
+  return async (req, res, next) => {
+    try {
+      ensureDependencies();
+
+      if (!celoClient) {
+        return res.status(503).json({
+          success: false,
+          error: 'Celo client not initialized. CELO_PRIVATE_KEY required.',
+        });
+      }
+
+      const parsed = replacementSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({
+          success: false,
+          error: `bumpPercent must be at least ${MIN_REPLACEMENT_BUMP_PERCENT}`,
+        });
+      }
+
+      const tx = await workflowRepository.getTransaction(req.params.hash);
+      if (!tx) {
+        return res.status(404).json({
+          success: false,
+          error: 'Transaction not found',
+        });
+      }
 
-  if (!tx) {
-    return res.status(404).json({
-      success: false,
-      error: 'Transaction not found',
+      const chain = await getReplacementChain(tx);
+      const head = chain[chain.length - 1];
+      if (head.status !== 'pending') {
+        return res.status(409).json({
+          success: false,
+          error: `Transaction is already ${head.status}`,
+        });
+      }
+
+      const replacement = await transactionWatcher.replace(celoClient, head, mode, parsed.data.bumpPercent);
+
+      return res.status(202).json({
+        success: true,
+        transactionHash: replacement.hash,
+        replaces: head.hash,
+        replacement: mode,
+        status: replacement.status,
+        nonce: replacement.nonce,
+        gasPrice: replacement.gasPrice,
+        maxFeePerGas: replacement.maxFeePerGas,
+        maxPriorityFeePerGas: replacement.maxPriorityFeePerGas,
+      });
+    } catch (error) {
+      logger.error('Transaction replacement failed', { hash: req.params.hash, mode, error });
+      return next(error);
+    }
+  };
+}
+
+router.post('/:hash/speedup', replacementHandler('speedup'));
+
+router.post('/:hash/cancel', replacementHandler('cancel'));
+
+router.get('/:hash', async (req, res, next) => {
+  try {
+    const requested = await workflowRepository.getTransaction(req.params.hash);
+
+    if (!requested) {
+      return res.status(404).json({
+        success: false,
+        error: 'Transaction not found',
+      });
+    }
+
+    const chain = await getReplacementChain(requested);
+    const tx =
+      chain.find((member) => member.status === 'confirmed' || member.status === 'failed') ?? chain[chain.length - 1];
+
+    return res.json({
+      success: true,
+      transactionHash: tx.hash,
+      requestedHash: requested.hash,
+      status: tx.status,
+      replacement: tx.replacement,
+      from: tx.from,
+      to: tx.to,
+      value: tx.value,
+      nonce: tx.nonce,
+      chainId: tx.chainId,
+      gasLimit: tx.gasLimit,
+      gasPrice: tx.gasPrice,
+      maxFeePerGas: tx.maxFeePerGas,
+      maxPriorityFeePerGas: tx.maxPriorityFeePerGas,
+      feeCurrency: tx.feeCurrency,
+      blockNumber: tx.blockNumber,
+      gasUsed: tx.gasUsed,
+      effectiveGasPrice: tx.effectiveGasPrice,
+      createdAt: tx.createdAt,
+      updatedAt: tx.updatedAt,
+      riskScore: tx.riskScore,
+      requiresApproval: tx.requiresApproval,
+      agentId: tx.agentId,
+      memo: tx.memo,
+      metadata: tx.metadata,
+      history: tx.history,
+      replacementChain: chain.map((member) => ({
+        hash: member.hash,
+        status: member.status,
+        replacement: member.replacement,
+        createdAt: member.createdAt,
+      })),
     });
+  } catch (error) {
+    return next(error);
   }
-
-  return res.json({
-    success: true,
-    transactionHash: tx.hash,
-    status: tx.status,
-    createdAt: tx.createdAt,
-    riskScore: tx.riskScore,
-    requiresApproval: tx.requiresApproval,
-  });
 });
 
 export { router as txRoutes };
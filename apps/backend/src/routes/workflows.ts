@@ -1,41 +1,114 @@
 import express, { Router } from 'express';
-import { LangChainAgent } from '@celo-automator/langchain-agent';
-import { CeloClient } from '@celo-automator/celo-functions';
-import { WorkflowOrchestrator } from '@celo-automator/langchain-agent';
-import { validateWorkflow } from '@celo-automator/core';
-import type { Workflow, WorkflowExecution } from '@celo-automator/types';
+import { z } from 'zod';
+import {
+  getWorkflowTemplate,
+  findWorkflowErrors,
+  instantiateWorkflowTemplate,
+  ValidationError,
+  workflowTemplates,
+} from '@celo-automator/core';
+import type { Workflow } from '@celo-automator/types';
 import { generateId } from '@celo-automator/core';
+import { workflowRepository } from '../storage/index.js';
+import {
+  cancelWorkflowExecution,
+  getActiveExecutionIds,
+  getCeloClient,
+  getOrchestrator,
+  startWorkflowExecution,
+} from '../services/workflow-runner.js';
+import {
+  engageKillSwitch,
+  getExecutionBlocker,
+  releaseKillSwitch,
+  setWorkflowEnabled,
+  setWorkflowPaused,
+} from '../services/workflow-controls.js';
+import { simulateWorkflowRun } from '../services/workflow-simulator.js';
+import {
+  filterExecutions,
+  paginateExecutions,
+  queryWorkflows,
+  summarizeExecutions,
+} from '../services/workflow-queries.js';
+import {
+  createWorkflowBundle,
+  parseWorkflowBundle,
+  serializeWorkflowBundle,
+  WorkflowBundleError,
+} from '../services/workflow-bundles.js';
+import {
+  commitWorkflowVersion,
+  diffWorkflowVersions,
+  rollbackWorkflow,
+} from '../services/workflow-versions.js';
+import { findTriggerError, getTriggerStatus, registerTriggers } from '../services/triggers.js';
 
 const router: Router = express.Router();
-const workflows: Map<string, Workflow> = new Map();
-const executions: Map<string, WorkflowExecution> = new Map();
 
-let celoClient: CeloClient | undefined;
-let agent: LangChainAgent | undefined;
-let orchestrator: WorkflowOrchestrator | undefined;
+const paginationQuery = {
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  cursor: z.string().min(1).optional(),
+  page: z.coerce.number().int().min(1).optional(),
+  offset: z.coerce.number().int().min(0).optional(),
+};
+
+const workflowListQuerySchema = z.object({
+  ...paginationQuery,
+  name: z.string().optional(),
+  triggerType: z.enum(['event', 'cron', 'manual', 'condition']).optional(),
+  enabled: z.enum(['true', 'false']).transform((value) => value === 'true').optional(),
+  tag: z.string().optional(),
+  metadata: z.record(z.string()).optional(),
+});
 
-if (process.env.CELO_PRIVATE_KEY) {
-  try {
-    celoClient = new CeloClient({
-      privateKey: process.env.CELO_PRIVATE_KEY,
-      network: (process.env.CELO_NETWORK as 'alfajores' | 'mainnet') || 'alfajores',
-      rpcUrl: process.env.CELO_RPC_URL,
-    });
+const executionListQuerySchema = z.object({
+  ...paginationQuery,
+  status: z.enum(['pending', 'running', 'waiting_approval', 'completed', 'failed', 'cancelled']).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+});
 
-    agent = new LangChainAgent({
-      id: 'main',
-      type: 'langchain',
-      name: 'Celo Automator Agent',
-      model: process.env.AI_MODEL || 'gemini-1.5-flash',
-      geminiApiKey: process.env.GEMINI_API_KEY,
-      celoClient,
-    });
+const inFlightSchema = z.object({
+  inFlight: z.enum(['drain', 'cancel']).default('drain'),
+});
 
-    orchestrator = new WorkflowOrchestrator(agent);
-    console.log('✅ Workflow orchestrator initialized successfully');
-  } catch (error) {
-    console.error('❌ Failed to initialize workflow orchestrator:', error);
+const killSwitchSchema = inFlightSchema.extend({
+  reason: z.string().optional(),
+  engagedBy: z.string().optional(),
+});
+
+function describeIssues(error: z.ZodError): string {
+  return error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`).join('; ');
+}
+
+async function settleInFlight(
+  workflowId: string | undefined,
+  mode: 'drain' | 'cancel'
+): Promise<{ draining: string[]; cancelled: string[] }> {
+  const active = getActiveExecutionIds(workflowId);
+  if (mode === 'drain') {
+    return { draining: active, cancelled: [] };
   }
+
+  await Promise.all(active.map((executionId) => cancelWorkflowExecution(executionId)));
+  return { draining: [], cancelled: active };
+}
+
+function parseVersion(value: unknown): number | undefined {
+  const version = Number(value);
+  return Number.isInteger(version) && version > 0 ? version : undefined;
+}
+
+async function allocateWorkflowId(): Promise<string | undefined> {
+  const maxAttempts = 100;
+  for (let attempts = 0; attempts < maxAttempts; attempts++) {
+    const id = generateId('workflow');
+    if (!(await workflowRepository.hasWorkflow(id))) {
+      return id;
+    }
+  }
+  return undefined;
 }
 
 router.post('/interpret', async (req, res, next) => {
@@ -49,6 +122,7 @@ router.post('/interpret', async (req, res, next) => {
       });
     }
 
+    const orchestrator = getOrchestrator();
     if (!orchestrator) {
       return res.status(503).json({
         success: false,
@@ -66,6 +140,8 @@ router.post('/interpret', async (req, res, next) => {
       success: true,
       workflow: result.workflow,
       explanation: result.explanation,
+      assumptions: result.assumptions,
+      attempts: result.attempts,
     });
   } catch (error) {
     return next(error);
@@ -76,73 +152,299 @@ router.post('/', async (req, res, next) => {
   try {
     const workflow = req.body as Workflow;
 
-    if (!validateWorkflow(workflow)) {
+    const errors = findWorkflowErrors(workflow);
+    if (errors.length > 0) {
       return res.status(400).json({
         success: false,
         error: 'Invalid workflow format',
+        errors,
+      });
+    }
+
+    const triggerError = findTriggerError(workflow);
+    if (triggerError) {
+      return res.status(400).json({
+        success: false,
+        error: triggerError,
+      });
+    }
+
+    if (workflow.id && (await workflowRepository.hasWorkflow(workflow.id))) {
+      return res.status(409).json({
+        success: false,
+        error: 'Workflow ID already exists',
+      });
+    }
+
+    const id = workflow.id ?? (await allocateWorkflowId());
+    if (!id) {
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to generate unique workflow ID',
+      });
+    }
+
+    const stored = await commitWorkflowVersion({ ...workflow, id }, 'create');
+    await registerTriggers(stored);
+
+    return res.status(201).json({
+      success: true,
+      workflow: stored,
+    });
+  } catch (error) {
+    return next(error);
+  }
+});
+
+router.get('/', async (req, res, next) => {
+  try {
+    const parsed = workflowListQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({
+        success: false,
+        error: describeIssues(parsed.error),
       });
     }
 
-    let id: string;
+    const { limit, cursor, page: pageNumber, offset, ...filter } = parsed.data;
+    let page;
+    try {
+      page = queryWorkflows(await workflowRepository.listWorkflows(), filter, {
+        limit,
+        cursor,
+        page: pageNumber,
+        offset,
+      });
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        return res.status(400).json({
+          success: false,
+          error: error.message,
+        });
+      }
+      throw error;
+    }
+
+    return res.json({
+      success: true,
+      items: page.items,
+      pagination: page.pagination,
+    });
+  } catch (error) {
+    return next(error);
+  }
+});
+
+router.get('/templates', (_req, res) => {
+  return res.json({
+    success: true,
+    templates: workflowTemplates,
+  });
+});
+
+router.post('/templates/:templateId/instantiate', async (req, res, next) => {
+  try {
+    const template = getWorkflowTemplate(req.params.templateId);
+    if (!template) {
+      return res.status(404).json({
+        success: false,
+        error: 'Workflow template not found',
+      });
+    }
+
+    const { parameters = {}, name } = req.body ?? {};
+    if (typeof parameters !== 'object' || parameters === null || Array.isArray(parameters)) {
+      return res.status(400).json({
+        success: false,
+        error: 'parameters must be an object',
+      });
+    }
 
-    if (workflow.id) {
-      if (workflows.has(workflow.id)) {
-        return res.status(409).json({
+    let workflow: Omit<Workflow, 'id'>;
+    try {
+      workflow = instantiateWorkflowTemplate(template, parameters);
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        return res.status(400).json({
           success: false,
-          error: 'Workflow ID already exists',
+          error: error.message,
         });
       }
-      id = workflow.id;
-    } else {
-      let attempts = 0;
-      const maxAttempts = 100;
-      do {
-        id = generateId('workflow');
-        attempts++;
-        if (attempts >= maxAttempts) {
+      throw error;
+    }
+
+    const id = await allocateWorkflowId();
+    if (!id) {
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to generate unique workflow ID',
+      });
+    }
+
+    const stored = await commitWorkflowVersion(
+      { ...workflow, ...(typeof name === 'string' && name ? { name } : {}), id },
+      'create'
+    );
+    await registerTriggers(stored);
+
+    return res.status(201).json({
+      success: true,
+      templateId: template.id,
+      workflow: stored,
+    });
+  } catch (error) {
+    return next(error);
+  }
+});
+
+router.get('/export', async (req, res, next) => {
+  try {
+    const format = req.query.format ?? 'json';
+    if (format !== 'json' && format !== 'yaml') {
+      return res.status(400).json({
+        success: false,
+        error: 'format must be json or yaml',
+      });
+    }
+
+    const ids = typeof req.query.ids === 'string' ? req.query.ids.split(',').filter(Boolean) : undefined;
+    const workflows = await workflowRepository.listWorkflows();
+    const selected = ids ? workflows.filter((workflow) => ids.includes(workflow.id)) : workflows;
+
+    const missing = ids?.filter((id) => !selected.some((workflow) => workflow.id === id)) ?? [];
+    if (missing.length > 0) {
+      return res.status(404).json({
+        success: false,
+        error: `Workflows not found: ${missing.join(', ')}`,
+      });
+    }
+
+    return res
+      .type(format === 'yaml' ? 'application/yaml' : 'application/json')
+      .attachment(`workflows.${format}`)
+      .send(serializeWorkflowBundle(createWorkflowBundle(selected), format));
+  } catch (error) {
+    return next(error);
+  }
+});
+
+router.post(
+  '/import',
+  express.text({ type: ['application/yaml', 'application/x-yaml', 'text/yaml', 'text/plain'] }),
+  async (req, res, next) => {
+    try {
+      let bundle;
+      try {
+        bundle = parseWorkflowBundle(req.body);
+        const triggerIssues = bundle.workflows.flatMap((workflow, index) => {
+          const error = findTriggerError(workflow);
+          return error ? [{ index, errors: [error] }] : [];
+        });
+        if (triggerIssues.length > 0) {
+          throw new WorkflowBundleError(triggerIssues);
+        }
+      } catch (error) {
+        if (error instanceof ValidationError) {
+          return res.status(400).json({
+            success: false,
+            error: error.message,
+            ...(error instanceof WorkflowBundleError ? { errors: error.issues } : {}),
+          });
+        }
+        throw error;
+      }
+
+      const imported = [];
+      for (const { id: sourceId, ...definition } of bundle.workflows) {
+        const id =
+          sourceId && !(await workflowRepository.hasWorkflow(sourceId)) ? sourceId : await allocateWorkflowId();
+        if (!id) {
           return res.status(500).json({
             success: false,
             error: 'Failed to generate unique workflow ID',
           });
         }
-      } while (workflows.has(id));
+
+        const stored = await commitWorkflowVersion({ ...definition, id }, 'create');
+        await registerTriggers(stored);
+        imported.push({ sourceId, workflow: stored });
+      }
+
+      return res.status(201).json({
+        success: true,
+        imported,
+      });
+    } catch (error) {
+      return next(error);
     }
+  }
+);
 
-    workflow.id = id;
-    workflows.set(id, workflow);
+router.get('/kill-switch', async (_req, res, next) => {
+  try {
+    return res.json({
+      success: true,
+      killSwitch: await workflowRepository.getKillSwitch(),
+    });
+  } catch (error) {
+    return next(error);
+  }
+});
 
-    return res.status(201).json({
+router.post('/kill-switch/engage', async (req, res, next) => {
+  try {
+    const parsed = killSwitchSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({
+        success: false,
+        error: describeIssues(parsed.error),
+      });
+    }
+
+    const { inFlight, ...options } = parsed.data;
+    const killSwitch = await engageKillSwitch(options);
+
+    return res.json({
       success: true,
-      workflow,
+      killSwitch,
+      ...(await settleInFlight(undefined, inFlight)),
     });
   } catch (error) {
     return next(error);
   }
 });
 
-router.get('/', async (_req, res) => {
-  const workflowList = Array.from(workflows.values());
-  return res.json({
-    success: true,
-    workflows: workflowList,
-  });
+router.post('/kill-switch/release', async (_req, res, next) => {
+  try {
+    return res.json({
+      success: true,
+      killSwitch: await releaseKillSwitch(),
+    });
+  } catch (error) {
+    return next(error);
+  }
 });
 
-router.get('/:id', async (req, res) => {
-  const { id } = req.params;
-  const workflow = workflows.get(id);
+router.get('/:id', async (req, res, next) => {
+  try {
+    const { id } = req.params;
+    const workflow = await workflowRepository.getWorkflow(id);
 
-  if (!workflow) {
-    return res.status(404).json({
-      success: false,
-      error: 'Workflow not found',
+    if (!workflow) {
+      return res.status(404).json({
+        success: false,
+        error: 'Workflow not found',
+      });
+    }
+
+    return res.json({
+      success: true,
+      workflow,
+      ...getTriggerStatus(id),
     });
+  } catch (error) {
+    return next(error);
   }
-
-  return res.json({
-    success: true,
-    workflow,
-  });
 });
 
 router.put('/:id', async (req, res, next) => {
@@ -150,22 +452,242 @@ router.put('/:id', async (req, res, next) => {
     const { id } = req.params;
     const workflow = req.body as Workflow;
 
-    if (!workflows.has(id)) {
+    if (!(await workflowRepository.hasWorkflow(id))) {
       return res.status(404).json({
         success: false,
         error: 'Workflow not found',
       });
     }
 
-    if (!validateWorkflow(workflow)) {
+    const errors = findWorkflowErrors(workflow);
+    if (errors.length > 0) {
       return res.status(400).json({
         success: false,
         error: 'Invalid workflow format',
+        errors,
       });
     }
 
-    workflow.id = id;
-    workflows.set(id, workflow);
+    const triggerError = findTriggerError(workflow);
+    if (triggerError) {
+      return res.status(400).json({
+        success: false,
+        error: triggerError,
+      });
+    }
+
+    const stored = await commitWorkflowVersion({ ...workflow, id }, 'update');
+    await registerTriggers(stored);
+
+    return res.json({
+      success: true,
+      workflow: stored,
+    });
+  } catch (error) {
+    return next(error);
+  }
+});
+
+function toggleWorkflow(action: 'enable' | 'disable' | 'pause' | 'resume'): express.RequestHandler {
+  return async (req, res, next) => {
+    try {
+      const parsed = inFlightSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({
+          success: false,
+          error: describeIssues(parsed.error),
+        });
+      }
+
+      const { id } = req.params;
+      const workflow =
+        action === 'enable' || action === 'disable'
+          ? await setWorkflowEnabled(id, action === 'enable')
+          : await setWorkflowPaused(id, action === 'pause');
+
+      if (!workflow) {
+        return res.status(404).json({
+          success: false,
+          error: 'Workflow not found',
+        });
+      }
+
+      const stopping = action === 'disable' || action === 'pause';
+      return res.json({
+        success: true,
+        workflow,
+        ...(stopping ? await settleInFlight(id, parsed.data.inFlight) : {}),
+      });
+    } catch (error) {
+      return next(error);
+    }
+  };
+}
+
+router.post('/:id/enable', toggleWorkflow('enable'));
+router.post('/:id/disable', toggleWorkflow('disable'));
+router.post('/:id/pause', toggleWorkflow('pause'));
+router.post('/:id/resume', toggleWorkflow('resume'));
+
+router.get('/:id/executions', async (req, res, next) => {
+  try {
+    const { id } = req.params;
+    if (!(await workflowRepository.hasWorkflow(id))) {
+      return res.status(404).json({
+        success: false,
+        error: 'Workflow not found',
+      });
+    }
+
+    const parsed = executionListQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({
+        success: false,
+        error: describeIssues(parsed.error),
+      });
+    }
+
+    const { limit, cursor, page: pageNumber, offset, ...filter } = parsed.data;
+    const executions = filterExecutions(await workflowRepository.listExecutions(id), filter);
+    let page;
+    try {
+      page = paginateExecutions(executions, { limit, cursor, page: pageNumber, offset });
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        return res.status(400).json({
+          success: false,
+          error: error.message,
+        });
+      }
+      throw error;
+    }
+
+    return res.json({
+      success: true,
+      items: page.items,
+      pagination: page.pagination,
+      stats: summarizeExecutions(executions),
+    });
+  } catch (error) {
+    return next(error);
+  }
+});
+
+router.get('/:id/versions', async (req, res, next) => {
+  try {
+    const { id } = req.params;
+
+    if (!(await workflowRepository.hasWorkflow(id))) {
+      return res.status(404).json({
+        success: false,
+        error: 'Workflow not found',
+      });
+    }
+
+    const versions = await workflowRepository.listWorkflowVersions(id);
+    return res.json({
+      success: true,
+      versions,
+    });
+  } catch (error) {
+    return next(error);
+  }
+});
+
+router.get('/:id/versions/:version', async (req, res, next) => {
+  try {
+    const { id } = req.params;
+    const version = parseVersion(req.params.version);
+
+    if (version === undefined) {
+      return res.status(400).json({
+        success: false,
+        error: 'Version must be a positive integer',
+      });
+    }
+
+    const entry = await workflowRepository.getWorkflowVersion(id, version);
+    if (!entry) {
+      return res.status(404).json({
+        success: false,
+        error: 'Workflow version not found',
+      });
+    }
+
+    return res.json({
+      success: true,
+      version: entry,
+    });
+  } catch (error) {
+    return next(error);
+  }
+});
+
+router.get('/:id/diff', async (req, res, next) => {
+  try {
+    const { id } = req.params;
+    const workflow = await workflowRepository.getWorkflow(id);
+
+    if (!workflow) {
+      return res.status(404).json({
+        success: false,
+        error: 'Workflow not found',
+      });
+    }
+
+    const from = parseVersion(req.query.from);
+    const to = req.query.to === undefined ? workflow.version : parseVersion(req.query.to);
+    if (from === undefined || to === undefined) {
+      return res.status(400).json({
+        success: false,
+        error: 'from and to must be positive integer versions',
+      });
+    }
+
+    const diff = await diffWorkflowVersions(id, from, to);
+    if (!diff) {
+      return res.status(404).json({
+        success: false,
+        error: 'Workflow version not found',
+      });
+    }
+
+    return res.json({
+      success: true,
+      diff,
+    });
+  } catch (error) {
+    return next(error);
+  }
+});
+
+router.post('/:id/rollback', async (req, res, next) => {
+  try {
+    const { id } = req.params;
+    const version = parseVersion(req.body?.version);
+
+    if (version === undefined) {
+      return res.status(400).json({
+        success: false,
+        error: 'Version must be a positive integer',
+      });
+    }
+
+    if (!(await workflowRepository.hasWorkflow(id))) {
+      return res.status(404).json({
+        success: false,
+        error: 'Workflow not found',
+      });
+    }
+
+    const workflow = await rollbackWorkflow(id, version);
+    if (!workflow) {
+      return res.status(404).json({
+        success: false,
+        error: 'Workflow version not found',
+      });
+    }
+    await registerTriggers(workflow);
 
     return res.json({
       success: true,
@@ -179,7 +701,7 @@ router.put('/:id', async (req, res, next) => {
 router.post('/:id/execute', async (req, res, next) => {
   try {
     const { id } = req.params;
-    const workflow = workflows.get(id);
+    const workflow = await workflowRepository.getWorkflow(id);
 
     if (!workflow) {
       return res.status(404).json({
@@ -188,44 +710,26 @@ router.post('/:id/execute', async (req, res, next) => {
       });
     }
 
-    if (!orchestrator) {
+    if (!getOrchestrator()) {
       return res.status(503).json({
         success: false,
         error: 'Workflow orchestrator not initialized',
       });
     }
 
-    const executionId = generateId('exec');
-    const execution: WorkflowExecution = {
-      id: executionId,
-      workflowId: id,
-      status: 'running',
-      startedAt: new Date().toISOString(),
-    };
-    executions.set(executionId, execution);
-
-    orchestrator
-      .executeWorkflow(workflow)
-      .then((result: any) => {
-        execution.status = result.success ? 'completed' : 'failed';
-        execution.completedAt = new Date().toISOString();
-        execution.results = result.results;
-        execution.transactionHashes = result.transactionHashes;
-        if (result.error) {
-          execution.error = result.error;
-        }
-        executions.set(executionId, execution);
-      })
-      .catch((error: any) => {
-        execution.status = 'failed';
-        execution.completedAt = new Date().toISOString();
-        execution.error = error.message;
-        executions.set(executionId, execution);
+    const blocker = await getExecutionBlocker(id);
+    if (blocker) {
+      return res.status(409).json({
+        success: false,
+        error: blocker,
       });
+    }
+
+    const execution = await startWorkflowExecution(workflow, { type: 'manual' });
 
     return res.json({
       success: true,
-      executionId,
+      executionId: execution.id,
       execution,
     });
   } catch (error) {
@@ -233,27 +737,105 @@ router.post('/:id/execute', async (req, res, next) => {
   }
 });
 
-router.get('/executions/:executionId', async (req, res) => {
-  const { executionId } = req.params;
-  const execution = executions.get(executionId);
+router.post('/:id/simulate', async (req, res, next) => {
+  try {
+    const { id } = req.params;
+    const { trigger } = req.body ?? {};
+    const workflow = await workflowRepository.getWorkflow(id);
 
-  if (!execution) {
-    return res.status(404).json({
-      success: false,
-      error: 'Execution not found',
+    if (!workflow) {
+      return res.status(404).json({
+        success: false,
+        error: 'Workflow not found',
+      });
+    }
+
+    if (trigger !== undefined && (typeof trigger !== 'object' || trigger === null || Array.isArray(trigger))) {
+      return res.status(400).json({
+        success: false,
+        error: 'Trigger payload must be an object',
+      });
+    }
+
+    const orchestrator = getOrchestrator();
+    const celoClient = getCeloClient();
+    if (!orchestrator || !celoClient) {
+      return res.status(503).json({
+        success: false,
+        error: 'Workflow orchestrator not initialized',
+      });
+    }
+
+    const simulation = await simulateWorkflowRun(orchestrator, celoClient, workflow, trigger);
+
+    return res.json({
+      success: true,
+      simulation,
     });
+  } catch (error) {
+    return next(error);
   }
+});
+
+router.get('/executions/:executionId', async (req, res, next) => {
+  try {
+    const { executionId } = req.params;
+    const execution = await workflowRepository.getExecution(executionId);
+
+    if (!execution) {
+      return res.status(404).json({
+        success: false,
+        error: 'Execution not found',
+      });
+    }
 
     return res.json({
       success: true,
       execution,
     });
+  } catch (error) {
+    return next(error);
+  }
+});
+
+router.post('/executions/:executionId/cancel', async (req, res, next) => {
+  try {
+    const { executionId } = req.params;
+    const execution = await workflowRepository.getExecution(executionId);
+
+    if (!execution) {
+      return res.status(404).json({
+        success: false,
+        error: 'Execution not found',
+      });
+    }
+
+    if (
+      execution.status !== 'running' &&
+      execution.status !== 'pending' &&
+      execution.status !== 'waiting_approval'
+    ) {
+      return res.status(409).json({
+        success: false,
+        error: `Execution is already ${execution.status}`,
+      });
+    }
+
+    const cancelled = await cancelWorkflowExecution(executionId);
+
+    return res.json({
+      success: true,
+      execution: cancelled,
+    });
+  } catch (error) {
+    return next(error);
+  }
 });
 
 router.post('/:id/explain', async (req, res, next) => {
   try {
     const { id } = req.params;
-    const workflow = workflows.get(id);
+    const workflow = await workflowRepository.getWorkflow(id);
 
     if (!workflow) {
       return res.status(404).json({
@@ -262,6 +844,7 @@ router.post('/:id/explain', async (req, res, next) => {
       });
     }
 
+    const orchestrator = getOrchestrator();
     if (!orchestrator) {
       return res.status(503).json({
         success: false,
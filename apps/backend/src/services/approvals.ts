@@ -0,0 +1,181 @@
+import { generateId } from '@celo-automator/core';
+import type { ApprovalDecision, ApprovalRequest, WorkflowApproval } from '@celo-automator/types';
+import { workflowRepository } from '../storage/index.js';
+import { logger } from '../utils/logger.js';
+
+export interface ApprovalManagerConfig {
+  defaultExpiryMs: number;
+}
+
+const MAX_TIMER_DELAY_MS = 60 * 60 * 1000;
+
+function toDecision(approval: WorkflowApproval): ApprovalDecision {
+  const reasons: Record<WorkflowApproval['status'], string | undefined> = {
+    pending: undefined,
+    approved: undefined,
+    rejected: `Approval rejected${approval.decidedBy ? ` by ${approval.decidedBy}` : ''}`,
+    expired: 'Approval expired',
+    cancelled: 'Approval cancelled',
+  };
+
+  return {
+    approved: approval.status === 'approved',
+    approvalId: approval.id,
+    decidedBy: approval.decidedBy,
+    comment: approval.comment,
+    decidedAt: approval.decidedAt,
+    reason: reasons[approval.status],
+  };
+}
+
+export class ApprovalManager {
+  private readonly config: ApprovalManagerConfig;
+  private waiters = new Map<string, (decision: ApprovalDecision) => void>();
+  private settling = new Set<string>();
+
+  constructor(config?: Partial<ApprovalManagerConfig>) {
+    this.config = {
+      defaultExpiryMs: config?.defaultExpiryMs ?? 24 * 60 * 60 * 1000,
+    };
+  }
+
+  async request(request: ApprovalRequest): Promise<ApprovalDecision> {
+    if (!request.workflowId || !request.executionId) {
+      throw new Error('Approval requests require a workflow execution');
+    }
+
+    const existing = (await workflowRepository.listApprovals({ executionId: request.executionId }))
+      .filter((approval) => approval.stepId === request.stepId)
+      .sort((a, b) => a.requestedAt.localeCompare(b.requestedAt))
+      .pop();
+
+    let approval = existing;
+    if (!approval) {
+      const requestedAt = new Date();
+      approval = {
+        id: generateId('approval'),
+        workflowId: request.workflowId,
+        executionId: request.executionId,
+        stepId: request.stepId,
+        status: 'pending',
+        message: request.message,
+        approvers: request.approvers,
+        requestedAt: requestedAt.toISOString(),
+        expiresAt: new Date(
+          requestedAt.getTime() + (request.expiresInMs ?? this.config.defaultExpiryMs)
+        ).toISOString(),
+      };
+      await workflowRepository.saveApproval(approval);
+
+      logger.info('Workflow approval requested', {
+        approvalId: approval.id,
+        executionId: approval.executionId,
+        expiresAt: approval.expiresAt,
+      });
+    }
+
+    if (approval.status === 'pending' && Date.parse(approval.expiresAt) <= Date.now()) {
+      approval = (await this.settle(approval.id, { status: 'expired' })) ?? approval;
+    }
+    if (approval.status !== 'pending') {
+      return toDecision(approval);
+    }
+
+    return this.wait(approval, request.signal);
+  }
+
+  async decide(
+    id: string,
+    decision: { approved: boolean; decidedBy: string; comment?: string }
+  ): Promise<WorkflowApproval | undefined> {
+    return this.settle(id, {
+      status: decision.approved ? 'approved' : 'rejected',
+      decidedBy: decision.decidedBy,
+      comment: decision.comment,
+    });
+  }
+
+  async cancelForExecution(executionId: string): Promise<void> {
+    const pending = await workflowRepository.listApprovals({ executionId, status: 'pending' });
+    for (const approval of pending) {
+      await this.settle(approval.id, { status: 'cancelled' });
+    }
+  }
+
+  private wait(approval: WorkflowApproval, signal?: AbortSignal): Promise<ApprovalDecision> {
+    return new Promise((resolve) => {
+      let timer: NodeJS.Timeout | undefined;
+      const onAbort = () => {
+        void this.settle(approval.id, { status: 'cancelled' });
+      };
+      const armExpiry = () => {
+        const delay = Date.parse(approval.expiresAt) - Date.now();
+        timer = setTimeout(() => {
+          if (delay > MAX_TIMER_DELAY_MS) {
+            armExpiry();
+            return;
+          }
+          this.settle(approval.id, { status: 'expired' }).catch((error) => {
+            logger.error('Failed to expire workflow approval', { approvalId: approval.id, error });
+          });
+        }, Math.min(Math.max(delay, 0), MAX_TIMER_DELAY_MS));
+        timer.unref();
+      };
+
+      this.waiters.set(approval.id, (decision) => {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+        resolve(decision);
+      });
+      signal?.addEventListener('abort', onAbort, { once: true });
+      armExpiry();
+      if (signal?.aborted) {
+        onAbort();
+      }
+    });
+  }
+
+  private async settle(
+    id: string,
+    update: Pick<WorkflowApproval, 'status'> & Partial<Pick<WorkflowApproval, 'decidedBy' | 'comment'>>
+  ): Promise<WorkflowApproval | undefined> {
+    if (this.settling.has(id)) {
+      return undefined;
+    }
+    this.settling.add(id);
+
+    try {
+      const approval = await workflowRepository.getApproval(id);
+      if (!approval || approval.status !== 'pending') {
+        return undefined;
+      }
+
+      const settled: WorkflowApproval = {
+        ...approval,
+        ...update,
+        decidedAt: new Date().toISOString(),
+      };
+      await workflowRepository.saveApproval(settled);
+
+      logger.info('Workflow approval settled', {
+        approvalId: id,
+        executionId: settled.executionId,
+        status: settled.status,
+        decidedBy: settled.decidedBy,
+      });
+
+      const waiter = this.waiters.get(id);
+      this.waiters.delete(id);
+      waiter?.(toDecision(settled));
+      return settled;
+    } finally {
+      this.settling.delete(id);
+    }
+  }
+}
+
+export const approvalManager = new ApprovalManager({
+  defaultExpiryMs: process.env.APPROVAL_DEFAULT_EXPIRY_MS
+    ? Number(process.env.APPROVAL_DEFAULT_EXPIRY_MS)
+    : 24 * 60 * 60 * 1000,
+});
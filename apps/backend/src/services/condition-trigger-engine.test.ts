@@ -0,0 +1,141 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { StaticPriceFeed } from '@celo-automator/core';
+
+vi.hoisted(() => {
+  process.env.WORKFLOW_STORE = 'memory';
+});
+
+vi.mock('@celo-automator/celo-functions', () => ({
+  getBalance: vi.fn(),
+  getTokenBalance: vi.fn(),
+}));
+
+vi.mock('./workflow-runner.js', () => ({
+  getCeloClient: vi.fn(),
+  startWorkflowExecution: vi.fn(),
+}));
+
+import { workflowRepository, type StoredWorkflow } from '../storage/index.js';
+import { startWorkflowExecution } from './workflow-runner.js';
+import { ConditionTriggerEngine } from './condition-trigger-engine.js';
+
+const POLL_INTERVAL_MS = 1000;
+
+const workflow: StoredWorkflow = {
+  id: 'wf-price',
+  name: 'Buy the dip',
+  enabled: true,
+  trigger: {
+    type: 'condition',
+    condition: { type: 'price', operator: 'gt', value: 1, asset: 'CELO/USD' },
+  },
+  actions: [],
+};
+
+describe('ConditionTriggerEngine', () => {
+  let engine: ConditionTriggerEngine | undefined;
+  let priceFeed: StaticPriceFeed;
+
+  beforeEach(async () => {
+    vi.useFakeTimers();
+    priceFeed = new StaticPriceFeed({ 'CELO/USD': 0.5 });
+    vi.mocked(startWorkflowExecution).mockReset();
+    vi.mocked(startWorkflowExecution).mockImplementation(async () => ({
+      id: 'exec',
+      startedAt: new Date().toISOString(),
+    }) as any);
+
+    await workflowRepository.saveWorkflow(workflow);
+    await workflowRepository.saveTriggerState(workflow.id, {});
+  });
+
+  afterEach(() => {
+    engine?.stop();
+    engine = undefined;
+    vi.useRealTimers();
+  });
+
+  async function pollAt(price: number): Promise<void> {
+    priceFeed.setPrice('CELO/USD', price);
+    await vi.advanceTimersByTimeAsync(POLL_INTERVAL_MS);
+  }
+
+  it('should fire once when the condition becomes true and re-arm after it resets', async () => {
+    engine = new ConditionTriggerEngine(priceFeed, { pollIntervalMs: POLL_INTERVAL_MS });
+    await engine.start();
+
+    await pollAt(0.5);
+    expect(startWorkflowExecution).not.toHaveBeenCalled();
+    expect(engine.getWatch(workflow.id)?.armed).toBe(true);
+
+    await pollAt(1.2);
+    await pollAt(1.5);
+    expect(startWorkflowExecution).toHaveBeenCalledTimes(1);
+    expect(engine.getWatch(workflow.id)).toMatchObject({ armed: false, lastValue: '1.5' });
+
+    await pollAt(0.9);
+    expect(engine.getWatch(workflow.id)?.armed).toBe(true);
+
+    await pollAt(1.1);
+    expect(startWorkflowExecution).toHaveBeenCalledTimes(2);
+    expect(vi.mocked(startWorkflowExecution).mock.calls[1][1]).toMatchObject({
+      type: 'condition',
+      data: { value: '1.1' },
+    });
+  });
+
+  it('should stay armed and retry when starting the run fails', async () => {
+    vi.mocked(startWorkflowExecution).mockRejectedValueOnce(new Error('orchestrator unavailable'));
+    engine = new ConditionTriggerEngine(priceFeed, { pollIntervalMs: POLL_INTERVAL_MS });
+    await engine.start();
+
+    await pollAt(1.2);
+    expect(engine.getWatch(workflow.id)).toMatchObject({ armed: true, lastFiredAt: undefined });
+
+    await pollAt(1.2);
+    expect(startWorkflowExecution).toHaveBeenCalledTimes(2);
+    expect(engine.getWatch(workflow.id)?.armed).toBe(false);
+  });
+
+  it('should keep a fired trigger disarmed across restarts', async () => {
+    await workflowRepository.saveTriggerState(workflow.id, { armed: false, lastValue: '1.3' });
+    engine = new ConditionTriggerEngine(priceFeed, { pollIntervalMs: POLL_INTERVAL_MS });
+    await engine.start();
+
+    await pollAt(1.4);
+
+    expect(startWorkflowExecution).not.toHaveBeenCalled();
+    expect((await workflowRepository.getTriggerState(workflow.id))?.armed).toBe(false);
+  });
+
+  it('should reject price triggers when no price feed is configured', async () => {
+    engine = new ConditionTriggerEngine(undefined, { pollIntervalMs: POLL_INTERVAL_MS });
+    await engine.start();
+
+    expect(engine.findConfigurationError(workflow)).toBe('Price condition triggers require a configured price feed');
+    expect(engine.findConfigurationError({ trigger: { type: 'manual' } })).toBeUndefined();
+    expect(engine.getWatch(workflow.id)).toBeUndefined();
+  });
+
+  it('should load the price feed fixture when started', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'price-feed-'));
+    const fixture = join(dir, 'prices.json');
+
+    try {
+      engine = new ConditionTriggerEngine(undefined, { pollIntervalMs: POLL_INTERVAL_MS, priceFeedFixture: fixture });
+      expect(engine.findConfigurationError(workflow)).toBeUndefined();
+
+      writeFileSync(fixture, JSON.stringify({ 'celo/usd': 2 }));
+      await engine.start();
+      await vi.advanceTimersByTimeAsync(POLL_INTERVAL_MS);
+
+      expect(startWorkflowExecution).toHaveBeenCalledTimes(1);
+      expect(engine.getWatch(workflow.id)?.lastValue).toBe('2');
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,279 @@
+import { getBalance, getTokenBalance } from '@celo-automator/celo-functions';
+import { compareValues, StaticPriceFeed, type PriceFeed } from '@celo-automator/core';
+import type { Address } from 'viem';
+import { workflowRepository, type StoredWorkflow } from '../storage/index.js';
+import { getCeloClient, startWorkflowExecution } from './workflow-runner.js';
+import { logger } from '../utils/logger.js';
+
+export interface ConditionTriggerEngineConfig {
+  pollIntervalMs: number;
+  priceFeedFixture?: string;
+}
+
+export interface ConditionWatchInfo {
+  workflowId: string;
+  type: 'balance' | 'price';
+  operator: string;
+  value: string | number;
+  armed: boolean;
+  lastValue?: string;
+  lastCheckedAt?: string;
+  lastFiredAt?: string;
+}
+
+type TriggerCondition = Extract<StoredWorkflow['trigger'], { type: 'condition' }>['condition'];
+
+type ConditionWorkflow = StoredWorkflow & {
+  trigger: { type: 'condition'; condition: TriggerCondition };
+};
+
+interface ConditionWatch {
+  workflowId: string;
+  condition: TriggerCondition & { type: 'balance' | 'price' };
+  armed: boolean;
+  lastValue?: string;
+  lastCheckedAt?: string;
+  lastFiredAt?: string;
+}
+
+function isConditionWorkflow(workflow: StoredWorkflow): workflow is ConditionWorkflow {
+  return workflow.trigger.type === 'condition' && workflow.enabled !== false && !workflow.pausedAt;
+}
+
+export class ConditionTriggerEngine {
+  private readonly config: ConditionTriggerEngineConfig;
+  private priceFeed?: PriceFeed;
+  private watches = new Map<string, ConditionWatch>();
+  private timer?: NodeJS.Timeout;
+  private isRunning = false;
+  private isPolling = false;
+
+  constructor(priceFeed?: PriceFeed, config?: Partial<ConditionTriggerEngineConfig>) {
+    this.priceFeed = priceFeed;
+    this.config = {
+      pollIntervalMs: config?.pollIntervalMs ?? 15000,
+      priceFeedFixture: config?.priceFeedFixture,
+    };
+  }
+
+  setPriceFeed(priceFeed: PriceFeed): void {
+    this.priceFeed = priceFeed;
+  }
+
+  async start(): Promise<void> {
+    if (this.isRunning) {
+      return;
+    }
+    this.isRunning = true;
+
+    if (!this.priceFeed && this.config.priceFeedFixture) {
+      try {
+        this.priceFeed = StaticPriceFeed.fromFixture(this.config.priceFeedFixture);
+      } catch (error) {
+        logger.error('Failed to load price feed fixture', { path: this.config.priceFeedFixture, error });
+      }
+    }
+
+    const workflows = await workflowRepository.listWorkflows();
+    for (const workflow of workflows) {
+      await this.register(workflow);
+    }
+
+    this.timer = setInterval(() => {
+      void this.poll();
+    }, this.config.pollIntervalMs);
+    this.timer.unref();
+
+    logger.info('Condition trigger engine started', {
+      workflows: this.watches.size,
+      priceFeed: this.priceFeed?.name,
+      pollIntervalMs: this.config.pollIntervalMs,
+    });
+  }
+
+  stop(): void {
+    this.isRunning = false;
+    clearInterval(this.timer);
+    this.timer = undefined;
+    this.watches.clear();
+  }
+
+  findConfigurationError(workflow: Pick<StoredWorkflow, 'trigger'>): string | undefined {
+    if (
+      workflow.trigger.type === 'condition' &&
+      workflow.trigger.condition.type === 'price' &&
+      !this.priceFeed &&
+      !this.config.priceFeedFixture
+    ) {
+      return 'Price condition triggers require a configured price feed';
+    }
+    return undefined;
+  }
+
+  async register(workflow: StoredWorkflow): Promise<void> {
+    this.unregister(workflow.id);
+
+    if (!this.isRunning || !isConditionWorkflow(workflow)) {
+      return;
+    }
+
+    const { condition } = workflow.trigger;
+    if (condition.type === 'custom') {
+      logger.warn('Custom condition triggers cannot be polled', { workflowId: workflow.id });
+      return;
+    }
+    if (condition.type === 'price' && !this.priceFeed) {
+      logger.error('No price feed configured for price condition trigger', { workflowId: workflow.id });
+      return;
+    }
+
+    const state = (await workflowRepository.getTriggerState(workflow.id)) ?? {};
+    this.watches.set(workflow.id, {
+      workflowId: workflow.id,
+      condition: condition as ConditionWatch['condition'],
+      armed: state.armed ?? true,
+      lastValue: state.lastValue,
+      lastCheckedAt: state.lastCheckedAt,
+      lastFiredAt: state.lastFiredAt,
+    });
+  }
+
+  unregister(workflowId: string): void {
+    this.watches.delete(workflowId);
+  }
+
+  getWatch(workflowId: string): ConditionWatchInfo | undefined {
+    const watch = this.watches.get(workflowId);
+    if (!watch) {
+      return undefined;
+    }
+
+    return {
+      workflowId,
+      type: watch.condition.type,
+      operator: watch.condition.operator,
+      value: watch.condition.value,
+      armed: watch.armed,
+      lastValue: watch.lastValue,
+      lastCheckedAt: watch.lastCheckedAt,
+      lastFiredAt: watch.lastFiredAt,
+    };
+  }
+
+  private async poll(): Promise<void> {
+    if (this.isPolling) {
+      return;
+    }
+    this.isPolling = true;
+
+    try {
+      for (const watch of Array.from(this.watches.values())) {
+        try {
+          await this.evaluate(watch);
+        } catch (error) {
+          logger.error('Condition evaluation failed', { workflowId: watch.workflowId, error });
+        }
+      }
+    } finally {
+      this.isPolling = false;
+    }
+  }
+
+  private async readValue(condition: ConditionWatch['condition']): Promise<string> {
+    if (condition.type === 'price') {
+      if (!condition.asset) {
+        throw new Error('Price condition requires an asset');
+      }
+      if (!this.priceFeed) {
+        throw new Error('No price feed configured');
+      }
+      const quote = await this.priceFeed.getPrice(condition.asset);
+      return quote.price;
+    }
+
+    const client = getCeloClient();
+    if (!client) {
+      throw new Error('Celo client not initialized');
+    }
+
+    const address = (condition.address ?? client.getWalletClient()?.account?.address) as Address | undefined;
+    if (!address) {
+      throw new Error('Balance condition requires an address');
+    }
+
+    if (condition.tokenAddress) {
+      const tokenBalance = await getTokenBalance(client, address, condition.tokenAddress as Address);
+      return tokenBalance.balance;
+    }
+    return getBalance(client, address);
+  }
+
+  private async evaluate(watch: ConditionWatch): Promise<void> {
+    const value = await this.readValue(watch.condition);
+    const met = compareValues(value, watch.condition.operator, watch.condition.value);
+
+    if (this.watches.get(watch.workflowId) !== watch) {
+      return;
+    }
+
+    const changed = watch.lastValue !== value || watch.armed === met;
+    watch.lastValue = value;
+    watch.lastCheckedAt = new Date().toISOString();
+
+    if (!met || !watch.armed) {
+      if (!met && !watch.armed) {
+        logger.info('Condition reset, re-arming trigger', { workflowId: watch.workflowId, value });
+      }
+      watch.armed = watch.armed || !met;
+      if (changed) {
+        await this.persist(watch);
+      }
+      return;
+    }
+
+    const workflow = await workflowRepository.getWorkflow(watch.workflowId);
+    if (!workflow || !isConditionWorkflow(workflow)) {
+      this.unregister(watch.workflowId);
+      return;
+    }
+
+    const previousFiredAt = watch.lastFiredAt;
+    watch.armed = false;
+    watch.lastFiredAt = watch.lastCheckedAt;
+    await this.persist(watch);
+
+    try {
+      const execution = await startWorkflowExecution(workflow, {
+        type: 'condition',
+        data: {
+          condition: watch.condition,
+          value,
+        },
+      });
+      await this.persist(watch, { lastExecutionId: execution.id });
+    } catch (error) {
+      watch.armed = true;
+      watch.lastFiredAt = previousFiredAt;
+      await this.persist(watch);
+      throw error;
+    }
+  }
+
+  private async persist(watch: ConditionWatch, extra: Record<string, any> = {}): Promise<void> {
+    await workflowRepository.saveTriggerState(watch.workflowId, {
+      ...(await workflowRepository.getTriggerState(watch.workflowId)),
+      armed: watch.armed,
+      lastValue: watch.lastValue,
+      lastCheckedAt: watch.lastCheckedAt,
+      lastFiredAt: watch.lastFiredAt,
+      ...extra,
+    });
+  }
+}
+
+export const conditionTriggerEngine = new ConditionTriggerEngine(undefined, {
+  pollIntervalMs: process.env.CONDITION_TRIGGER_POLL_INTERVAL_MS
+    ? Number(process.env.CONDITION_TRIGGER_POLL_INTERVAL_MS)
+    : 15000,
+  priceFeedFixture: process.env.PRICE_FEED_FIXTURE,
+});
@@ -0,0 +1,113 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+vi.hoisted(() => {
+  process.env.WORKFLOW_STORE = 'memory';
+});
+
+vi.mock('./workflow-runner.js', () => ({
+  startWorkflowExecution: vi.fn(async (_workflow: unknown, trigger: Record<string, unknown>) => ({
+    id: `exec-${trigger.scheduledFor}`,
+    startedAt: new Date().toISOString(),
+  })),
+}));
+
+import { workflowRepository, type StoredWorkflow } from '../storage/index.js';
+import { startWorkflowExecution } from './workflow-runner.js';
+import { CronScheduler, type CatchUpPolicy } from './cron-scheduler.js';
+
+const workflow: StoredWorkflow = {
+  id: 'wf-cron',
+  name: 'Hourly sweep',
+  enabled: true,
+  trigger: { type: 'cron', cron: '0 * * * *' },
+  actions: [],
+};
+
+async function startAfterDowntime(catchUpPolicy: CatchUpPolicy, maxCatchUpRuns = 10): Promise<CronScheduler> {
+  await workflowRepository.saveWorkflow(workflow);
+  await workflowRepository.saveTriggerState(workflow.id, { lastScheduledAt: '2024-01-01T08:30:00.000Z' });
+
+  const scheduler = new CronScheduler({ catchUpPolicy, maxCatchUpRuns });
+  await scheduler.start();
+  return scheduler;
+}
+
+function scheduledRuns(): Array<[unknown, unknown]> {
+  return vi.mocked(startWorkflowExecution).mock.calls.map(([, trigger]) => [trigger.scheduledFor, trigger.catchUp]);
+}
+
+describe('CronScheduler catch-up', () => {
+  let scheduler: CronScheduler | undefined;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2024-01-01T12:30:00.000Z'));
+    vi.mocked(startWorkflowExecution).mockClear();
+  });
+
+  afterEach(() => {
+    scheduler?.stop();
+    vi.useRealTimers();
+  });
+
+  it('should not run missed schedules with the skip policy', async () => {
+    scheduler = await startAfterDowntime('skip');
+
+    expect(startWorkflowExecution).not.toHaveBeenCalled();
+    expect((await workflowRepository.getTriggerState(workflow.id))?.lastScheduledAt).toBe('2024-01-01T12:30:00.000Z');
+    expect(scheduler.getSchedule(workflow.id)?.nextRunAt).toBe('2024-01-01T13:00:00.000Z');
+  });
+
+  it('should run only the latest missed schedule with the run-once policy', async () => {
+    scheduler = await startAfterDowntime('run-once');
+
+    expect(scheduledRuns()).toEqual([['2024-01-01T12:00:00.000Z', true]]);
+  });
+
+  it('should run the latest missed schedule when more were missed than the catch-up limit', async () => {
+    scheduler = await startAfterDowntime('run-once', 2);
+
+    expect(scheduledRuns()).toEqual([['2024-01-01T12:00:00.000Z', true]]);
+  });
+
+  it('should run every missed schedule in order with the run-all policy', async () => {
+    scheduler = await startAfterDowntime('run-all');
+
+    expect(scheduledRuns()).toEqual([
+      ['2024-01-01T09:00:00.000Z', true],
+      ['2024-01-01T10:00:00.000Z', true],
+      ['2024-01-01T11:00:00.000Z', true],
+      ['2024-01-01T12:00:00.000Z', true],
+    ]);
+  });
+
+  it('should cap run-all at the configured number of catch-up runs', async () => {
+    scheduler = await startAfterDowntime('run-all', 2);
+
+    expect(scheduledRuns()).toEqual([
+      ['2024-01-01T09:00:00.000Z', true],
+      ['2024-01-01T10:00:00.000Z', true],
+    ]);
+  });
+
+  it('should log and skip schedules that never fire instead of throwing', async () => {
+    const never = { ...workflow, id: 'wf-cron-never', trigger: { type: 'cron' as const, cron: '0 0 30 2 *' } };
+    await workflowRepository.saveWorkflow(never);
+    scheduler = await startAfterDowntime('skip');
+
+    await expect(scheduler.register(never)).resolves.toBeUndefined();
+    expect(scheduler.getSchedule(never.id)).toBeUndefined();
+    await workflowRepository.deleteWorkflow(never.id);
+  });
+
+  it('should not catch up a schedule that has never been registered', async () => {
+    await workflowRepository.saveWorkflow({ ...workflow, id: 'wf-cron-new' });
+    await workflowRepository.deleteWorkflow(workflow.id);
+
+    scheduler = new CronScheduler({ catchUpPolicy: 'run-all' });
+    await scheduler.start();
+
+    expect(startWorkflowExecution).not.toHaveBeenCalled();
+    expect((await workflowRepository.getTriggerState('wf-cron-new'))?.lastScheduledAt).toBe('2024-01-01T12:30:00.000Z');
+  });
+});
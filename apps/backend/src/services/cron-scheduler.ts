@@ -0,0 +1,253 @@
+import {
+  getCronRunsBetween,
+  getNextCronRun,
+  getPreviousCronRun,
+  parseCron,
+  type CronSchedule,
+} from '@celo-automator/core';
+import { workflowRepository, type StoredWorkflow } from '../storage/index.js';
+import { startWorkflowExecution } from './workflow-runner.js';
+import { logger } from '../utils/logger.js';
+
+export type CatchUpPolicy = 'skip' | 'run-once' | 'run-all';
+
+export interface CronSchedulerConfig {
+  catchUpPolicy: CatchUpPolicy;
+  maxCatchUpRuns: number;
+}
+
+export interface CronScheduleInfo {
+  workflowId: string;
+  cron: string;
+  nextRunAt: string;
+  lastRunAt?: string;
+}
+
+interface ScheduledWorkflow {
+  workflowId: string;
+  schedule: CronSchedule;
+  nextRunAt: Date;
+  lastRunAt?: string;
+  timer?: NodeJS.Timeout;
+}
+
+const MAX_TIMER_DELAY_MS = 60 * 60 * 1000;
+
+function isCronWorkflow(workflow: StoredWorkflow): workflow is StoredWorkflow & {
+  trigger: { type: 'cron'; cron: string };
+} {
+  return workflow.trigger.type === 'cron' && workflow.enabled !== false && !workflow.pausedAt;
+}
+
+export class CronScheduler {
+  private readonly config: CronSchedulerConfig;
+  private scheduled = new Map<string, ScheduledWorkflow>();
+  private isRunning = false;
+
+  constructor(config?: Partial<CronSchedulerConfig>) {
+    this.config = {
+      catchUpPolicy: config?.catchUpPolicy ?? 'run-once',
+      maxCatchUpRuns: config?.maxCatchUpRuns ?? 10,
+    };
+  }
+
+  async start(): Promise<void> {
+    if (this.isRunning) {
+      return;
+    }
+    this.isRunning = true;
+
+    const workflows = await workflowRepository.listWorkflows();
+    for (const workflow of workflows) {
+      if (isCronWorkflow(workflow)) {
+        await this.catchUp(workflow);
+        await this.register(workflow);
+      }
+    }
+
+    logger.info('Cron scheduler started', {
+      workflows: this.scheduled.size,
+      catchUpPolicy: this.config.catchUpPolicy,
+    });
+  }
+
+  stop(): void {
+    this.isRunning = false;
+    for (const entry of this.scheduled.values()) {
+      clearTimeout(entry.timer);
+    }
+    this.scheduled.clear();
+  }
+
+  async register(workflow: StoredWorkflow): Promise<void> {
+    this.unregister(workflow.id);
+
+    if (!this.isRunning || !isCronWorkflow(workflow)) {
+      return;
+    }
+
+    let schedule: CronSchedule;
+    let nextRunAt: Date;
+    try {
+      schedule = parseCron(workflow.trigger.cron);
+      nextRunAt = getNextCronRun(schedule, new Date());
+    } catch (error) {
+      logger.error('Invalid cron expression', { workflowId: workflow.id, error });
+      return;
+    }
+
+    const state = (await workflowRepository.getTriggerState(workflow.id)) ?? {};
+    if (!state.lastScheduledAt) {
+      await workflowRepository.saveTriggerState(workflow.id, {
+        ...state,
+        lastScheduledAt: new Date().toISOString(),
+      });
+    }
+
+    const entry: ScheduledWorkflow = {
+      workflowId: workflow.id,
+      schedule,
+      nextRunAt,
+      lastRunAt: state.lastRunAt,
+    };
+    this.scheduled.set(workflow.id, entry);
+    this.arm(entry);
+  }
+
+  unregister(workflowId: string): void {
+    const entry = this.scheduled.get(workflowId);
+    if (entry) {
+      clearTimeout(entry.timer);
+      this.scheduled.delete(workflowId);
+    }
+  }
+
+  getSchedule(workflowId: string): CronScheduleInfo | undefined {
+    const entry = this.scheduled.get(workflowId);
+    if (!entry) {
+      return undefined;
+    }
+
+    return {
+      workflowId,
+      cron: entry.schedule.expression,
+      nextRunAt: entry.nextRunAt.toISOString(),
+      lastRunAt: entry.lastRunAt,
+    };
+  }
+
+  private arm(entry: ScheduledWorkflow): void {
+    const delay = Math.min(Math.max(entry.nextRunAt.getTime() - Date.now(), 0), MAX_TIMER_DELAY_MS);
+    entry.timer = setTimeout(() => {
+      void this.onTimer(entry);
+    }, delay);
+    entry.timer.unref();
+  }
+
+  private async onTimer(entry: ScheduledWorkflow): Promise<void> {
+    if (this.scheduled.get(entry.workflowId) !== entry) {
+      return;
+    }
+
+    if (Date.now() < entry.nextRunAt.getTime()) {
+      this.arm(entry);
+      return;
+    }
+
+    const scheduledFor = entry.nextRunAt;
+    entry.nextRunAt = getNextCronRun(entry.schedule, scheduledFor);
+    this.arm(entry);
+
+    try {
+      const workflow = await workflowRepository.getWorkflow(entry.workflowId);
+      if (!workflow || !isCronWorkflow(workflow)) {
+        this.unregister(entry.workflowId);
+        return;
+      }
+
+      entry.lastRunAt = await this.fire(workflow, scheduledFor, false);
+    } catch (error) {
+      logger.error('Scheduled workflow run failed', { workflowId: entry.workflowId, error });
+    }
+  }
+
+  private async catchUp(workflow: StoredWorkflow & { trigger: { cron: string } }): Promise<void> {
+    const state = await workflowRepository.getTriggerState(workflow.id);
+    if (!state?.lastScheduledAt) {
+      return;
+    }
+
+    const now = new Date();
+    let missed: Date[];
+    let latest: Date | undefined;
+    try {
+      missed = getCronRunsBetween(
+        workflow.trigger.cron,
+        new Date(state.lastScheduledAt),
+        now,
+        this.config.maxCatchUpRuns + 1
+      );
+      latest = missed.length > 0 ? getPreviousCronRun(workflow.trigger.cron, new Date(now.getTime() + 1)) : undefined;
+    } catch (error) {
+      logger.error('Invalid cron expression', { workflowId: workflow.id, error });
+      return;
+    }
+
+    if (!latest) {
+      return;
+    }
+
+    const toRun =
+      this.config.catchUpPolicy === 'skip'
+        ? []
+        : this.config.catchUpPolicy === 'run-once'
+        ? [latest]
+        : missed.slice(0, this.config.maxCatchUpRuns);
+
+    logger.info('Catching up missed cron runs', {
+      workflowId: workflow.id,
+      missed: missed.length,
+      running: toRun.length,
+      policy: this.config.catchUpPolicy,
+    });
+
+    for (const scheduledFor of toRun) {
+      try {
+        await this.fire(workflow, scheduledFor, true);
+      } catch (error) {
+        logger.error('Catch-up run failed', { workflowId: workflow.id, error });
+      }
+    }
+
+    await workflowRepository.saveTriggerState(workflow.id, {
+      ...(await workflowRepository.getTriggerState(workflow.id)),
+      lastScheduledAt: new Date().toISOString(),
+    });
+  }
+
+  private async fire(workflow: StoredWorkflow, scheduledFor: Date, catchUp: boolean): Promise<string> {
+    const state = {
+      ...(await workflowRepository.getTriggerState(workflow.id)),
+      lastScheduledAt: scheduledFor.toISOString(),
+    };
+    await workflowRepository.saveTriggerState(workflow.id, state);
+
+    const execution = await startWorkflowExecution(workflow, {
+      type: 'cron',
+      scheduledFor: scheduledFor.toISOString(),
+      catchUp,
+    });
+
+    await workflowRepository.saveTriggerState(workflow.id, {
+      ...state,
+      lastRunAt: execution.startedAt,
+      lastExecutionId: execution.id,
+    });
+    return execution.startedAt;
+  }
+}
+
+export const cronScheduler = new CronScheduler({
+  catchUpPolicy: (process.env.CRON_CATCHUP_POLICY as CatchUpPolicy | undefined) ?? 'run-once',
+  maxCatchUpRuns: process.env.CRON_CATCHUP_MAX_RUNS ? Number(process.env.CRON_CATCHUP_MAX_RUNS) : 10,
+});
@@ -0,0 +1,152 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { ContractEventLog } from '@celo-automator/types';
+
+vi.hoisted(() => {
+  process.env.WORKFLOW_STORE = 'memory';
+});
+
+vi.mock('@celo-automator/celo-functions', () => ({
+  getBlockNumber: vi.fn(),
+  getContractEvents: vi.fn(),
+}));
+
+vi.mock('./workflow-runner.js', () => ({
+  getCeloClient: vi.fn(() => ({})),
+  startWorkflowExecution: vi.fn(),
+}));
+
+import { getBlockNumber, getContractEvents } from '@celo-automator/celo-functions';
+import { workflowRepository, type StoredWorkflow } from '../storage/index.js';
+import { startWorkflowExecution } from './workflow-runner.js';
+import { EventTriggerDispatcher } from './event-trigger-dispatcher.js';
+
+const POLL_INTERVAL_MS = 1000;
+
+const workflow: StoredWorkflow = {
+  id: 'wf-events',
+  name: 'On transfer',
+  enabled: true,
+  trigger: {
+    type: 'event',
+    event: { contractAddress: '0x1234567890123456789012345678901234567890', eventName: 'Transfer' },
+  },
+  actions: [],
+};
+
+function createEvent(blockNumber: bigint, logIndex: number): ContractEventLog {
+  return {
+    address: '0x1234567890123456789012345678901234567890',
+    eventName: 'Transfer',
+    args: {},
+    blockNumber,
+    transactionHash: `0x${blockNumber.toString(16).padStart(32, '0')}${logIndex.toString(16).padStart(32, '0')}`,
+    logIndex,
+  };
+}
+
+function dispatchedEvents(): string[] {
+  return vi.mocked(startWorkflowExecution).mock.calls.map(
+    ([, trigger]) => `${trigger.data?.blockNumber}:${trigger.data?.logIndex}`
+  );
+}
+
+describe('EventTriggerDispatcher', () => {
+  let dispatcher: EventTriggerDispatcher | undefined;
+
+  beforeEach(async () => {
+    vi.useFakeTimers();
+    vi.mocked(getBlockNumber).mockResolvedValue(12n);
+    vi.mocked(getContractEvents).mockClear();
+    vi.mocked(getContractEvents).mockResolvedValue([createEvent(11n, 0), createEvent(11n, 1), createEvent(12n, 0)]);
+    vi.mocked(startWorkflowExecution).mockReset();
+    vi.mocked(startWorkflowExecution).mockImplementation(async () => ({
+      id: 'exec',
+      startedAt: new Date().toISOString(),
+    }) as any);
+
+    await workflowRepository.saveWorkflow(workflow);
+    await workflowRepository.saveTriggerState(workflow.id, { lastBlock: '10' });
+  });
+
+  afterEach(() => {
+    dispatcher?.stop();
+    vi.useRealTimers();
+  });
+
+  async function startAndPoll(): Promise<EventTriggerDispatcher> {
+    const started = new EventTriggerDispatcher({ pollIntervalMs: POLL_INTERVAL_MS });
+    await started.start();
+    await vi.advanceTimersByTimeAsync(POLL_INTERVAL_MS);
+    return started;
+  }
+
+  it('should dispatch each event once and persist the cursor after each one', async () => {
+    dispatcher = await startAndPoll();
+    await vi.advanceTimersByTimeAsync(POLL_INTERVAL_MS);
+
+    expect(dispatchedEvents()).toEqual(['11:0', '11:1', '12:0']);
+    expect(await workflowRepository.getTriggerState(workflow.id)).toMatchObject({
+      lastBlock: '12',
+      cursor: { blockNumber: '12', logIndex: 0 },
+    });
+  });
+
+  it('should not advance past a failed dispatch and retry it on the next poll', async () => {
+    vi.mocked(startWorkflowExecution).mockImplementation(async (_workflow, trigger) => {
+      if (trigger.data?.logIndex === 1) {
+        throw new Error('orchestrator unavailable');
+      }
+      return { id: 'exec', startedAt: new Date().toISOString() } as any;
+    });
+
+    dispatcher = await startAndPoll();
+
+    expect(dispatchedEvents()).toEqual(['11:0', '11:1']);
+    expect(dispatcher.getSubscription(workflow.id)).toMatchObject({
+      lastBlock: '10',
+      cursor: { blockNumber: '11', logIndex: 0 },
+    });
+
+    vi.mocked(startWorkflowExecution).mockImplementation(async () => ({
+      id: 'exec',
+      startedAt: new Date().toISOString(),
+    }) as any);
+    await vi.advanceTimersByTimeAsync(POLL_INTERVAL_MS);
+
+    expect(dispatchedEvents()).toEqual(['11:0', '11:1', '11:1', '12:0']);
+    expect(dispatcher.getSubscription(workflow.id)?.lastBlock).toBe('12');
+  });
+
+  it('should register despite an RPC failure and start from the head on the next poll', async () => {
+    await workflowRepository.saveTriggerState(workflow.id, {});
+    vi.mocked(getBlockNumber).mockRejectedValueOnce(new Error('rpc unavailable'));
+
+    dispatcher = new EventTriggerDispatcher({ pollIntervalMs: POLL_INTERVAL_MS });
+    await dispatcher.start();
+    expect(dispatcher.getSubscription(workflow.id)?.lastBlock).toBeUndefined();
+
+    await vi.advanceTimersByTimeAsync(POLL_INTERVAL_MS);
+    expect(dispatcher.getSubscription(workflow.id)?.lastBlock).toBe('12');
+    expect((await workflowRepository.getTriggerState(workflow.id))?.lastBlock).toBe('12');
+    expect(getContractEvents).not.toHaveBeenCalled();
+
+    vi.mocked(getBlockNumber).mockResolvedValue(13n);
+    await vi.advanceTimersByTimeAsync(POLL_INTERVAL_MS);
+    expect(getContractEvents).toHaveBeenLastCalledWith(
+      expect.anything(),
+      expect.objectContaining({ fromBlock: 13n, toBlock: 13n })
+    );
+  });
+
+  it('should resume from the persisted cursor after a restart without re-firing events', async () => {
+    await workflowRepository.saveTriggerState(workflow.id, {
+      lastBlock: '10',
+      cursor: { blockNumber: '11', logIndex: 1 },
+    });
+
+    dispatcher = await startAndPoll();
+
+    expect(dispatchedEvents()).toEqual(['12:0']);
+    expect(getContractEvents).toHaveBeenLastCalledWith(expect.anything(), expect.objectContaining({ fromBlock: 11n }));
+  });
+});
@@ -0,0 +1,318 @@
+import { getBlockNumber, getContractEvents, type ContractEventLog } from '@celo-automator/celo-functions';
+import { isValidAddress } from '@celo-automator/core';
+import type { Address } from 'viem';
+import { workflowRepository, type StoredWorkflow } from '../storage/index.js';
+import { getCeloClient, startWorkflowExecution } from './workflow-runner.js';
+import { logger } from '../utils/logger.js';
+
+export interface EventTriggerDispatcherConfig {
+  pollIntervalMs: number;
+  maxBlockRange: number;
+}
+
+export interface EventSubscriptionInfo {
+  workflowId: string;
+  contractAddress: string;
+  eventName: string;
+  filter?: Record<string, any>;
+  lastBlock?: string;
+  cursor?: { blockNumber: string; logIndex: number };
+}
+
+interface EventCursor {
+  blockNumber: bigint;
+  logIndex: number;
+}
+
+interface EventSubscription {
+  workflowId: string;
+  contractAddress: Address;
+  eventName: string;
+  abi?: any[];
+  filter?: Record<string, any>;
+  lastBlock?: bigint;
+  cursor?: EventCursor;
+}
+
+type EventWorkflow = StoredWorkflow & {
+  trigger: {
+    type: 'event';
+    event: { contractAddress: string; eventName: string; abi?: any[]; filter?: Record<string, any> };
+  };
+};
+
+function isEventWorkflow(workflow: StoredWorkflow): workflow is EventWorkflow {
+  return workflow.trigger.type === 'event' && workflow.enabled !== false && !workflow.pausedAt;
+}
+
+function normalizeFilterValue(value: unknown): string | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  return String(value).toLowerCase();
+}
+
+export function matchesEventFilter(args: Record<string, any>, filter?: Record<string, any>): boolean {
+  if (!filter) {
+    return true;
+  }
+
+  return Object.entries(filter).every(([key, expected]) => {
+    const actual = normalizeFilterValue(args[key]);
+    const candidates = Array.isArray(expected) ? expected : [expected];
+    return candidates.some((candidate) => normalizeFilterValue(candidate) === actual);
+  });
+}
+
+function isAfterCursor(event: ContractEventLog, cursor?: EventCursor): boolean {
+  if (!cursor) {
+    return true;
+  }
+  return (
+    event.blockNumber > cursor.blockNumber ||
+    (event.blockNumber === cursor.blockNumber && event.logIndex > cursor.logIndex)
+  );
+}
+
+function toJsonSafe(value: any): any {
+  if (typeof value === 'bigint') {
+    return value.toString();
+  }
+  if (Array.isArray(value)) {
+    return value.map(toJsonSafe);
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, toJsonSafe(item)]));
+  }
+  return value;
+}
+
+export class EventTriggerDispatcher {
+  private readonly config: EventTriggerDispatcherConfig;
+  private subscriptions = new Map<string, EventSubscription>();
+  private timer?: NodeJS.Timeout;
+  private isRunning = false;
+  private isPolling = false;
+
+  constructor(config?: Partial<EventTriggerDispatcherConfig>) {
+    this.config = {
+      pollIntervalMs: config?.pollIntervalMs ?? 5000,
+      maxBlockRange: config?.maxBlockRange ?? 500,
+    };
+  }
+
+  async start(): Promise<void> {
+    if (this.isRunning) {
+      return;
+    }
+    this.isRunning = true;
+
+    const workflows = await workflowRepository.listWorkflows();
+    for (const workflow of workflows) {
+      await this.register(workflow);
+    }
+
+    this.timer = setInterval(() => {
+      void this.poll();
+    }, this.config.pollIntervalMs);
+    this.timer.unref();
+
+    logger.info('Event trigger dispatcher started', {
+      workflows: this.subscriptions.size,
+      pollIntervalMs: this.config.pollIntervalMs,
+    });
+  }
+
+  stop(): void {
+    this.isRunning = false;
+    clearInterval(this.timer);
+    this.timer = undefined;
+    this.subscriptions.clear();
+  }
+
+  async register(workflow: StoredWorkflow): Promise<void> {
+    this.unregister(workflow.id);
+
+    const client = getCeloClient();
+    if (!this.isRunning || !client || !isEventWorkflow(workflow)) {
+      return;
+    }
+
+    const { contractAddress, eventName, abi, filter } = workflow.trigger.event;
+    if (!isValidAddress(contractAddress)) {
+      logger.error('Invalid event trigger contract address', { workflowId: workflow.id, contractAddress });
+      return;
+    }
+
+    const state = (await workflowRepository.getTriggerState(workflow.id)) ?? {};
+    let lastBlock: bigint | undefined;
+    if (state.lastBlock !== undefined) {
+      lastBlock = BigInt(state.lastBlock);
+    } else {
+      try {
+        lastBlock = await getBlockNumber(client);
+        await this.saveLastBlock(workflow.id, lastBlock);
+      } catch (error) {
+        logger.error('Failed to read the start block for an event trigger; retrying on the next poll', {
+          workflowId: workflow.id,
+          error,
+        });
+      }
+    }
+
+    this.subscriptions.set(workflow.id, {
+      workflowId: workflow.id,
+      contractAddress: contractAddress as Address,
+      eventName,
+      abi,
+      filter,
+      lastBlock,
+      cursor: state.cursor
+        ? { blockNumber: BigInt(state.cursor.blockNumber), logIndex: state.cursor.logIndex }
+        : undefined,
+    });
+  }
+
+  unregister(workflowId: string): void {
+    this.subscriptions.delete(workflowId);
+  }
+
+  getSubscription(workflowId: string): EventSubscriptionInfo | undefined {
+    const subscription = this.subscriptions.get(workflowId);
+    if (!subscription) {
+      return undefined;
+    }
+
+    return {
+      workflowId,
+      contractAddress: subscription.contractAddress,
+      eventName: subscription.eventName,
+      filter: subscription.filter,
+      lastBlock: subscription.lastBlock?.toString(),
+      cursor: subscription.cursor
+        ? { blockNumber: subscription.cursor.blockNumber.toString(), logIndex: subscription.cursor.logIndex }
+        : undefined,
+    };
+  }
+
+  private async poll(): Promise<void> {
+    const client = getCeloClient();
+    if (this.isPolling || !client) {
+      return;
+    }
+    this.isPolling = true;
+
+    try {
+      const head = await getBlockNumber(client);
+
+      for (const subscription of Array.from(this.subscriptions.values())) {
+        if (subscription.lastBlock === undefined) {
+          subscription.lastBlock = head;
+          await this.saveLastBlock(subscription.workflowId, head);
+          continue;
+        }
+
+        while (subscription.lastBlock < head && this.subscriptions.get(subscription.workflowId) === subscription) {
+          const fromBlock = subscription.lastBlock + 1n;
+          const rangeEnd = fromBlock + BigInt(this.config.maxBlockRange) - 1n;
+          const toBlock: bigint = rangeEnd < head ? rangeEnd : head;
+
+          let events: ContractEventLog[];
+          try {
+            events = await getContractEvents(client, {
+              address: subscription.contractAddress,
+              event: subscription.eventName,
+              abi: subscription.abi,
+              fromBlock,
+              toBlock,
+            });
+          } catch (error) {
+            logger.error('Failed to fetch contract events', {
+              workflowId: subscription.workflowId,
+              fromBlock: fromBlock.toString(),
+              toBlock: toBlock.toString(),
+              error,
+            });
+            break;
+          }
+
+          if (!(await this.dispatch(subscription, events))) {
+            break;
+          }
+
+          subscription.lastBlock = toBlock;
+          await this.saveLastBlock(subscription.workflowId, toBlock);
+        }
+      }
+    } catch (error) {
+      logger.error('Event trigger poll failed', { error });
+    } finally {
+      this.isPolling = false;
+    }
+  }
+
+  private async saveLastBlock(workflowId: string, lastBlock: bigint): Promise<void> {
+    await workflowRepository.saveTriggerState(workflowId, {
+      ...(await workflowRepository.getTriggerState(workflowId)),
+      lastBlock: lastBlock.toString(),
+    });
+  }
+
+  private async dispatch(subscription: EventSubscription, events: ContractEventLog[]): Promise<boolean> {
+    const matching = events
+      .filter((event) => isAfterCursor(event, subscription.cursor) && matchesEventFilter(event.args, subscription.filter))
+      .sort((a, b) => (a.blockNumber === b.blockNumber ? a.logIndex - b.logIndex : a.blockNumber < b.blockNumber ? -1 : 1));
+    if (matching.length === 0) {
+      return true;
+    }
+
+    const workflow = await workflowRepository.getWorkflow(subscription.workflowId);
+    if (!workflow || !isEventWorkflow(workflow)) {
+      this.unregister(subscription.workflowId);
+      return false;
+    }
+
+    for (const event of matching) {
+      const eventId = `${event.transactionHash}:${event.logIndex}`;
+      try {
+        const execution = await startWorkflowExecution(workflow, {
+          type: 'event',
+          data: toJsonSafe({
+            contractAddress: event.address,
+            eventName: event.eventName,
+            args: event.args,
+            blockNumber: event.blockNumber,
+            transactionHash: event.transactionHash,
+            logIndex: event.logIndex,
+          }),
+        });
+
+        subscription.cursor = { blockNumber: event.blockNumber, logIndex: event.logIndex };
+        await workflowRepository.saveTriggerState(subscription.workflowId, {
+          ...(await workflowRepository.getTriggerState(subscription.workflowId)),
+          cursor: { blockNumber: event.blockNumber.toString(), logIndex: event.logIndex },
+          lastRunAt: execution.startedAt,
+          lastExecutionId: execution.id,
+        });
+      } catch (error) {
+        logger.error('Event-triggered workflow run failed', {
+          workflowId: subscription.workflowId,
+          eventId,
+          error,
+        });
+        return false;
+      }
+    }
+
+    return true;
+  }
+}
+
+export const eventTriggerDispatcher = new EventTriggerDispatcher({
+  pollIntervalMs: process.env.EVENT_TRIGGER_POLL_INTERVAL_MS
+    ? Number(process.env.EVENT_TRIGGER_POLL_INTERVAL_MS)
+    : 5000,
+  maxBlockRange: process.env.EVENT_TRIGGER_MAX_BLOCK_RANGE
+    ? Number(process.env.EVENT_TRIGGER_MAX_BLOCK_RANGE)
+    : 500,
+});
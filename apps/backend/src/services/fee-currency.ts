@@ -0,0 +1,41 @@
+import { selectFeeCurrency, type CeloClient } from '@celo-automator/celo-functions';
+import { resolveFeeCurrency, type TokenNetwork } from '@celo-automator/core';
+import type { FeeCurrencySelector } from '@celo-automator/langchain-agent';
+import type { FeeCurrencyPolicy } from '@celo-automator/types';
+import type { Address } from 'viem';
+
+export class FeePolicyStore {
+  private policies = new Map<string, FeeCurrencyPolicy>();
+
+  get(agentId: string): FeeCurrencyPolicy | undefined {
+    return this.policies.get(agentId);
+  }
+
+  set(agentId: string, policy?: FeeCurrencyPolicy): void {
+    if (policy) {
+      this.policies.set(agentId, policy);
+    } else {
+      this.policies.delete(agentId);
+    }
+  }
+}
+
+export const feePolicyStore = new FeePolicyStore();
+
+export async function selectPolicyFeeCurrency(
+  client: CeloClient,
+  policy: FeeCurrencyPolicy,
+  network: TokenNetwork
+): Promise<Address | undefined> {
+  const preferred = policy.preferred
+    .map((currency) => resolveFeeCurrency(currency, network))
+    .filter((currency): currency is Address => currency !== undefined);
+  return selectFeeCurrency(client, { preferred, minCeloBalance: BigInt(policy.minCeloBalance) });
+}
+
+export function createFeeCurrencySelector(client: CeloClient, network: TokenNetwork): FeeCurrencySelector {
+  return async (workflow) => {
+    const policy = workflow.feePolicy ?? (workflow.agentId ? feePolicyStore.get(workflow.agentId) : undefined);
+    return policy ? selectPolicyFeeCurrency(client, policy, network) : undefined;
+  };
+}
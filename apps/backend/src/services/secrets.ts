@@ -0,0 +1,9 @@
+const SECRET_ENV_PREFIX = 'WORKFLOW_SECRET_';
+
+export function getWorkflowSecrets(): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(process.env)
+      .filter(([key, value]) => key.startsWith(SECRET_ENV_PREFIX) && value !== undefined)
+      .map(([key, value]) => [key.slice(SECRET_ENV_PREFIX.length), value as string])
+  );
+}
@@ -0,0 +1,23 @@
+export interface SpendingLimit {
+  agentId: string;
+  dailyLimit: string;
+  perTxLimit: string;
+  currency?: string;
+  effectiveFrom: string;
+  updatedAt: string;
+  metadata?: Record<string, unknown>;
+}
+
+export class SpendingLimitStore {
+  private limits = new Map<string, SpendingLimit>();
+
+  get(agentId: string): SpendingLimit | undefined {
+    return this.limits.get(agentId);
+  }
+
+  set(limit: SpendingLimit): void {
+    this.limits.set(limit.agentId, limit);
+  }
+}
+
+export const spendingLimitStore = new SpendingLimitStore();
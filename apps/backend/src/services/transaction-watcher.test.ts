@@ -0,0 +1,157 @@
+import { beforeEach, describe, it, expect, vi } from 'vitest';
+
+vi.hoisted(() => {
+  process.env.WORKFLOW_STORE = 'memory';
+});
+
+vi.mock('@celo-automator/celo-functions', () => ({
+  DEFAULT_REPLACEMENT_BUMP_PERCENT: 10,
+  getBlockNumber: vi.fn(async () => 100n),
+  getTransactionLifecycle: vi.fn(),
+  nonceManager: { releaseNonce: vi.fn() },
+  replaceTransaction: vi.fn(),
+}));
+
+import {
+  getBlockNumber,
+  getTransactionLifecycle,
+  nonceManager,
+  replaceTransaction,
+  type CeloClient,
+} from '@celo-automator/celo-functions';
+import type { BroadcastTransaction, TransactionLifecycleState } from '@celo-automator/types';
+import type { Address, Hash } from 'viem';
+import { workflowRepository } from '../storage/index.js';
+import { getReplacementChain, TransactionWatcher, trackTransaction } from './transaction-watcher.js';
+
+const client = {} as CeloClient;
+const FROM = '0x00000000000000000000000000000000000000aa' as Address;
+const TO = '0x00000000000000000000000000000000000000bb' as Address;
+
+function broadcast(hash: string, nonce: number, overrides: Partial<BroadcastTransaction> = {}): BroadcastTransaction {
+  return {
+    hash: hash as Hash,
+    from: FROM,
+    to: TO,
+    value: 1n,
+    nonce,
+    chainId: 44787,
+    gasLimit: 21000n,
+    maxFeePerGas: 100n,
+    maxPriorityFeePerGas: 10n,
+    ...overrides,
+  };
+}
+
+const lifecycles = new Map<string, TransactionLifecycleState>();
+
+describe('TransactionWatcher', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    lifecycles.clear();
+    vi.mocked(getTransactionLifecycle).mockImplementation(
+      async (_client, { hash }) => lifecycles.get(hash) ?? { status: 'pending', inMempool: true }
+    );
+  });
+
+  async function poll(watcher = new TransactionWatcher()): Promise<void> {
+    watcher.start(client);
+    await watcher.poll();
+    watcher.stop();
+  }
+
+  it('should record confirmed and failed receipts', async () => {
+    const confirmed = await trackTransaction(broadcast('0xconfirmed', 10), {});
+    const failed = await trackTransaction(broadcast('0xfailed', 11), {});
+    lifecycles.set(confirmed.hash, { status: 'confirmed', blockNumber: 120n, gasUsed: 21000n, effectiveGasPrice: 5n });
+    lifecycles.set(failed.hash, { status: 'failed', blockNumber: 121n, gasUsed: 30000n });
+
+    await poll();
+
+    expect(await workflowRepository.getTransaction(confirmed.hash)).toMatchObject({
+      status: 'confirmed',
+      blockNumber: '120',
+      gasUsed: '21000',
+      effectiveGasPrice: '5',
+    });
+    expect(await workflowRepository.getTransaction(failed.hash)).toMatchObject({ status: 'failed', blockNumber: '121' });
+    expect((await workflowRepository.getTransaction(confirmed.hash))?.history.map((entry) => entry.status)).toEqual([
+      'pending',
+      'confirmed',
+    ]);
+  });
+
+  it('should drop transactions whose nonce was used elsewhere and release the nonce', async () => {
+    const dropped = await trackTransaction(broadcast('0xdropped', 20), {});
+    lifecycles.set(dropped.hash, { status: 'dropped' });
+
+    await poll();
+
+    expect(await workflowRepository.getTransaction(dropped.hash)).toMatchObject({ status: 'dropped' });
+    expect(nonceManager.releaseNonce).toHaveBeenCalledWith(44787, FROM, 20);
+  });
+
+  it('should drop transactions the node no longer has after the drop timeout', async () => {
+    const lost = await trackTransaction(broadcast('0xlost', 21), {});
+    lifecycles.set(lost.hash, { status: 'pending', inMempool: false });
+
+    await poll(new TransactionWatcher({ dropAfterMs: 0 }));
+
+    expect(await workflowRepository.getTransaction(lost.hash)).toMatchObject({ status: 'dropped' });
+    expect(nonceManager.releaseNonce).toHaveBeenCalledWith(44787, FROM, 21);
+  });
+
+  it('should check transactions sharing a nonce together and mark the losers replaced', async () => {
+    const original = await trackTransaction(broadcast('0xgroup', 30), {});
+    const speedup = await trackTransaction(broadcast('0xgroup-speedup', 30), {
+      replaces: original.hash,
+      replacement: 'speedup',
+    });
+    await workflowRepository.saveTransaction({ ...original, replacedBy: speedup.hash });
+    lifecycles.set(speedup.hash, { status: 'confirmed', blockNumber: 130n });
+
+    await poll();
+
+    expect(await workflowRepository.getTransaction(speedup.hash)).toMatchObject({ status: 'confirmed' });
+    const replaced = await workflowRepository.getTransaction(original.hash);
+    expect(replaced).toMatchObject({ status: 'replaced', replacedBy: speedup.hash });
+    expect(replaced?.history.at(-1)?.detail).toBe(`Replaced by ${speedup.hash}`);
+    expect((await getReplacementChain(speedup)).map((member) => member.hash)).toEqual([original.hash, speedup.hash]);
+  });
+
+  it('should speed up transactions stuck for the configured number of blocks up to the limit', async () => {
+    const stuck = await trackTransaction(broadcast('0xstuck', 40), { submittedBlock: '90' });
+    vi.mocked(getBlockNumber).mockResolvedValue(100n);
+    vi.mocked(replaceTransaction).mockImplementation(async (_client, request) =>
+      broadcast(`0xstuck-speedup-${vi.mocked(replaceTransaction).mock.calls.length}`, request.nonce!)
+    );
+    const watcher = new TransactionWatcher({ autoSpeedupBlocks: 5, autoSpeedupMax: 1 });
+
+    await poll(watcher);
+    await poll(watcher);
+
+    expect(replaceTransaction).toHaveBeenCalledTimes(1);
+    expect(vi.mocked(replaceTransaction).mock.calls[0][2]).toEqual({ mode: 'speedup', bumpPercent: 10 });
+    const chain = await getReplacementChain((await workflowRepository.getTransaction(stuck.hash))!);
+    expect(chain.map((member) => member.hash)).toEqual([stuck.hash, '0xstuck-speedup-1']);
+    expect(chain[1]).toMatchObject({ replaces: stuck.hash, replacement: 'speedup', submittedBlock: '100' });
+  });
+
+  it('should keep a confirmation that lands while a replacement is broadcast', async () => {
+    const original = await trackTransaction(broadcast('0xrace', 1), {});
+    vi.mocked(replaceTransaction).mockImplementation(async () => {
+      const stored = await workflowRepository.getTransaction(original.hash);
+      await workflowRepository.saveTransaction({ ...stored!, status: 'confirmed', blockNumber: '99' });
+      return broadcast('0xrace-speedup', 1, { maxFeePerGas: 110n, maxPriorityFeePerGas: 11n });
+    });
+
+    const replacement = await new TransactionWatcher().replace(client, original, 'speedup');
+
+    expect(await workflowRepository.getTransaction(original.hash)).toMatchObject({
+      status: 'confirmed',
+      blockNumber: '99',
+      replacedBy: replacement.hash,
+    });
+    expect(replacement).toMatchObject({ status: 'pending', replaces: original.hash, replacement: 'speedup' });
+  });
+});
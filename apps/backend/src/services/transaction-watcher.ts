@@ -0,0 +1,293 @@
+import {
+  DEFAULT_REPLACEMENT_BUMP_PERCENT,
+  getBlockNumber,
+  getTransactionLifecycle,
+  nonceManager,
+  replaceTransaction,
+  type CeloClient,
+} from '@celo-automator/celo-functions';
+import type { BroadcastTransaction, TransactionLifecycleState } from '@celo-automator/types';
+import type { Address, Hash, Hex } from 'viem';
+import { workflowRepository, type TrackedTransaction } from '../storage/index.js';
+import { logger } from '../utils/logger.js';
+
+export interface TransactionWatcherConfig {
+  pollIntervalMs: number;
+  dropAfterMs: number;
+  autoSpeedupBlocks: number;
+  autoSpeedupMax: number;
+  speedupBumpPercent: number;
+}
+
+export type ReplacementMode = NonNullable<TrackedTransaction['replacement']>;
+
+export async function trackTransaction(
+  sent: BroadcastTransaction,
+  details: Pick<
+    TrackedTransaction,
+    'agentId' | 'memo' | 'metadata' | 'riskScore' | 'requiresApproval' | 'submittedBlock' | 'replaces' | 'replacement'
+  >
+): Promise<TrackedTransaction> {
+  const now = new Date().toISOString();
+  const transaction: TrackedTransaction = {
+    hash: sent.hash,
+    status: 'pending',
+    from: sent.from,
+    to: sent.to,
+    value: sent.value.toString(),
+    data: sent.data,
+    nonce: sent.nonce,
+    chainId: sent.chainId,
+    gasLimit: sent.gasLimit.toString(),
+    gasPrice: sent.gasPrice?.toString(),
+    maxFeePerGas: sent.maxFeePerGas?.toString(),
+    maxPriorityFeePerGas: sent.maxPriorityFeePerGas?.toString(),
+    feeCurrency: sent.feeCurrency,
+    ...details,
+    createdAt: now,
+    updatedAt: now,
+    history: [
+      {
+        status: 'pending',
+        at: now,
+        detail: details.replacement ? `Broadcast as ${details.replacement} of ${details.replaces}` : 'Broadcast',
+      },
+    ],
+  };
+  await workflowRepository.saveTransaction(transaction);
+  return transaction;
+}
+
+function sameNonce(a: TrackedTransaction, b: TrackedTransaction): boolean {
+  return a.chainId === b.chainId && a.nonce === b.nonce && a.from.toLowerCase() === b.from.toLowerCase();
+}
+
+export async function getReplacementChain(transaction: TrackedTransaction): Promise<TrackedTransaction[]> {
+  let root = transaction;
+  while (root.replaces) {
+    const previous = await workflowRepository.getTransaction(root.replaces);
+    if (!previous) {
+      break;
+    }
+    root = previous;
+  }
+
+  const chain = [root];
+  let current = root;
+  while (current.replacedBy) {
+    const next = await workflowRepository.getTransaction(current.replacedBy);
+    if (!next) {
+      break;
+    }
+    chain.push(next);
+    current = next;
+  }
+  return chain;
+}
+
+export class TransactionWatcher {
+  private readonly config: TransactionWatcherConfig;
+  private client?: CeloClient;
+  private timer?: NodeJS.Timeout;
+  private isPolling = false;
+
+  constructor(config?: Partial<TransactionWatcherConfig>) {
+    this.config = {
+      pollIntervalMs: config?.pollIntervalMs ?? 4000,
+      dropAfterMs: config?.dropAfterMs ?? 10 * 60 * 1000,
+      autoSpeedupBlocks: config?.autoSpeedupBlocks ?? 0,
+      autoSpeedupMax: config?.autoSpeedupMax ?? 3,
+      speedupBumpPercent: config?.speedupBumpPercent ?? DEFAULT_REPLACEMENT_BUMP_PERCENT,
+    };
+  }
+
+  start(client: CeloClient): void {
+    this.client = client;
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      void this.poll();
+    }, this.config.pollIntervalMs);
+    this.timer.unref();
+
+    logger.info('Transaction watcher started', {
+      pollIntervalMs: this.config.pollIntervalMs,
+      autoSpeedupBlocks: this.config.autoSpeedupBlocks,
+    });
+  }
+
+  stop(): void {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  async replace(
+    client: CeloClient,
+    transaction: TrackedTransaction,
+    mode: ReplacementMode,
+    bumpPercent?: number
+  ): Promise<TrackedTransaction> {
+    const submittedBlock = await getBlockNumber(client);
+    const sent = await replaceTransaction(
+      client,
+      {
+        to: transaction.to as Address,
+        value: BigInt(transaction.value),
+        data: transaction.data as Hex | undefined,
+        nonce: transaction.nonce,
+        gasLimit: BigInt(transaction.gasLimit),
+        gasPrice: transaction.gasPrice ? BigInt(transaction.gasPrice) : undefined,
+        maxFeePerGas: transaction.maxFeePerGas ? BigInt(transaction.maxFeePerGas) : undefined,
+        maxPriorityFeePerGas: transaction.maxPriorityFeePerGas ? BigInt(transaction.maxPriorityFeePerGas) : undefined,
+        feeCurrency: transaction.feeCurrency as Address | undefined,
+      },
+      { mode, bumpPercent: bumpPercent ?? this.config.speedupBumpPercent }
+    );
+
+    const replacement = await trackTransaction(sent, {
+      agentId: transaction.agentId,
+      memo: transaction.memo,
+      metadata: transaction.metadata,
+      riskScore: transaction.riskScore,
+      requiresApproval: transaction.requiresApproval,
+      submittedBlock: submittedBlock.toString(),
+      replaces: transaction.hash,
+      replacement: mode,
+    });
+
+    const latest = (await workflowRepository.getTransaction(transaction.hash)) ?? transaction;
+    const at = new Date().toISOString();
+    await workflowRepository.saveTransaction({
+      ...latest,
+      replacedBy: replacement.hash,
+      updatedAt: at,
+      history: [...latest.history, { status: latest.status, at, detail: `Replaced by ${mode} ${replacement.hash}` }],
+    });
+
+    logger.info('Transaction replaced', { hash: transaction.hash, replacement: replacement.hash, mode });
+    this.start(client);
+    return replacement;
+  }
+
+  async poll(): Promise<void> {
+    if (this.isPolling || !this.client) {
+      return;
+    }
+    this.isPolling = true;
+
+    try {
+      const groups: TrackedTransaction[][] = [];
+      for (const transaction of await workflowRepository.listTransactions('pending')) {
+        const group = groups.find((candidate) => sameNonce(candidate[0], transaction));
+        if (group) {
+          group.push(transaction);
+        } else {
+          groups.push([transaction]);
+        }
+      }
+
+      const currentBlock =
+        this.config.autoSpeedupBlocks > 0 && groups.length > 0 ? await getBlockNumber(this.client) : undefined;
+
+      for (const group of groups) {
+        try {
+          await this.check(this.client, group, currentBlock);
+        } catch (error) {
+          logger.error('Transaction status check failed', { hash: group[0].hash, error });
+        }
+      }
+    } finally {
+      this.isPolling = false;
+    }
+  }
+
+  private async check(client: CeloClient, group: TrackedTransaction[], currentBlock?: bigint): Promise<void> {
+    const states = await Promise.all(
+      group.map((transaction) =>
+        getTransactionLifecycle(client, {
+          hash: transaction.hash as Hash,
+          from: transaction.from as Address,
+          nonce: transaction.nonce,
+        })
+      )
+    );
+
+    const minedIndex = states.findIndex((state) => state.status === 'confirmed' || state.status === 'failed');
+    if (minedIndex !== -1) {
+      const mined = group[minedIndex];
+      await this.transition(mined, states[minedIndex]);
+      for (const transaction of group) {
+        if (transaction !== mined) {
+          await this.transition(transaction, { status: 'replaced' }, `Replaced by ${mined.hash}`);
+        }
+      }
+      return;
+    }
+
+    if (states.some((state) => state.status === 'dropped')) {
+      for (const transaction of group) {
+        await this.transition(transaction, { status: 'dropped' }, `Nonce ${transaction.nonce} was used by another transaction`);
+      }
+      return;
+    }
+
+    const head = group.find((transaction) => !transaction.replacedBy) ?? group[group.length - 1];
+    const headState = states[group.indexOf(head)];
+    const age = Date.now() - Date.parse(head.createdAt);
+    if (headState.inMempool === false && age >= this.config.dropAfterMs) {
+      for (const transaction of group) {
+        await this.transition(transaction, { status: 'dropped' }, `Not seen by the node for ${age}ms`);
+      }
+      return;
+    }
+
+    if (currentBlock !== undefined && head.submittedBlock !== undefined && head.replacement !== 'cancel') {
+      const pendingBlocks = currentBlock - BigInt(head.submittedBlock);
+      const speedups = group.filter((transaction) => transaction.replacement === 'speedup').length;
+      if (pendingBlocks >= BigInt(this.config.autoSpeedupBlocks) && speedups < this.config.autoSpeedupMax) {
+        logger.info('Speeding up stuck transaction', { hash: head.hash, pendingBlocks: pendingBlocks.toString() });
+        await this.replace(client, head, 'speedup');
+      }
+    }
+  }
+
+  private async transition(
+    transaction: TrackedTransaction,
+    state: Omit<TransactionLifecycleState, 'status'> & { status: TrackedTransaction['status'] },
+    detail?: string
+  ): Promise<void> {
+    if (state.status === 'dropped') {
+      nonceManager.releaseNonce(transaction.chainId, transaction.from as Address, transaction.nonce);
+    }
+
+    const at = new Date().toISOString();
+    await workflowRepository.saveTransaction({
+      ...transaction,
+      status: state.status,
+      blockNumber: state.blockNumber?.toString(),
+      gasUsed: state.gasUsed?.toString(),
+      effectiveGasPrice: state.effectiveGasPrice?.toString(),
+      updatedAt: at,
+      history: [...transaction.history, { status: state.status, at, ...(detail ? { detail } : {}) }],
+    });
+
+    logger.info('Transaction status updated', {
+      hash: transaction.hash,
+      status: state.status,
+      blockNumber: state.blockNumber?.toString(),
+      gasUsed: state.gasUsed?.toString(),
+    });
+  }
+}
+
+export const transactionWatcher = new TransactionWatcher({
+  pollIntervalMs: process.env.TX_WATCH_INTERVAL_MS ? Number(process.env.TX_WATCH_INTERVAL_MS) : 4000,
+  dropAfterMs: process.env.TX_DROP_AFTER_MS ? Number(process.env.TX_DROP_AFTER_MS) : 10 * 60 * 1000,
+  autoSpeedupBlocks: process.env.TX_AUTO_SPEEDUP_BLOCKS ? Number(process.env.TX_AUTO_SPEEDUP_BLOCKS) : 0,
+  autoSpeedupMax: process.env.TX_AUTO_SPEEDUP_MAX ? Number(process.env.TX_AUTO_SPEEDUP_MAX) : 3,
+  speedupBumpPercent: process.env.TX_SPEEDUP_BUMP_PERCENT
+    ? Number(process.env.TX_SPEEDUP_BUMP_PERCENT)
+    : DEFAULT_REPLACEMENT_BUMP_PERCENT,
+});
@@ -0,0 +1,27 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.hoisted(() => {
+  process.env.WORKFLOW_STORE = 'memory';
+});
+
+vi.mock('./cron-scheduler.js', () => ({ cronScheduler: { start: vi.fn() } }));
+vi.mock('./event-trigger-dispatcher.js', () => ({ eventTriggerDispatcher: { start: vi.fn() } }));
+vi.mock('./condition-trigger-engine.js', () => ({ conditionTriggerEngine: { start: vi.fn() } }));
+
+import { cronScheduler } from './cron-scheduler.js';
+import { eventTriggerDispatcher } from './event-trigger-dispatcher.js';
+import { conditionTriggerEngine } from './condition-trigger-engine.js';
+import { startTriggers } from './triggers.js';
+
+describe('startTriggers', () => {
+  it('should start every trigger engine even when an earlier one fails', async () => {
+    vi.mocked(cronScheduler.start).mockRejectedValueOnce(new Error('store unavailable'));
+    vi.mocked(eventTriggerDispatcher.start).mockRejectedValueOnce(new Error('rpc unavailable'));
+
+    await expect(startTriggers()).resolves.toBeUndefined();
+
+    expect(cronScheduler.start).toHaveBeenCalled();
+    expect(eventTriggerDispatcher.start).toHaveBeenCalled();
+    expect(conditionTriggerEngine.start).toHaveBeenCalled();
+  });
+});
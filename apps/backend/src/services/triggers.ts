@@ -0,0 +1,54 @@
+import { workflowRepository, type StoredWorkflow } from '../storage/index.js';
+import { cronScheduler } from './cron-scheduler.js';
+import { eventTriggerDispatcher } from './event-trigger-dispatcher.js';
+import { conditionTriggerEngine } from './condition-trigger-engine.js';
+import { logger } from '../utils/logger.js';
+
+export async function startTriggers(): Promise<void> {
+  if ((await workflowRepository.getKillSwitch()).engaged) {
+    return;
+  }
+
+  const engines = [
+    ['cron scheduler', cronScheduler],
+    ['event trigger dispatcher', eventTriggerDispatcher],
+    ['condition trigger engine', conditionTriggerEngine],
+  ] as const;
+  for (const [name, engine] of engines) {
+    try {
+      await engine.start();
+    } catch (error) {
+      logger.error('Failed to start trigger engine', { engine: name, error });
+    }
+  }
+}
+
+export function stopTriggers(): void {
+  cronScheduler.stop();
+  eventTriggerDispatcher.stop();
+  conditionTriggerEngine.stop();
+}
+
+export async function registerTriggers(workflow: StoredWorkflow): Promise<void> {
+  await cronScheduler.register(workflow);
+  await eventTriggerDispatcher.register(workflow);
+  await conditionTriggerEngine.register(workflow);
+}
+
+export function findTriggerError(workflow: Pick<StoredWorkflow, 'trigger'>): string | undefined {
+  return conditionTriggerEngine.findConfigurationError(workflow);
+}
+
+export function unregisterTriggers(workflowId: string): void {
+  cronScheduler.unregister(workflowId);
+  eventTriggerDispatcher.unregister(workflowId);
+  conditionTriggerEngine.unregister(workflowId);
+}
+
+export function getTriggerStatus(workflowId: string) {
+  return {
+    schedule: cronScheduler.getSchedule(workflowId),
+    subscription: eventTriggerDispatcher.getSubscription(workflowId),
+    condition: conditionTriggerEngine.getWatch(workflowId),
+  };
+}
@@ -0,0 +1,34 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('axios', () => ({ default: { post: vi.fn() } }));
+
+import { detectNotificationChannel, formatNotification } from './webhook.js';
+
+describe('detectNotificationChannel', () => {
+  it('should detect Slack and Discord webhooks and fall back to generic', () => {
+    expect(detectNotificationChannel('https://hooks.slack.com/services/T/B/X')).toBe('slack');
+    expect(detectNotificationChannel('https://discord.com/api/webhooks/1/abc')).toBe('discord');
+    expect(detectNotificationChannel('https://example.com/hook')).toBe('generic');
+    expect(detectNotificationChannel('not a url')).toBe('generic');
+  });
+});
+
+describe('formatNotification', () => {
+  it('should keep Discord embed fields within the 1024 character limit', () => {
+    const transactionHashes = Array.from({ length: 20 }, (_, index) => `0x${index.toString(16).padStart(64, '0')}`);
+
+    const payload = formatNotification('discord', {
+      workflowId: 'wf-1',
+      workflowName: 'Payroll',
+      message: 'x'.repeat(2500),
+      executionId: 'exec-1',
+      transactionHashes,
+    }) as { content: string; embeds: Array<{ fields: Array<{ name: string; value: string }> }> };
+
+    expect(payload.content).toHaveLength(2000);
+    const transactions = payload.embeds[0].fields.find((field) => field.name === 'Transactions');
+    expect(transactions?.value).toHaveLength(1024);
+    expect(transactions?.value.startsWith(transactionHashes[0])).toBe(true);
+    expect(payload.embeds[0].fields.map((field) => field.name)).toEqual(['Execution', 'Transactions']);
+  });
+});
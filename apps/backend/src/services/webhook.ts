@@ -1,4 +1,9 @@
 import axios from 'axios';
+import type {
+  NotificationChannel,
+  NotificationDelivery,
+  WorkflowNotification,
+} from '@celo-automator/types';
 import { logger } from '../utils/logger.js';
 
 export interface WebhookPayload {
@@ -61,3 +66,149 @@ export async function sendAgentAlert(
   });
 }
 
+const DISCORD_CONTENT_LIMIT = 2000;
+const DISCORD_TITLE_LIMIT = 256;
+const DISCORD_FIELD_VALUE_LIMIT = 1024;
+
+export function detectNotificationChannel(url: string): NotificationChannel {
+  try {
+    const { hostname, pathname } = new URL(url);
+    if (hostname === 'hooks.slack.com') {
+      return 'slack';
+    }
+    if (/(^|\.)discord(app)?\.com$/.test(hostname) && pathname.startsWith('/api/webhooks')) {
+      return 'discord';
+    }
+  } catch {
+    return 'generic';
+  }
+  return 'generic';
+}
+
+export function formatNotification(
+  channel: NotificationChannel,
+  notification: WorkflowNotification
+): Record<string, unknown> {
+  const timestamp = new Date().toISOString();
+
+  switch (channel) {
+    case 'slack':
+      return {
+        text: notification.message,
+        blocks: [
+          {
+            type: 'section',
+            text: { type: 'mrkdwn', text: notification.message },
+          },
+          {
+            type: 'context',
+            elements: [
+              {
+                type: 'mrkdwn',
+                text: [
+                  `Workflow: *${notification.workflowName}*`,
+                  notification.executionId && `Execution: \`${notification.executionId}\``,
+                  notification.transactionHashes.length > 0 &&
+                    `Transactions: ${notification.transactionHashes.map((hash) => `\`${hash}\``).join(', ')}`,
+                ]
+                  .filter(Boolean)
+                  .join(' | '),
+              },
+            ],
+          },
+        ],
+      };
+
+    case 'discord':
+      return {
+        content: notification.message.slice(0, DISCORD_CONTENT_LIMIT),
+        embeds: [
+          {
+            title: notification.workflowName.slice(0, DISCORD_TITLE_LIMIT),
+            fields: [
+              notification.executionId && { name: 'Execution', value: notification.executionId },
+              notification.trigger && { name: 'Trigger', value: notification.trigger.type, inline: true },
+              notification.transactionHashes.length > 0 && {
+                name: 'Transactions',
+                value: notification.transactionHashes.join('\n'),
+              },
+            ].flatMap((field) => (field ? [{ ...field, value: field.value.slice(0, DISCORD_FIELD_VALUE_LIMIT) }] : [])),
+            timestamp,
+          },
+        ],
+      };
+
+    default:
+      return {
+        event: 'workflow_notification',
+        timestamp,
+        data: {
+          message: notification.message,
+          workflowId: notification.workflowId,
+          workflowName: notification.workflowName,
+          executionId: notification.executionId,
+          transactionHashes: notification.transactionHashes,
+          trigger: notification.trigger,
+        },
+      };
+  }
+}
+
+export async function deliverNotification(
+  notification: WorkflowNotification
+): Promise<NotificationDelivery> {
+  const url = notification.webhookUrl || webhookUrl;
+  const channel = notification.channel ?? (url ? detectNotificationChannel(url) : 'generic');
+
+  if (!url) {
+    return {
+      delivered: false,
+      channel,
+      error: 'No webhook URL configured for notification',
+      deliveredAt: new Date().toISOString(),
+    };
+  }
+
+  let destination: string | undefined;
+  try {
+    destination = new URL(url).host;
+  } catch {
+    return {
+      delivered: false,
+      channel,
+      error: 'Invalid webhook URL',
+      deliveredAt: new Date().toISOString(),
+    };
+  }
+
+  try {
+    const response = await axios.post(url, formatNotification(channel, notification), {
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      timeout: 5000,
+    });
+    return {
+      delivered: true,
+      channel,
+      destination,
+      statusCode: response.status,
+      deliveredAt: new Date().toISOString(),
+    };
+  } catch (error: any) {
+    logger.error('Failed to deliver workflow notification', {
+      error,
+      channel,
+      destination,
+      workflowId: notification.workflowId,
+    });
+    return {
+      delivered: false,
+      channel,
+      destination,
+      statusCode: error?.response?.status,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      deliveredAt: new Date().toISOString(),
+    };
+  }
+}
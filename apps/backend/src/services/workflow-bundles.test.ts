@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createWorkflowBundle,
+  parseWorkflowBundle,
+  serializeWorkflowBundle,
+  WorkflowBundleError,
+} from './workflow-bundles.js';
+
+const workflow = {
+  id: 'wf-1',
+  name: 'Payroll',
+  enabled: true,
+  trigger: { type: 'cron' as const, cron: '@monthly' },
+  actions: [{ type: 'transfer', to: '0x1234567890123456789012345678901234567890', amount: '1' }],
+  version: 3,
+};
+
+describe('workflow bundles', () => {
+  it('should round-trip workflows through YAML without their version numbers', () => {
+    const bundle = parseWorkflowBundle(serializeWorkflowBundle(createWorkflowBundle([workflow]), 'yaml'));
+
+    const { version: _version, ...definition } = workflow;
+    expect(bundle.workflows).toEqual([definition]);
+  });
+
+  it('should report validation errors for each invalid workflow by position', () => {
+    const { version: _version, ...valid } = workflow;
+    let caught: unknown;
+    try {
+      parseWorkflowBundle({
+        format: 'celo-automator.workflows',
+        version: 1,
+        workflows: [valid, { ...valid, actions: [] }, { ...valid, trigger: { type: 'cron', cron: 'often' } }],
+      });
+    } catch (error) {
+      caught = error;
+    }
+
+    expect(caught).toBeInstanceOf(WorkflowBundleError);
+    expect((caught as WorkflowBundleError).message).toBe('Invalid workflows at bundle positions: 1, 2');
+    expect((caught as WorkflowBundleError).issues).toEqual([
+      { index: 1, errors: ['actions: at least one action is required'] },
+      { index: 2, errors: ['trigger.cron: invalid cron expression often'] },
+    ]);
+  });
+
+  it('should reject bundles with an unknown format', () => {
+    expect(() => parseWorkflowBundle({ format: 'other', version: 1, workflows: [] })).toThrow(
+      'Bundle format must be celo-automator.workflows'
+    );
+    expect(() => parseWorkflowBundle('format: [')).toThrow('Bundle is not valid JSON or YAML');
+  });
+});
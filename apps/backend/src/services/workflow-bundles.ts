@@ -0,0 +1,66 @@
+import { findWorkflowErrors, ValidationError } from '@celo-automator/core';
+import type { WorkflowBundle } from '@celo-automator/types';
+import { parse, stringify } from 'yaml';
+import type { StoredWorkflow } from '../storage/index.js';
+
+export type WorkflowBundleFormat = 'json' | 'yaml';
+
+export interface WorkflowBundleIssue {
+  index: number;
+  errors: string[];
+}
+
+const BUNDLE_FORMAT: WorkflowBundle['format'] = 'celo-automator.workflows';
+
+export class WorkflowBundleError extends ValidationError {
+  constructor(public issues: WorkflowBundleIssue[]) {
+    super(`Invalid workflows at bundle positions: ${issues.map((issue) => issue.index).join(', ')}`);
+    this.name = 'WorkflowBundleError';
+  }
+}
+
+export function createWorkflowBundle(workflows: StoredWorkflow[]): WorkflowBundle {
+  return {
+    format: BUNDLE_FORMAT,
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    workflows: workflows.map(({ version: _version, ...workflow }) => workflow),
+  };
+}
+
+export function serializeWorkflowBundle(bundle: WorkflowBundle, format: WorkflowBundleFormat): string {
+  return format === 'yaml' ? stringify(bundle) : JSON.stringify(bundle, null, 2);
+}
+
+export function parseWorkflowBundle(content: unknown): WorkflowBundle {
+  let bundle = content;
+  if (typeof content === 'string') {
+    try {
+      bundle = parse(content);
+    } catch (error) {
+      throw new ValidationError(
+        `Bundle is not valid JSON or YAML: ${error instanceof Error ? error.message : 'parse error'}`
+      );
+    }
+  }
+
+  const candidate = bundle as Partial<WorkflowBundle> | null;
+  if (!candidate || typeof candidate !== 'object' || candidate.format !== BUNDLE_FORMAT) {
+    throw new ValidationError(`Bundle format must be ${BUNDLE_FORMAT}`);
+  }
+  if (candidate.version !== 1) {
+    throw new ValidationError(`Unsupported bundle version: ${String(candidate.version)}`);
+  }
+  if (!Array.isArray(candidate.workflows) || candidate.workflows.length === 0) {
+    throw new ValidationError('Bundle must contain at least one workflow');
+  }
+
+  const issues = candidate.workflows
+    .map((workflow: unknown, index) => ({ index, errors: findWorkflowErrors(workflow) }))
+    .filter((issue) => issue.errors.length > 0);
+  if (issues.length > 0) {
+    throw new WorkflowBundleError(issues);
+  }
+
+  return candidate as WorkflowBundle;
+}
@@ -0,0 +1,138 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.hoisted(() => {
+  process.env.WORKFLOW_STORE = 'memory';
+});
+
+vi.mock('./triggers.js', () => ({
+  registerTriggers: vi.fn(),
+  unregisterTriggers: vi.fn(),
+  startTriggers: vi.fn(),
+  stopTriggers: vi.fn(),
+}));
+
+vi.mock('./workflow-runner.js', () => ({
+  getOrchestrator: vi.fn(() => ({})),
+}));
+
+import { workflowRepository, type StoredWorkflow } from '../storage/index.js';
+import { registerTriggers, startTriggers, stopTriggers, unregisterTriggers } from './triggers.js';
+import {
+  engageKillSwitch,
+  getExecutionBlocker,
+  releaseKillSwitch,
+  setWorkflowEnabled,
+  setWorkflowPaused,
+} from './workflow-controls.js';
+import { commitWorkflowVersion } from './workflow-versions.js';
+
+async function createWorkflow(id: string): Promise<StoredWorkflow> {
+  return commitWorkflowVersion({ id, name: id, enabled: true, trigger: { type: 'manual' }, actions: [] }, 'create');
+}
+
+describe('workflow controls', () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    await workflowRepository.saveKillSwitch({ engaged: false });
+  });
+
+  it('should record a new version when disabling and re-enabling a workflow', async () => {
+    await createWorkflow('wf-enable');
+
+    const disabled = await setWorkflowEnabled('wf-enable', false);
+    expect(disabled).toMatchObject({ enabled: false, version: 2 });
+    expect(unregisterTriggers).toHaveBeenCalledWith('wf-enable');
+    expect(await getExecutionBlocker('wf-enable')).toBe('Workflow is disabled');
+
+    const enabled = await setWorkflowEnabled('wf-enable', true);
+    expect(enabled).toMatchObject({ enabled: true, version: 3 });
+    expect(registerTriggers).toHaveBeenCalledWith(enabled);
+    expect(await getExecutionBlocker('wf-enable')).toBeUndefined();
+  });
+
+  it('should leave the workflow untouched when the enabled state does not change', async () => {
+    await createWorkflow('wf-noop');
+
+    const result = await setWorkflowEnabled('wf-noop', true);
+
+    expect(result?.version).toBe(1);
+    expect(registerTriggers).not.toHaveBeenCalled();
+    expect(await setWorkflowEnabled('wf-missing', false)).toBeUndefined();
+  });
+
+  it('should pause and resume without creating versions', async () => {
+    await createWorkflow('wf-pause');
+
+    const paused = await setWorkflowPaused('wf-pause', true);
+    expect(paused?.pausedAt).toEqual(expect.any(String));
+    expect(paused?.version).toBe(1);
+    expect(unregisterTriggers).toHaveBeenCalledWith('wf-pause');
+    expect(await getExecutionBlocker('wf-pause')).toBe('Workflow is paused');
+
+    const resumed = await setWorkflowPaused('wf-pause', false);
+    expect(resumed).not.toHaveProperty('pausedAt');
+    expect(registerTriggers).toHaveBeenCalledWith(resumed);
+    expect(await workflowRepository.listWorkflowVersions('wf-pause')).toHaveLength(1);
+  });
+
+  it('should block every workflow and stop triggers while the kill switch is engaged', async () => {
+    await createWorkflow('wf-kill');
+
+    const state = await engageKillSwitch({ reason: 'incident', engagedBy: 'ops' });
+    expect(state).toMatchObject({ engaged: true, reason: 'incident', engagedBy: 'ops' });
+    expect(stopTriggers).toHaveBeenCalled();
+    expect(await getExecutionBlocker('wf-kill')).toBe('Kill switch engaged: incident');
+
+    await releaseKillSwitch();
+    expect(startTriggers).toHaveBeenCalled();
+    expect(await workflowRepository.getKillSwitch()).toEqual({ engaged: false });
+    expect(await getExecutionBlocker('wf-kill')).toBeUndefined();
+  });
+
+  it('should skip trigger runs missed while a workflow was stopped', async () => {
+    const cron = await commitWorkflowVersion(
+      { id: 'wf-cron', name: 'cron', enabled: true, trigger: { type: 'cron', cron: '* * * * *' }, actions: [] },
+      'create'
+    );
+    const event = await commitWorkflowVersion(
+      {
+        id: 'wf-event',
+        name: 'event',
+        enabled: true,
+        trigger: { type: 'event', event: { contractAddress: '0x1', eventName: 'Transfer' } },
+        actions: [],
+      },
+      'create'
+    );
+    const stale = {
+      lastScheduledAt: '2024-01-01T00:00:00.000Z',
+      lastBlock: '100',
+      cursor: { blockNumber: '100', logIndex: 2 },
+    };
+    const before = Date.now();
+
+    await workflowRepository.saveTriggerState(cron.id, stale);
+    await setWorkflowEnabled(cron.id, false);
+    await setWorkflowEnabled(cron.id, true);
+    const enabledState = await workflowRepository.getTriggerState(cron.id);
+    expect(Date.parse(enabledState?.lastScheduledAt)).toBeGreaterThanOrEqual(before);
+
+    await workflowRepository.saveTriggerState(event.id, stale);
+    await setWorkflowPaused(event.id, true);
+    await setWorkflowPaused(event.id, false);
+    expect(await workflowRepository.getTriggerState(event.id)).toEqual({ lastScheduledAt: stale.lastScheduledAt });
+
+    await workflowRepository.saveTriggerState(cron.id, stale);
+    await workflowRepository.saveTriggerState(event.id, stale);
+    await engageKillSwitch();
+    await releaseKillSwitch();
+    const cronState = await workflowRepository.getTriggerState(cron.id);
+    expect(Date.parse(cronState?.lastScheduledAt)).toBeGreaterThanOrEqual(before);
+    expect(cronState).not.toHaveProperty('lastBlock');
+    expect(await workflowRepository.getTriggerState(event.id)).toEqual({ lastScheduledAt: stale.lastScheduledAt });
+  });
+
+  it('should report missing workflows as blocked', async () => {
+    expect(await getExecutionBlocker('wf-unknown')).toBe('Workflow not found');
+  });
+});
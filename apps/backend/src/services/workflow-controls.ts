@@ -0,0 +1,110 @@
+import { workflowRepository, type KillSwitchState, type StoredWorkflow } from '../storage/index.js';
+import { logger } from '../utils/logger.js';
+import { registerTriggers, startTriggers, stopTriggers, unregisterTriggers } from './triggers.js';
+import { getOrchestrator } from './workflow-runner.js';
+import { commitWorkflowVersion } from './workflow-versions.js';
+
+export async function getExecutionBlocker(workflowId: string): Promise<string | undefined> {
+  const killSwitch = await workflowRepository.getKillSwitch();
+  if (killSwitch.engaged) {
+    return `Kill switch engaged${killSwitch.reason ? `: ${killSwitch.reason}` : ''}`;
+  }
+
+  const workflow = await workflowRepository.getWorkflow(workflowId);
+  if (!workflow) {
+    return 'Workflow not found';
+  }
+  if (workflow.enabled === false) {
+    return 'Workflow is disabled';
+  }
+  if (workflow.pausedAt) {
+    return 'Workflow is paused';
+  }
+  return undefined;
+}
+
+async function skipMissedTriggers(workflow: StoredWorkflow): Promise<void> {
+  const { lastBlock: _lastBlock, cursor: _cursor, ...state } =
+    (await workflowRepository.getTriggerState(workflow.id)) ?? {};
+  await workflowRepository.saveTriggerState(
+    workflow.id,
+    workflow.trigger.type === 'cron' ? { ...state, lastScheduledAt: new Date().toISOString() } : state
+  );
+}
+
+export async function setWorkflowEnabled(workflowId: string, enabled: boolean): Promise<StoredWorkflow | undefined> {
+  const workflow = await workflowRepository.getWorkflow(workflowId);
+  if (!workflow) {
+    return undefined;
+  }
+  if (workflow.enabled === enabled) {
+    return workflow;
+  }
+
+  const stored = await commitWorkflowVersion({ ...workflow, enabled }, 'update');
+  if (enabled) {
+    await skipMissedTriggers(stored);
+    await registerTriggers(stored);
+  } else {
+    unregisterTriggers(workflowId);
+  }
+
+  logger.info(enabled ? 'Workflow enabled' : 'Workflow disabled', { workflowId, version: stored.version });
+  return stored;
+}
+
+export async function setWorkflowPaused(workflowId: string, paused: boolean): Promise<StoredWorkflow | undefined> {
+  const workflow = await workflowRepository.getWorkflow(workflowId);
+  if (!workflow) {
+    return undefined;
+  }
+  if (Boolean(workflow.pausedAt) === paused) {
+    return workflow;
+  }
+
+  const { pausedAt: _pausedAt, ...rest } = workflow;
+  const stored: StoredWorkflow = paused ? { ...rest, pausedAt: new Date().toISOString() } : rest;
+  await workflowRepository.saveWorkflow(stored);
+  if (paused) {
+    unregisterTriggers(workflowId);
+  } else {
+    await skipMissedTriggers(stored);
+    await registerTriggers(stored);
+  }
+
+  logger.info(paused ? 'Workflow paused' : 'Workflow resumed', { workflowId });
+  return stored;
+}
+
+export async function engageKillSwitch(options: { reason?: string; engagedBy?: string } = {}): Promise<KillSwitchState> {
+  const state: KillSwitchState = {
+    engaged: true,
+    reason: options.reason,
+    engagedBy: options.engagedBy,
+    engagedAt: new Date().toISOString(),
+  };
+  await workflowRepository.saveKillSwitch(state);
+  stopTriggers();
+
+  logger.warn('Workflow kill switch engaged', { reason: state.reason, engagedBy: state.engagedBy });
+  return state;
+}
+
+export async function releaseKillSwitch(): Promise<KillSwitchState> {
+  if ((await workflowRepository.getKillSwitch()).engaged) {
+    for (const workflow of await workflowRepository.listWorkflows()) {
+      if (workflow.enabled !== false && !workflow.pausedAt) {
+        await skipMissedTriggers(workflow);
+      }
+    }
+  }
+
+  const state: KillSwitchState = { engaged: false };
+  await workflowRepository.saveKillSwitch(state);
+  if (getOrchestrator()) {
+    await startTriggers();
+  }
+
+  logger.info('Workflow kill switch released');
+  return state;
+}
@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import type { WorkflowExecution } from '@celo-automator/types';
+import type { StoredWorkflow } from '../storage/index.js';
+import { paginateExecutions, queryWorkflows } from './workflow-queries.js';
+
+function createWorkflow(id: string, overrides: Partial<StoredWorkflow> = {}): StoredWorkflow {
+  return { id, name: `Workflow ${id}`, enabled: true, trigger: { type: 'manual' }, actions: [], ...overrides };
+}
+
+function createExecution(id: string, startedAt: string): WorkflowExecution {
+  return { id, workflowId: 'wf', status: 'completed', trigger: { type: 'manual', firedAt: startedAt }, startedAt };
+}
+
+describe('workflow queries', () => {
+  it('should walk every workflow exactly once by following the cursor', () => {
+    const workflows = ['wf-c', 'wf-a', 'wf-e', 'wf-b', 'wf-d'].map((id) => createWorkflow(id));
+    const seen: string[] = [];
+    let cursor: string | undefined;
+
+    for (let page = 0; page < 5; page++) {
+      const result = queryWorkflows(workflows, {}, { limit: 2, cursor });
+      seen.push(...result.items.map((workflow) => workflow.id));
+      expect(result.pagination.total).toBe(5);
+      cursor = result.pagination.nextCursor;
+      if (!result.pagination.hasMore) {
+        break;
+      }
+    }
+
+    expect(seen).toEqual(['wf-a', 'wf-b', 'wf-c', 'wf-d', 'wf-e']);
+    expect(cursor).toBeUndefined();
+  });
+
+  it('should keep the cursor position stable when earlier items are added', () => {
+    const workflows = ['wf-b', 'wf-c', 'wf-d'].map((id) => createWorkflow(id));
+    const first = queryWorkflows(workflows, {}, { limit: 1 });
+
+    const next = queryWorkflows([createWorkflow('wf-a'), ...workflows], {}, {
+      limit: 1,
+      cursor: first.pagination.nextCursor,
+    });
+
+    expect(next.items.map((workflow) => workflow.id)).toEqual(['wf-c']);
+  });
+
+  it('should page executions newest first and break ties by id', () => {
+    const executions = [
+      createExecution('exec-1', '2024-01-01T00:00:00.000Z'),
+      createExecution('exec-3', '2024-01-02T00:00:00.000Z'),
+      createExecution('exec-2', '2024-01-02T00:00:00.000Z'),
+    ];
+
+    const first = paginateExecutions(executions, { limit: 2 });
+    const second = paginateExecutions(executions, { limit: 2, cursor: first.pagination.nextCursor });
+
+    expect(first.items.map((execution) => execution.id)).toEqual(['exec-3', 'exec-2']);
+    expect(second.items.map((execution) => execution.id)).toEqual(['exec-1']);
+    expect(second.pagination).toEqual({ limit: 2, total: 3, totalPages: 2, hasMore: false });
+  });
+
+  it('should support page and offset pagination like the SDK', () => {
+    const workflows = ['wf-a', 'wf-b', 'wf-c', 'wf-d', 'wf-e'].map((id) => createWorkflow(id));
+
+    const second = queryWorkflows(workflows, {}, { limit: 2, page: 2 });
+    const last = queryWorkflows(workflows, {}, { limit: 2, offset: 4 });
+
+    expect(second.items.map((workflow) => workflow.id)).toEqual(['wf-c', 'wf-d']);
+    expect(second.pagination).toMatchObject({ page: 2, totalPages: 3, hasMore: true });
+    expect(last.items.map((workflow) => workflow.id)).toEqual(['wf-e']);
+    expect(last.pagination).toMatchObject({ page: 3, hasMore: false });
+    expect(() => queryWorkflows(workflows, {}, { limit: 2, page: 2, cursor: second.pagination.nextCursor })).toThrow(
+      'Use either cursor or page/offset pagination, not both'
+    );
+  });
+
+  it('should reject malformed cursors', () => {
+    const workflows = [createWorkflow('wf-1')];
+    const canonical = Buffer.from('wf-1', 'utf8').toString('base64url');
+
+    expect(() => queryWorkflows(workflows, {}, { limit: 1, cursor: '' })).toThrow('Invalid pagination cursor');
+    expect(() => queryWorkflows(workflows, {}, { limit: 1, cursor: 'not a cursor!' })).toThrow(
+      'Invalid pagination cursor'
+    );
+    expect(() => queryWorkflows(workflows, {}, { limit: 1, cursor: `${canonical}==` })).toThrow(
+      'Invalid pagination cursor'
+    );
+    expect(queryWorkflows(workflows, {}, { limit: 1, cursor: canonical }).items).toEqual([]);
+  });
+
+  it('should filter by name, trigger type, enabled state, tag and metadata', () => {
+    const workflows = [
+      createWorkflow('wf-1', { name: 'Monthly payroll', metadata: { tags: ['finance'], team: 'ops' } }),
+      createWorkflow('wf-2', { trigger: { type: 'cron', cron: '@daily' }, enabled: false }),
+      createWorkflow('wf-3', { metadata: { tags: ['finance'], team: 'dao' } }),
+    ];
+    const ids = (filter: Parameters<typeof queryWorkflows>[1]) =>
+      queryWorkflows(workflows, filter, { limit: 10 }).items.map((workflow) => workflow.id);
+
+    expect(ids({ name: 'PAYROLL' })).toEqual(['wf-1']);
+    expect(ids({ triggerType: 'cron' })).toEqual(['wf-2']);
+    expect(ids({ enabled: true })).toEqual(['wf-1', 'wf-3']);
+    expect(ids({ tag: 'finance', metadata: { team: 'dao' } })).toEqual(['wf-3']);
+  });
+});
@@ -0,0 +1,173 @@
+import { ValidationError } from '@celo-automator/core';
+import type { Workflow, WorkflowExecution } from '@celo-automator/types';
+import type { StoredWorkflow } from '../storage/index.js';
+
+// Mirrors PaginationParams and PaginatedResponse in @celo-ai/sdk so SDK clients can page these lists.
+export interface PageParams {
+  limit: number;
+  cursor?: string;
+  page?: number;
+  offset?: number;
+}
+
+export interface Page<T> {
+  items: T[];
+  pagination: {
+    page?: number;
+    limit: number;
+    total: number;
+    totalPages: number;
+    hasMore: boolean;
+    nextCursor?: string;
+  };
+}
+
+export interface WorkflowListFilter {
+  name?: string;
+  triggerType?: Workflow['trigger']['type'];
+  enabled?: boolean;
+  tag?: string;
+  metadata?: Record<string, string>;
+}
+
+export interface ExecutionListFilter {
+  status?: WorkflowExecution['status'];
+  from?: Date;
+  to?: Date;
+}
+
+export interface ExecutionStats {
+  total: number;
+  byStatus: Partial<Record<WorkflowExecution['status'], number>>;
+  successRate?: number;
+  meanDurationMs?: number;
+  gasUsed: string;
+  feesWei: string;
+}
+
+const FINISHED_STATUSES: WorkflowExecution['status'][] = ['completed', 'failed', 'cancelled'];
+
+function encodeCursor(key: string): string {
+  return Buffer.from(key, 'utf8').toString('base64url');
+}
+
+function decodeCursor(cursor: string): string {
+  const key = Buffer.from(cursor, 'base64url').toString('utf8');
+  if (!key || encodeCursor(key) !== cursor) {
+    throw new ValidationError('Invalid pagination cursor');
+  }
+  return key;
+}
+
+function paginate<T>(
+  items: T[],
+  getKey: (item: T) => string,
+  order: 'asc' | 'desc',
+  params: PageParams
+): Page<T> {
+  const direction = order === 'asc' ? 1 : -1;
+  const sorted = items
+    .map((item) => ({ item, key: getKey(item) }))
+    .sort((a, b) => (a.key < b.key ? -direction : a.key > b.key ? direction : 0));
+
+  if (params.cursor !== undefined && (params.page !== undefined || params.offset !== undefined)) {
+    throw new ValidationError('Use either cursor or page/offset pagination, not both');
+  }
+
+  const after = params.cursor !== undefined ? decodeCursor(params.cursor) : undefined;
+  const offset = params.offset ?? (params.page !== undefined ? (params.page - 1) * params.limit : 0);
+  const remaining =
+    after === undefined
+      ? sorted.slice(offset)
+      : sorted.filter(({ key }) => (order === 'asc' ? key > after : key < after));
+  const page = remaining.slice(0, params.limit);
+  const hasMore = remaining.length > page.length;
+
+  return {
+    items: page.map(({ item }) => item),
+    pagination: {
+      ...(after === undefined ? { page: Math.floor(offset / params.limit) + 1 } : {}),
+      limit: params.limit,
+      total: items.length,
+      totalPages: Math.ceil(items.length / params.limit),
+      hasMore,
+      ...(hasMore ? { nextCursor: encodeCursor(page[page.length - 1].key) } : {}),
+    },
+  };
+}
+
+export function queryWorkflows(
+  workflows: StoredWorkflow[],
+  filter: WorkflowListFilter,
+  params: PageParams
+): Page<StoredWorkflow> {
+  const name = filter.name?.toLowerCase();
+  const matches = workflows.filter((workflow) => {
+    const metadata = workflow.metadata ?? {};
+    const tags: unknown = metadata.tags;
+    return (
+      (!name || workflow.name.toLowerCase().includes(name)) &&
+      (!filter.triggerType || workflow.trigger.type === filter.triggerType) &&
+      (filter.enabled === undefined || workflow.enabled === filter.enabled) &&
+      (!filter.tag || (Array.isArray(tags) && tags.includes(filter.tag))) &&
+      Object.entries(filter.metadata ?? {}).every(([key, value]) => String(metadata[key]) === value)
+    );
+  });
+
+  return paginate(matches, (workflow) => workflow.id, 'asc', params);
+}
+
+export function filterExecutions(executions: WorkflowExecution[], filter: ExecutionListFilter): WorkflowExecution[] {
+  return executions.filter((execution) => {
+    const startedAt = Date.parse(execution.startedAt);
+    return (
+      (!filter.status || execution.status === filter.status) &&
+      (!filter.from || startedAt >= filter.from.getTime()) &&
+      (!filter.to || startedAt <= filter.to.getTime())
+    );
+  });
+}
+
+export function paginateExecutions(executions: WorkflowExecution[], params: PageParams): Page<WorkflowExecution> {
+  return paginate(executions, (execution) => `${execution.startedAt}|${execution.id}`, 'desc', params);
+}
+
+export function summarizeExecutions(executions: WorkflowExecution[]): ExecutionStats {
+  const byStatus: ExecutionStats['byStatus'] = {};
+  let finished = 0;
+  let durationTotal = 0;
+  let durationCount = 0;
+  let gasUsed = 0n;
+  let feesWei = 0n;
+
+  for (const execution of executions) {
+    byStatus[execution.status] = (byStatus[execution.status] ?? 0) + 1;
+    if (FINISHED_STATUSES.includes(execution.status)) {
+      finished++;
+    }
+    if (execution.completedAt) {
+      durationTotal += Date.parse(execution.completedAt) - Date.parse(execution.startedAt);
+      durationCount++;
+    }
+
+    for (const step of execution.steps ?? []) {
+      if (!step.transactionHash || step.output?.gasUsed === undefined) {
+        continue;
+      }
+      const used = BigInt(step.output.gasUsed);
+      gasUsed += used;
+      if (step.output.receipt?.effectiveGasPrice !== undefined) {
+        feesWei += used * BigInt(step.output.receipt.effectiveGasPrice);
+      }
+    }
+  }
+
+  return {
+    total: executions.length,
+    byStatus,
+    ...(finished > 0 ? { successRate: (byStatus.completed ?? 0) / finished } : {}),
+    ...(durationCount > 0 ? { meanDurationMs: Math.round(durationTotal / durationCount) } : {}),
+    gasUsed: gasUsed.toString(),
+    feesWei: feesWei.toString(),
+  };
+}
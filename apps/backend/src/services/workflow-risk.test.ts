@@ -0,0 +1,134 @@
+import { beforeEach, describe, it, expect, vi } from 'vitest';
+
+vi.hoisted(() => {
+  process.env.WORKFLOW_STORE = 'memory';
+});
+
+const { scoreTransaction } = vi.hoisted(() => ({ scoreTransaction: vi.fn() }));
+
+vi.mock('@celo-ai/risk-engine', () => ({
+  RiskEngine: vi.fn(() => ({ scoreTransaction })),
+}));
+
+import type { CeloClient } from '@celo-automator/celo-functions';
+import { workflowRepository } from '../storage/index.js';
+import { spendingLimitStore } from './spending-limits.js';
+import { createRiskAssessor } from './workflow-risk.js';
+
+const CUSD = '0x874069fa1eb16d44d622f2e0ca25eea172369bc1';
+const client = {
+  getNetworkConfig: () => ({ network: 'alfajores' }),
+  getWalletClient: () => undefined,
+} as unknown as CeloClient;
+
+describe('createRiskAssessor', () => {
+  beforeEach(async () => {
+    scoreTransaction.mockReset();
+    scoreTransaction.mockResolvedValue({
+      score: 0.1,
+      classification: 'low',
+      requiresApproval: false,
+      blockExecution: false,
+      reasons: [],
+    });
+
+    await workflowRepository.saveWorkflow({
+      id: 'wf-risk',
+      name: 'Payouts',
+      enabled: true,
+      agentId: 'agent-risk',
+      trigger: { type: 'manual' },
+      actions: [],
+    });
+    await workflowRepository.saveExecution({
+      id: 'exec-risk',
+      workflowId: 'wf-risk',
+      status: 'completed',
+      trigger: { type: 'manual', firedAt: new Date().toISOString() },
+      startedAt: new Date().toISOString(),
+      steps: [
+        {
+          id: 'step-celo',
+          actionIndex: 0,
+          actionType: 'transfer',
+          status: 'completed',
+          risk: {
+            score: 0.1,
+            classification: 'low',
+            requiresApproval: false,
+            blockExecution: false,
+            reasons: [],
+            value: '1000',
+          },
+        },
+        {
+          id: 'step-cusd',
+          actionIndex: 1,
+          actionType: 'transfer',
+          status: 'completed',
+          risk: {
+            score: 0.1,
+            classification: 'low',
+            requiresApproval: false,
+            blockExecution: false,
+            reasons: [],
+            value: '5',
+            token: CUSD,
+          },
+        },
+      ],
+    });
+  });
+
+  it('should only count history and limits for the same token', async () => {
+    spendingLimitStore.set({
+      agentId: 'agent-risk',
+      dailyLimit: '100',
+      perTxLimit: '50',
+      currency: 'cUSD',
+      effectiveFrom: new Date().toISOString(),
+      updatedAt: new Date().toISOString(),
+    });
+    const assess = createRiskAssessor(client);
+
+    const result = await assess({
+      stepId: 'step-next',
+      workflowId: 'wf-risk',
+      kind: 'token_transfer',
+      to: '0x1',
+      value: '7',
+      tokenAddress: CUSD,
+    });
+
+    expect(result).toMatchObject({ value: '7', token: CUSD });
+    expect(scoreTransaction.mock.calls[0][0].agent).toMatchObject({
+      dailyLimit: '100',
+      perTxLimit: '50',
+      cumulative24h: '5',
+    });
+
+    await assess({ stepId: 'step-native', workflowId: 'wf-risk', kind: 'native_transfer', to: '0x1', value: '3' });
+
+    expect(scoreTransaction.mock.calls[1][0].agent).toMatchObject({ dailyLimit: undefined, cumulative24h: '1000' });
+  });
+
+  it('should block malformed amounts instead of throwing', async () => {
+    const assess = createRiskAssessor(client);
+
+    const result = await assess({
+      stepId: 'step-bad',
+      workflowId: 'wf-risk',
+      kind: 'batch_transfer',
+      to: '0x1',
+      tokenAddress: CUSD,
+      transfers: [
+        { to: '0x2', amount: '10' },
+        { to: '0x3', amount: '1.5' },
+      ],
+    });
+
+    expect(result).toMatchObject({ blockExecution: true, requiresApproval: true, classification: 'critical' });
+    expect(result.reasons[0]).toContain('1.5');
+    expect(scoreTransaction).not.toHaveBeenCalled();
+  });
+});
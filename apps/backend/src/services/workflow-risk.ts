@@ -0,0 +1,167 @@
+import { RiskEngine, type AgentRiskProfile, type RiskEvaluationInput } from '@celo-ai/risk-engine';
+import type { CeloClient } from '@celo-automator/celo-functions';
+import { findToken, type TokenNetwork } from '@celo-automator/core';
+import type { TransactionRiskAssessor } from '@celo-automator/langchain-agent';
+import type { SimulatedTransaction, TransactionRiskAssessment, WorkflowExecutionStep } from '@celo-automator/types';
+import type { Address } from 'viem';
+import { workflowRepository } from '../storage/index.js';
+import { spendingLimitStore } from './spending-limits.js';
+
+const HISTORY_WINDOW_MS = 24 * 60 * 60 * 1000;
+const NATIVE_TOKEN = 'native';
+
+const riskEngine = new RiskEngine({
+  maxRiskScore: process.env.MAX_RISK_SCORE ? Number(process.env.MAX_RISK_SCORE) : 0.95,
+  approvalThreshold: process.env.APPROVAL_THRESHOLD ? parseFloat(process.env.APPROVAL_THRESHOLD) : 0.6,
+  blockThreshold: process.env.BLOCK_THRESHOLD ? parseFloat(process.env.BLOCK_THRESHOLD) : 0.85,
+});
+
+function parseBaseUnits(amount: string | undefined): bigint | undefined {
+  return amount !== undefined && /^\d+$/.test(amount) ? BigInt(amount) : undefined;
+}
+
+function getTransferredValue(transaction: SimulatedTransaction): bigint | undefined {
+  if (transaction.kind === 'batch_transfer') {
+    let total = 0n;
+    for (const transfer of transaction.transfers ?? []) {
+      const amount = parseBaseUnits(transfer.amount);
+      if (amount === undefined) {
+        return undefined;
+      }
+      total += amount;
+    }
+    return total;
+  }
+  return parseBaseUnits(transaction.value ?? '0');
+}
+
+function getTokenKey(token: string | undefined, network: TokenNetwork): string {
+  const found = token ? findToken(token, network) : undefined;
+  if (!token || found?.native) {
+    return NATIVE_TOKEN;
+  }
+  return (found?.address ?? token).toLowerCase();
+}
+
+function getStepValue(step: WorkflowExecutionStep): bigint {
+  return parseBaseUnits(step.risk?.value) ?? 0n;
+}
+
+function sqrt(value: bigint): bigint {
+  if (value < 2n) {
+    return value;
+  }
+  let x = value;
+  let y = (x + 1n) / 2n;
+  while (y < x) {
+    x = y;
+    y = (x + value / x) / 2n;
+  }
+  return x;
+}
+
+async function getAssessedSteps(
+  agentId: string | undefined,
+  workflowId: string,
+  token: string
+): Promise<WorkflowExecutionStep[]> {
+  const workflowIds = new Set([workflowId]);
+  if (agentId) {
+    for (const workflow of await workflowRepository.listWorkflows()) {
+      if (workflow.agentId === agentId) {
+        workflowIds.add(workflow.id);
+      }
+    }
+  }
+
+  const since = Date.now() - HISTORY_WINDOW_MS;
+  return (await workflowRepository.listExecutions())
+    .filter((execution) => workflowIds.has(execution.workflowId) && Date.parse(execution.startedAt) >= since)
+    .flatMap((execution) => execution.steps ?? [])
+    .filter(
+      (step) =>
+        step.status === 'completed' &&
+        parseBaseUnits(step.risk?.value) !== undefined &&
+        (step.risk?.token ?? NATIVE_TOKEN) === token
+    );
+}
+
+function summarizeHistory(steps: WorkflowExecutionStep[]): RiskEvaluationInput['history'] {
+  if (steps.length === 0) {
+    return { last24hCount: 0 };
+  }
+
+  const count = BigInt(steps.length);
+  const values = steps.map(getStepValue);
+  const average = values.reduce((sum, value) => sum + value, 0n) / count;
+  const variance = values.reduce((sum, value) => sum + (value - average) ** 2n, 0n) / count;
+
+  return {
+    averageValue: average.toString(),
+    standardDeviation: sqrt(variance).toString(),
+    last24hCount: steps.length,
+    avgRiskScore: steps.reduce((sum, step) => sum + step.risk!.score, 0) / steps.length,
+  };
+}
+
+function invalidAmountAssessment(transaction: SimulatedTransaction, token: string): TransactionRiskAssessment {
+  const amounts =
+    transaction.kind === 'batch_transfer'
+      ? (transaction.transfers ?? []).map((transfer) => transfer.amount)
+      : [transaction.value ?? ''];
+  return {
+    score: 1,
+    classification: 'critical',
+    requiresApproval: true,
+    blockExecution: true,
+    reasons: [`Transfer amount is not an integer in base units: ${amounts.join(', ')}`],
+    token,
+  };
+}
+
+export function createRiskAssessor(client: CeloClient): TransactionRiskAssessor {
+  return async (transaction) => {
+    const workflowId = transaction.workflowId ?? 'workflow';
+    const workflow = transaction.workflowId ? await workflowRepository.getWorkflow(transaction.workflowId) : undefined;
+    const agentId = workflow?.agentId;
+    const network = client.getNetworkConfig().network;
+    const token = getTokenKey(transaction.tokenAddress, network);
+    const value = getTransferredValue(transaction);
+
+    if (value === undefined) {
+      return invalidAmountAssessment(transaction, token);
+    }
+
+    const steps = await getAssessedSteps(agentId, workflowId, token);
+    const storedLimit = agentId ? spendingLimitStore.get(agentId) : undefined;
+    const limit = storedLimit && getTokenKey(storedLimit.currency, network) === token ? storedLimit : undefined;
+    const agent: AgentRiskProfile = {
+      id: agentId ?? workflowId,
+      dailyLimit: limit?.dailyLimit,
+      perTxLimit: limit?.perTxLimit,
+      cumulative24h: steps.reduce((sum, step) => sum + getStepValue(step), 0n).toString(),
+    };
+
+    const assessment = await riskEngine.scoreTransaction({
+      transaction: {
+        to: transaction.to as Address,
+        from: client.getWalletClient()?.account?.address,
+        value: value.toString(),
+        tokenAddress: transaction.tokenAddress as Address | undefined,
+        operationType: transaction.kind,
+      },
+      agent,
+      history: summarizeHistory(steps),
+    });
+
+    return {
+      score: assessment.normalizedRisk,
+      classification: assessment.classification,
+      requiresApproval: assessment.requiresApproval,
+      blockExecution: assessment.blockExecution,
+      reasons: assessment.reasons,
+      value: value.toString(),
+      token,
+    };
+  };
+}
@@ -0,0 +1,95 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { WorkflowExecution } from '@celo-automator/types';
+
+const { executeWorkflow } = vi.hoisted(() => {
+  process.env.WORKFLOW_STORE = 'memory';
+  process.env.CELO_PRIVATE_KEY = '0x0123456789012345678901234567890123456789012345678901234567890123';
+  return { executeWorkflow: vi.fn() };
+});
+
+vi.mock('axios', () => ({ default: { post: vi.fn() } }));
+
+vi.mock('@celo-automator/celo-functions', () => ({
+  CeloClient: vi.fn(() => ({ getNetworkConfig: () => ({ network: 'alfajores' }) })),
+}));
+
+vi.mock('@celo-automator/langchain-agent', () => ({
+  LangChainAgent: vi.fn(),
+  WorkflowOrchestrator: vi.fn(() => ({ executeWorkflow })),
+}));
+
+vi.mock('./fee-currency.js', () => ({ createFeeCurrencySelector: vi.fn() }));
+vi.mock('./workflow-risk.js', () => ({ createRiskAssessor: vi.fn() }));
+vi.mock('./workflow-simulator.js', () => ({ createTransactionSimulator: vi.fn() }));
+
+import { workflowRepository, type StoredWorkflow } from '../storage/index.js';
+import { getActiveExecutionIds, recoverExecutions, startWorkflowExecution } from './workflow-runner.js';
+
+const workflow: StoredWorkflow = {
+  id: 'wf-runner',
+  name: 'Runner',
+  enabled: true,
+  trigger: { type: 'manual' },
+  actions: [],
+};
+
+function createExecution(id: string, status: WorkflowExecution['status']): WorkflowExecution {
+  return {
+    id,
+    workflowId: workflow.id,
+    status,
+    trigger: { type: 'manual', firedAt: '2024-01-01T00:00:00.000Z' },
+    startedAt: '2024-01-01T00:00:00.000Z',
+    steps: [],
+  };
+}
+
+describe('workflow runner', () => {
+  it('should persist step progress one write at a time and save the final state last', async () => {
+    await workflowRepository.saveWorkflow(workflow);
+    const saveExecution = workflowRepository.saveExecution.bind(workflowRepository);
+    const saved: string[] = [];
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const spy = vi.spyOn(workflowRepository, 'saveExecution').mockImplementation(async (execution) => {
+      const snapshot = `${execution.status}:${execution.steps?.length ?? 0}`;
+      inFlight += 1;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      inFlight -= 1;
+      saved.push(snapshot);
+      await saveExecution(execution);
+    });
+
+    executeWorkflow.mockImplementationOnce(async (_workflow, options) => {
+      for (let index = 0; index < 5; index++) {
+        options.onStep({ id: `step-${index}`, type: 'notify', status: 'completed', startedAt: '', input: {} });
+      }
+      return { success: true, results: [], transactionHashes: [] };
+    });
+
+    const execution = await startWorkflowExecution(workflow, { type: 'manual' });
+    await vi.waitFor(() => expect(getActiveExecutionIds()).toEqual([]));
+    spy.mockRestore();
+
+    expect(maxInFlight).toBe(1);
+    expect(saved[saved.length - 1]).toBe('completed:5');
+    expect(saved.length).toBeLessThan(7);
+    expect((await workflowRepository.getExecution(execution.id))?.status).toBe('completed');
+  });
+
+  it('should fail executions left running by a previous process', async () => {
+    await workflowRepository.saveWorkflow(workflow);
+    await workflowRepository.saveExecution(createExecution('exec-stale', 'running'));
+    await workflowRepository.saveExecution(createExecution('exec-done', 'completed'));
+
+    const recovered = await recoverExecutions();
+
+    expect(recovered).toEqual({ resumed: 0, interrupted: 1 });
+    expect(await workflowRepository.getExecution('exec-stale')).toMatchObject({
+      status: 'failed',
+      error: 'Workflow execution interrupted by a server restart',
+    });
+    expect((await workflowRepository.getExecution('exec-done'))?.status).toBe('completed');
+  });
+});
@@ -0,0 +1,312 @@
+import { LangChainAgent, WorkflowOrchestrator } from '@celo-automator/langchain-agent';
+import { CeloClient } from '@celo-automator/celo-functions';
+import { generateId, WorkflowError } from '@celo-automator/core';
+import type {
+  ApprovalDecision,
+  ApprovalRequest,
+  WorkflowExecution,
+  WorkflowExecutionTrigger,
+} from '@celo-automator/types';
+import { workflowRepository, type StoredWorkflow } from '../storage/index.js';
+import { approvalManager } from './approvals.js';
+import { getWorkflowSecrets } from './secrets.js';
+import { getExecutionBlocker } from './workflow-controls.js';
+import { deliverNotification } from './webhook.js';
+import { createFeeCurrencySelector } from './fee-currency.js';
+import { createRiskAssessor } from './workflow-risk.js';
+import { createTransactionSimulator } from './workflow-simulator.js';
+import { logger } from '../utils/logger.js';
+
+let celoClient: CeloClient | undefined;
+let agent: LangChainAgent | undefined;
+let orchestrator: WorkflowOrchestrator | undefined;
+
+if (process.env.CELO_PRIVATE_KEY) {
+  try {
+    celoClient = new CeloClient({
+      privateKey: process.env.CELO_PRIVATE_KEY,
+      network: (process.env.CELO_NETWORK as 'alfajores' | 'mainnet') || 'alfajores',
+      rpcUrl: process.env.CELO_RPC_URL,
+    });
+
+    agent = new LangChainAgent({
+      id: 'main',
+      type: 'langchain',
+      name: 'Celo Automator Agent',
+      model: process.env.AI_MODEL || 'gemini-1.5-flash',
+      geminiApiKey: process.env.GEMINI_API_KEY,
+      celoClient,
+    });
+
+    orchestrator = new WorkflowOrchestrator(agent, {
+      notifier: deliverNotification,
+      simulator: createTransactionSimulator(celoClient),
+      approvalGate: awaitApproval,
+      riskAssessor: createRiskAssessor(celoClient),
+      feeCurrencySelector: createFeeCurrencySelector(celoClient, celoClient.getNetworkConfig().network),
+      network: (process.env.CELO_NETWORK as 'alfajores' | 'mainnet') || 'alfajores',
+      maxRepairAttempts: process.env.WORKFLOW_REPAIR_ATTEMPTS ? Number(process.env.WORKFLOW_REPAIR_ATTEMPTS) : undefined,
+    });
+    logger.info('Workflow orchestrator initialized');
+  } catch (error) {
+    logger.error('Failed to initialize workflow orchestrator', { error });
+  }
+}
+
+export function getOrchestrator(): WorkflowOrchestrator | undefined {
+  return orchestrator;
+}
+
+export function getCeloClient(): CeloClient | undefined {
+  return celoClient;
+}
+
+interface ActiveExecution {
+  workflowId: string;
+  controller: AbortController;
+  done: Promise<void>;
+  suspend: () => void;
+  resume: () => void;
+}
+
+const activeExecutions = new Map<string, ActiveExecution>();
+
+const CANCELLED_REASON = new Error('Workflow execution cancelled');
+
+const defaultExecutionTimeoutMs = process.env.WORKFLOW_EXECUTION_TIMEOUT_MS
+  ? Number(process.env.WORKFLOW_EXECUTION_TIMEOUT_MS)
+  : 10 * 60 * 1000;
+
+async function awaitApproval(request: ApprovalRequest): Promise<ApprovalDecision> {
+  const active = request.executionId ? activeExecutions.get(request.executionId) : undefined;
+  active?.suspend();
+  try {
+    return await approvalManager.request(request);
+  } finally {
+    active?.resume();
+  }
+}
+
+export async function startWorkflowExecution(
+  workflow: StoredWorkflow,
+  trigger: Omit<WorkflowExecutionTrigger, 'firedAt'> & { firedAt?: string }
+): Promise<WorkflowExecution> {
+  if (!orchestrator) {
+    throw new Error('Workflow orchestrator not initialized');
+  }
+
+  const blocker = await getExecutionBlocker(workflow.id);
+  if (blocker) {
+    throw new WorkflowError(blocker, workflow.id);
+  }
+
+  const startedAt = new Date().toISOString();
+  const execution: WorkflowExecution = {
+    id: generateId('exec'),
+    workflowId: workflow.id,
+    workflowVersion: workflow.version,
+    status: 'running',
+    trigger: {
+      ...trigger,
+      firedAt: trigger.firedAt ?? startedAt,
+    },
+    startedAt,
+    steps: [],
+  };
+  await workflowRepository.saveExecution(execution);
+
+  runExecution(orchestrator, workflow, execution);
+
+  return { ...execution };
+}
+
+function runExecution(
+  runner: WorkflowOrchestrator,
+  workflow: StoredWorkflow,
+  execution: WorkflowExecution
+): void {
+  const controller = new AbortController();
+  const timeoutMs = workflow.timeoutMs ?? defaultExecutionTimeoutMs;
+  let remainingMs = timeoutMs;
+  let armedAt = 0;
+  let timer: NodeJS.Timeout | undefined;
+
+  const armTimeout = () => {
+    armedAt = Date.now();
+    timer = setTimeout(() => {
+      controller.abort(new Error(`Workflow timed out after ${timeoutMs}ms`));
+    }, remainingMs);
+    timer.unref();
+  };
+  armTimeout();
+
+  let isSettled = false;
+  let isSaveQueued = false;
+  let persisting: Promise<void> = Promise.resolve();
+  const saveProgress = () => {
+    if (isSaveQueued) {
+      return;
+    }
+    isSaveQueued = true;
+    persisting = persisting
+      .then(async () => {
+        isSaveQueued = false;
+        if (!isSettled) {
+          await workflowRepository.saveExecution(execution);
+        }
+      })
+      .catch((error: any) => {
+        logger.error('Failed to persist workflow execution step', { executionId: execution.id, error });
+      });
+  };
+
+  const completedSteps = execution.steps ?? [];
+  const done = runner
+    .executeWorkflow(workflow, {
+      workflowId: workflow.id,
+      executionId: execution.id,
+      trigger: execution.trigger,
+      secrets: getWorkflowSecrets(),
+      completedSteps,
+      signal: controller.signal,
+      onStep: (step) => {
+        const steps = execution.steps ?? [];
+        const index = steps.findIndex((existing) => existing.id === step.id);
+        if (index >= 0) {
+          steps[index] = step;
+        } else {
+          steps.push(step);
+        }
+        execution.steps = steps;
+        saveProgress();
+      },
+    })
+    .then(async (result: any) => {
+      isSettled = true;
+      execution.status = result.success
+        ? 'completed'
+        : result.cancelled && controller.signal.reason === CANCELLED_REASON
+        ? 'cancelled'
+        : 'failed';
+      execution.completedAt = new Date().toISOString();
+      execution.results = result.results;
+      execution.transactionHashes = result.transactionHashes;
+      execution.steps = result.steps ?? execution.steps;
+      if (result.error) {
+        execution.error = result.error;
+      }
+      await persisting;
+      return workflowRepository.saveExecution(execution);
+    })
+    .catch(async (error: any) => {
+      isSettled = true;
+      execution.status = 'failed';
+      execution.completedAt = new Date().toISOString();
+      execution.error = error.message;
+      await persisting;
+      return workflowRepository.saveExecution(execution);
+    })
+    .catch((error: any) => {
+      logger.error('Failed to persist workflow execution', { executionId: execution.id, error });
+    })
+    .finally(() => {
+      clearTimeout(timer);
+      activeExecutions.delete(execution.id);
+    });
+
+  activeExecutions.set(execution.id, {
+    workflowId: workflow.id,
+    controller,
+    done,
+    suspend: () => {
+      clearTimeout(timer);
+      remainingMs = Math.max(remainingMs - (Date.now() - armedAt), 0);
+      execution.status = 'waiting_approval';
+      saveProgress();
+    },
+    resume: () => {
+      if (isSettled || controller.signal.aborted) {
+        return;
+      }
+      execution.status = 'running';
+      saveProgress();
+      armTimeout();
+    },
+  });
+}
+
+async function loadExecutedWorkflow(execution: WorkflowExecution): Promise<StoredWorkflow | undefined> {
+  if (execution.workflowVersion !== undefined) {
+    const version = await workflowRepository.getWorkflowVersion(execution.workflowId, execution.workflowVersion);
+    if (version) {
+      return { ...version.workflow, id: execution.workflowId, version: version.version };
+    }
+  }
+  return workflowRepository.getWorkflow(execution.workflowId);
+}
+
+export async function recoverExecutions(): Promise<{ resumed: number; interrupted: number }> {
+  const executions = (await workflowRepository.listExecutions()).filter(
+    (execution) => !activeExecutions.has(execution.id)
+  );
+
+  const interrupted = executions.filter(
+    (execution) => execution.status === 'running' || execution.status === 'pending'
+  );
+  for (const execution of interrupted) {
+    execution.status = 'failed';
+    execution.completedAt = new Date().toISOString();
+    execution.error = 'Workflow execution interrupted by a server restart';
+    await workflowRepository.saveExecution(execution);
+  }
+
+  if (!orchestrator) {
+    return { resumed: 0, interrupted: interrupted.length };
+  }
+
+  const waiting = executions.filter((execution) => execution.status === 'waiting_approval');
+  for (const execution of waiting) {
+    const workflow = await loadExecutedWorkflow(execution);
+    if (!workflow) {
+      execution.status = 'failed';
+      execution.completedAt = new Date().toISOString();
+      execution.error = 'Workflow no longer exists';
+      await workflowRepository.saveExecution(execution);
+      continue;
+    }
+
+    execution.status = 'running';
+    await workflowRepository.saveExecution(execution);
+    runExecution(orchestrator, workflow, execution);
+  }
+
+  return { resumed: waiting.length, interrupted: interrupted.length };
+}
+
+export function getActiveExecutionIds(workflowId?: string): string[] {
+  return Array.from(activeExecutions.entries())
+    .filter(([, active]) => !workflowId || active.workflowId === workflowId)
+    .map(([executionId]) => executionId);
+}
+
+export async function cancelWorkflowExecution(executionId: string): Promise<WorkflowExecution | undefined> {
+  const active = activeExecutions.get(executionId);
+  if (active) {
+    active.controller.abort(CANCELLED_REASON);
+    await active.done;
+    return workflowRepository.getExecution(executionId);
+  }
+
+  const execution = await workflowRepository.getExecution(executionId);
+  if (
+    execution &&
+    (execution.status === 'running' || execution.status === 'pending' || execution.status === 'waiting_approval')
+  ) {
+    await approvalManager.cancelForExecution(executionId);
+    execution.status = 'cancelled';
+    execution.completedAt = new Date().toISOString();
+    execution.error = CANCELLED_REASON.message;
+    await workflowRepository.saveExecution(execution);
+  }
+  return execution;
+}
@@ -0,0 +1,199 @@
+import {
+  getGasPrice,
+  simulateBatchTransfer,
+  simulateCELOTransfer,
+  simulateContractCall,
+  simulateTokenTransfer,
+  type CeloClient,
+  type SimulationResult,
+} from '@celo-automator/celo-functions';
+import type { TransactionSimulator, WorkflowOrchestrator } from '@celo-automator/langchain-agent';
+import type {
+  SimulatedTransaction,
+  TransactionSimulationOutcome,
+  Workflow,
+  WorkflowExecutionStep,
+} from '@celo-automator/types';
+import type { Address } from 'viem';
+import { getWorkflowSecrets } from './secrets.js';
+import { createRiskAssessor } from './workflow-risk.js';
+
+const NATIVE_TOKEN = 'CELO';
+
+export interface SimulatedStep {
+  stepId: string;
+  type: string;
+  status: WorkflowExecutionStep['status'];
+  gasEstimate?: string;
+  risk?: TransactionSimulationOutcome['risk'];
+  error?: string;
+}
+
+export interface BalanceDelta {
+  address: string;
+  token: string;
+  delta: string;
+}
+
+export interface ConditionalBranch {
+  stepId: string;
+  conditionMet: boolean;
+  value: string;
+}
+
+export interface WorkflowSimulationReport {
+  success: boolean;
+  error?: string;
+  gas: {
+    totalGas: string;
+    gasPrice: string;
+    estimatedCostWei: string;
+  };
+  balanceDeltas: BalanceDelta[];
+  branches: ConditionalBranch[];
+  steps: SimulatedStep[];
+}
+
+async function simulateOnChain(client: CeloClient, transaction: SimulatedTransaction): Promise<SimulationResult> {
+  switch (transaction.kind) {
+    case 'native_transfer':
+      return simulateCELOTransfer(client, transaction.to as Address, transaction.value ?? '0');
+
+    case 'token_transfer':
+      return simulateTokenTransfer(
+        client,
+        transaction.tokenAddress as Address,
+        transaction.to as Address,
+        transaction.value ?? '0'
+      );
+
+    case 'batch_transfer':
+      return simulateBatchTransfer(client, {
+        treasuryAddress: transaction.to as Address,
+        agentId: transaction.agentId ?? '0',
+        tokenAddress: transaction.tokenAddress as Address,
+        recipients: (transaction.transfers ?? []).map((transfer) => transfer.to as Address),
+        amounts: (transaction.transfers ?? []).map((transfer) => transfer.amount),
+      });
+
+    case 'contract_call':
+      if (!transaction.abi) {
+        return { success: false, gasUsed: 0n, error: 'ABI required for contract calls' };
+      }
+      return simulateContractCall(client, {
+        address: transaction.to as Address,
+        abi: transaction.abi,
+        functionName: transaction.functionName ?? '',
+        args: transaction.args,
+      });
+  }
+}
+
+export function createTransactionSimulator(client: CeloClient): TransactionSimulator {
+  const assessRisk = createRiskAssessor(client);
+
+  return async (transaction) => {
+    let simulation: SimulationResult;
+    try {
+      simulation = await simulateOnChain(client, transaction);
+    } catch (error) {
+      simulation = {
+        success: false,
+        gasUsed: 0n,
+        error: error instanceof Error ? error.message : 'Simulation failed',
+      };
+    }
+
+    return {
+      success: simulation.success,
+      gasEstimate: simulation.gasUsed.toString(),
+      error: simulation.error,
+      risk: await assessRisk(transaction),
+    };
+  };
+}
+
+function addDelta(deltas: Map<string, bigint>, address: string, token: string, amount: bigint): void {
+  const key = `${address.toLowerCase()}:${token === NATIVE_TOKEN ? token : token.toLowerCase()}`;
+  deltas.set(key, (deltas.get(key) ?? 0n) + amount);
+}
+
+export async function simulateWorkflowRun(
+  orchestrator: WorkflowOrchestrator,
+  client: CeloClient,
+  workflow: Workflow & { id: string },
+  triggerData: Record<string, any> = {}
+): Promise<WorkflowSimulationReport> {
+  const result = await orchestrator.simulateWorkflow(workflow, {
+    workflowId: workflow.id,
+    trigger: {
+      type: workflow.trigger.type,
+      firedAt: new Date().toISOString(),
+      data: triggerData,
+    },
+    secrets: getWorkflowSecrets(),
+  });
+
+  const sender = client.getWalletClient()?.account?.address;
+  const deltas = new Map<string, bigint>();
+  const branches: ConditionalBranch[] = [];
+  const steps: SimulatedStep[] = [];
+  let totalGas = 0n;
+
+  for (const step of result.steps ?? []) {
+    const output = step.output ?? {};
+    steps.push({
+      stepId: step.id,
+      type: step.type,
+      status: step.status,
+      gasEstimate: output.gasEstimate,
+      risk: output.risk,
+      error: step.error,
+    });
+
+    if (step.type === 'conditional' && output.conditionMet !== undefined) {
+      branches.push({ stepId: step.id, conditionMet: output.conditionMet, value: output.value });
+    }
+
+    const transaction: SimulatedTransaction | undefined = output.simulated ? output.transaction : undefined;
+    if (!transaction || step.status !== 'completed') {
+      continue;
+    }
+
+    totalGas += BigInt(output.gasEstimate ?? '0');
+    const token = transaction.tokenAddress ?? NATIVE_TOKEN;
+    if (transaction.kind === 'batch_transfer') {
+      for (const transfer of transaction.transfers ?? []) {
+        addDelta(deltas, transaction.to, token, -BigInt(transfer.amount));
+        addDelta(deltas, transfer.to, token, BigInt(transfer.amount));
+      }
+    } else if (transaction.kind !== 'contract_call' && sender) {
+      addDelta(deltas, sender, token, -BigInt(transaction.value ?? '0'));
+      addDelta(deltas, transaction.to, token, BigInt(transaction.value ?? '0'));
+    }
+  }
+
+  const gasPrice = totalGas > 0n ? await getGasPrice(client) : 0n;
+  const estimatedCostWei = totalGas * gasPrice;
+  if (sender && estimatedCostWei > 0n) {
+    addDelta(deltas, sender, NATIVE_TOKEN, -estimatedCostWei);
+  }
+
+  return {
+    success: result.success,
+    error: result.error,
+    gas: {
+      totalGas: totalGas.toString(),
+      gasPrice: gasPrice.toString(),
+      estimatedCostWei: estimatedCostWei.toString(),
+    },
+    balanceDeltas: Array.from(deltas.entries())
+      .filter(([, delta]) => delta !== 0n)
+      .map(([key, delta]) => {
+        const [address, token] = key.split(':');
+        return { address, token, delta: delta.toString() };
+      }),
+    branches,
+    steps,
+  };
+}
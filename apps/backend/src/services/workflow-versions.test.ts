@@ -0,0 +1,80 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.hoisted(() => {
+  process.env.WORKFLOW_STORE = 'memory';
+});
+
+import { workflowRepository, type StoredWorkflow } from '../storage/index.js';
+import { commitWorkflowVersion, diffWorkflowVersions, rollbackWorkflow } from './workflow-versions.js';
+
+function createWorkflow(id: string, amount: string): StoredWorkflow {
+  return {
+    id,
+    name: 'Payroll',
+    enabled: true,
+    trigger: { type: 'manual' },
+    actions: [{ type: 'transfer', to: '0x1234567890123456789012345678901234567890', amount }],
+  };
+}
+
+describe('workflow versions', () => {
+  it('should number versions sequentially and store each snapshot', async () => {
+    const first = await commitWorkflowVersion(createWorkflow('wf-versions', '1'), 'create');
+    const second = await commitWorkflowVersion(createWorkflow('wf-versions', '2'), 'update');
+
+    expect(first.version).toBe(1);
+    expect(second.version).toBe(2);
+    expect((await workflowRepository.getWorkflow('wf-versions'))?.version).toBe(2);
+
+    const versions = await workflowRepository.listWorkflowVersions('wf-versions');
+    expect(versions.map((version) => [version.version, version.source])).toEqual([
+      [1, 'create'],
+      [2, 'update'],
+    ]);
+    expect(versions[0].workflow.actions[0].amount).toBe('1');
+  });
+
+  it('should keep the paused state when committing a new version', async () => {
+    await commitWorkflowVersion(createWorkflow('wf-paused', '1'), 'create');
+    const stored = await workflowRepository.getWorkflow('wf-paused');
+    await workflowRepository.saveWorkflow({ ...stored!, pausedAt: '2024-01-01T00:00:00.000Z' });
+
+    const updated = await commitWorkflowVersion(createWorkflow('wf-paused', '5'), 'update');
+
+    expect(updated.pausedAt).toBe('2024-01-01T00:00:00.000Z');
+    const snapshot = await workflowRepository.getWorkflowVersion('wf-paused', 2);
+    expect(snapshot?.workflow).not.toHaveProperty('pausedAt');
+  });
+
+  it('should report structural changes between two versions', async () => {
+    await commitWorkflowVersion(createWorkflow('wf-diff', '1'), 'create');
+    await commitWorkflowVersion({ ...createWorkflow('wf-diff', '3'), description: 'Monthly' }, 'update');
+
+    const diff = await diffWorkflowVersions('wf-diff', 1, 2);
+
+    expect(diff).toEqual({
+      workflowId: 'wf-diff',
+      from: 1,
+      to: 2,
+      changes: [
+        { path: 'actions.0.amount', type: 'changed', before: '1', after: '3' },
+        { path: 'description', type: 'added', after: 'Monthly' },
+      ],
+    });
+    expect(await diffWorkflowVersions('wf-diff', 1, 9)).toBeUndefined();
+  });
+
+  it('should roll back by committing the target snapshot as a new version', async () => {
+    await commitWorkflowVersion(createWorkflow('wf-rollback', '1'), 'create');
+    await commitWorkflowVersion(createWorkflow('wf-rollback', '2'), 'update');
+
+    const restored = await rollbackWorkflow('wf-rollback', 1);
+
+    expect(restored?.version).toBe(3);
+    expect(restored?.actions[0].amount).toBe('1');
+    const latest = await workflowRepository.getWorkflowVersion('wf-rollback', 3);
+    expect(latest?.source).toBe('rollback');
+    expect(latest?.rolledBackFrom).toBe(1);
+    expect(await rollbackWorkflow('wf-rollback', 7)).toBeUndefined();
+  });
+});
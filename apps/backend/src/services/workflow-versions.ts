@@ -0,0 +1,64 @@
+import { diffStructures, type StructuralChange } from '@celo-automator/core';
+import type { WorkflowVersion } from '@celo-automator/types';
+import { workflowRepository, type StoredWorkflow } from '../storage/index.js';
+
+export interface WorkflowVersionDiff {
+  workflowId: string;
+  from: number;
+  to: number;
+  changes: StructuralChange[];
+}
+
+export async function commitWorkflowVersion(
+  workflow: StoredWorkflow,
+  source: WorkflowVersion['source'],
+  rolledBackFrom?: number
+): Promise<StoredWorkflow> {
+  const versions = await workflowRepository.listWorkflowVersions(workflow.id);
+  const version = (versions[versions.length - 1]?.version ?? 0) + 1;
+  const { version: _previous, pausedAt: _pausedAt, ...definition } = workflow;
+  const pausedAt = (await workflowRepository.getWorkflow(workflow.id))?.pausedAt;
+
+  await workflowRepository.saveWorkflowVersion({
+    workflowId: workflow.id,
+    version,
+    workflow: definition,
+    createdAt: new Date().toISOString(),
+    source,
+    ...(rolledBackFrom !== undefined ? { rolledBackFrom } : {}),
+  });
+
+  const stored: StoredWorkflow = { ...definition, version, ...(pausedAt ? { pausedAt } : {}) };
+  await workflowRepository.saveWorkflow(stored);
+  return stored;
+}
+
+export async function rollbackWorkflow(workflowId: string, version: number): Promise<StoredWorkflow | undefined> {
+  const target = await workflowRepository.getWorkflowVersion(workflowId, version);
+  if (!target) {
+    return undefined;
+  }
+
+  return commitWorkflowVersion({ ...target.workflow, id: workflowId }, 'rollback', version);
+}
+
+export async function diffWorkflowVersions(
+  workflowId: string,
+  from: number,
+  to: number
+): Promise<WorkflowVersionDiff | undefined> {
+  const [before, after] = await Promise.all([
+    workflowRepository.getWorkflowVersion(workflowId, from),
+    workflowRepository.getWorkflowVersion(workflowId, to),
+  ]);
+  if (!before || !after) {
+    return undefined;
+  }
+
+  return {
+    workflowId,
+    from,
+    to,
+    changes: diffStructures(before.workflow, after.workflow),
+  };
+}
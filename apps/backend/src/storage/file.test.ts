@@ -0,0 +1,61 @@
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, it, expect } from 'vitest';
+import { FileWorkflowRepository } from './file.js';
+import { CURRENT_SCHEMA_VERSION } from './migrations.js';
+
+describe('FileWorkflowRepository', () => {
+  let directory: string;
+  let filePath: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(join(tmpdir(), 'workflow-store-'));
+    filePath = join(directory, 'store.json');
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('should round-trip workflows, executions and trigger state through the file', async () => {
+    const writer = new FileWorkflowRepository(filePath);
+    await writer.saveWorkflow({ id: 'wf-1', name: 'Payroll', enabled: true, trigger: { type: 'manual' }, actions: [] });
+    await writer.saveExecution({
+      id: 'exec-1',
+      workflowId: 'wf-1',
+      status: 'completed',
+      trigger: { type: 'manual', firedAt: '2024-01-01T00:00:00.000Z' },
+      startedAt: '2024-01-01T00:00:00.000Z',
+    });
+    await writer.saveTriggerState('wf-1', { lastScheduledAt: '2024-01-01T00:00:00.000Z' });
+
+    const reader = new FileWorkflowRepository(filePath);
+
+    expect(await reader.getWorkflow('wf-1')).toMatchObject({ name: 'Payroll' });
+    expect((await reader.listExecutions('wf-1')).map((execution) => execution.id)).toEqual(['exec-1']);
+    expect(await reader.getTriggerState('wf-1')).toEqual({ lastScheduledAt: '2024-01-01T00:00:00.000Z' });
+    expect(JSON.parse(await fs.readFile(filePath, 'utf8')).schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+  });
+
+  it('should migrate a legacy snapshot on load and write it back', async () => {
+    await fs.copyFile(new URL('./fixtures/store-v0.json', import.meta.url), filePath);
+
+    const repository = new FileWorkflowRepository(filePath);
+
+    expect(await repository.getWorkflow('wf-legacy')).toMatchObject({ enabled: true, version: 1 });
+    const written = JSON.parse(await fs.readFile(filePath, 'utf8'));
+    expect(written.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+    expect(Object.keys(written.workflows)).toEqual(['wf-legacy']);
+  });
+
+  it('should retry loading after a failed read', async () => {
+    await fs.writeFile(filePath, '{ not json');
+    const repository = new FileWorkflowRepository(filePath);
+
+    await expect(repository.listWorkflows()).rejects.toThrow(SyntaxError);
+
+    await fs.copyFile(new URL('./fixtures/store-v3.json', import.meta.url), filePath);
+    expect((await repository.listWorkflows()).map((workflow) => workflow.id)).toEqual(['wf-versioned']);
+  });
+});
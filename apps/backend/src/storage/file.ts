@@ -0,0 +1,212 @@
+import { promises as fs } from 'fs';
+import { dirname } from 'path';
+import type { WorkflowApproval, WorkflowExecution, WorkflowVersion } from '@celo-automator/types';
+import { InMemoryWorkflowRepository } from './memory.js';
+import { CURRENT_SCHEMA_VERSION, migrateSnapshot } from './migrations.js';
+import type {
+  ApprovalFilter,
+  KillSwitchState,
+  StoredWorkflow,
+  TrackedTransaction,
+  TrackedTransactionStatus,
+  TriggerState,
+  WorkflowStoreSnapshot,
+} from './types.js';
+import { logger } from '../utils/logger.js';
+
+export class FileWorkflowRepository extends InMemoryWorkflowRepository {
+  private readonly filePath: string;
+  private loading?: Promise<void>;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(filePath: string) {
+    super();
+    this.filePath = filePath;
+  }
+
+  async listWorkflows(): Promise<StoredWorkflow[]> {
+    await this.load();
+    return super.listWorkflows();
+  }
+
+  async getWorkflow(id: string): Promise<StoredWorkflow | undefined> {
+    await this.load();
+    return super.getWorkflow(id);
+  }
+
+  async hasWorkflow(id: string): Promise<boolean> {
+    await this.load();
+    return super.hasWorkflow(id);
+  }
+
+  async saveWorkflow(workflow: StoredWorkflow): Promise<void> {
+    await this.load();
+    await super.saveWorkflow(workflow);
+    await this.persist();
+  }
+
+  async deleteWorkflow(id: string): Promise<boolean> {
+    await this.load();
+    const deleted = await super.deleteWorkflow(id);
+    if (deleted) {
+      await this.persist();
+    }
+    return deleted;
+  }
+
+  async listWorkflowVersions(workflowId: string): Promise<WorkflowVersion[]> {
+    await this.load();
+    return super.listWorkflowVersions(workflowId);
+  }
+
+  async getWorkflowVersion(workflowId: string, version: number): Promise<WorkflowVersion | undefined> {
+    await this.load();
+    return super.getWorkflowVersion(workflowId, version);
+  }
+
+  async saveWorkflowVersion(version: WorkflowVersion): Promise<void> {
+    await this.load();
+    await super.saveWorkflowVersion(version);
+    await this.persist();
+  }
+
+  async listExecutions(workflowId?: string): Promise<WorkflowExecution[]> {
+    await this.load();
+    return super.listExecutions(workflowId);
+  }
+
+  async getExecution(id: string): Promise<WorkflowExecution | undefined> {
+    await this.load();
+    return super.getExecution(id);
+  }
+
+  async saveExecution(execution: WorkflowExecution): Promise<void> {
+    await this.load();
+    await super.saveExecution(execution);
+    await this.persist();
+  }
+
+  async listApprovals(filter?: ApprovalFilter): Promise<WorkflowApproval[]> {
+    await this.load();
+    return super.listApprovals(filter);
+  }
+
+  async getApproval(id: string): Promise<WorkflowApproval | undefined> {
+    await this.load();
+    return super.getApproval(id);
+  }
+
+  async saveApproval(approval: WorkflowApproval): Promise<void> {
+    await this.load();
+    await super.saveApproval(approval);
+    await this.persist();
+  }
+
+  async getTriggerState(workflowId: string): Promise<TriggerState | undefined> {
+    await this.load();
+    return super.getTriggerState(workflowId);
+  }
+
+  async saveTriggerState(workflowId: string, state: TriggerState): Promise<void> {
+    await this.load();
+    await super.saveTriggerState(workflowId, state);
+    await this.persist();
+  }
+
+  async getKillSwitch(): Promise<KillSwitchState> {
+    await this.load();
+    return super.getKillSwitch();
+  }
+
+  async saveKillSwitch(state: KillSwitchState): Promise<void> {
+    await this.load();
+    await super.saveKillSwitch(state);
+    await this.persist();
+  }
+
+  async listTransactions(status?: TrackedTransactionStatus): Promise<TrackedTransaction[]> {
+    await this.load();
+    return super.listTransactions(status);
+  }
+
+  async getTransaction(hash: string): Promise<TrackedTransaction | undefined> {
+    await this.load();
+    return super.getTransaction(hash);
+  }
+
+  async saveTransaction(transaction: TrackedTransaction): Promise<void> {
+    await this.load();
+    await super.saveTransaction(transaction);
+    await this.persist();
+  }
+
+  protected load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.readSnapshot().catch((error) => {
+        this.loading = undefined;
+        throw error;
+      });
+    }
+    return this.loading;
+  }
+
+  protected async persist(): Promise<void> {
+    const snapshot = this.toSnapshot();
+    const write = this.writeQueue.then(() => this.writeSnapshot(snapshot));
+    this.writeQueue = write.catch(() => undefined);
+    return write;
+  }
+
+  protected toSnapshot(): WorkflowStoreSnapshot {
+    return {
+      schemaVersion: CURRENT_SCHEMA_VERSION,
+      workflows: Object.fromEntries(this.workflows),
+      executions: Object.fromEntries(this.executions),
+      workflowVersions: Object.fromEntries(this.workflowVersions),
+      approvals: Object.fromEntries(this.approvals),
+      triggerState: Object.fromEntries(this.triggerState),
+      killSwitch: this.killSwitch,
+      transactions: Object.fromEntries(this.transactions),
+    };
+  }
+
+  protected applySnapshot(snapshot: WorkflowStoreSnapshot): void {
+    this.workflows = new Map(Object.entries(snapshot.workflows));
+    this.executions = new Map(Object.entries(snapshot.executions));
+    this.workflowVersions = new Map(Object.entries(snapshot.workflowVersions));
+    this.approvals = new Map(Object.entries(snapshot.approvals));
+    this.triggerState = new Map(Object.entries(snapshot.triggerState));
+    this.killSwitch = snapshot.killSwitch;
+    this.transactions = new Map(Object.entries(snapshot.transactions));
+  }
+
+  private async readSnapshot(): Promise<void> {
+    let raw: string;
+    try {
+      raw = await fs.readFile(this.filePath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return;
+      }
+      throw error;
+    }
+
+    const { snapshot, migrated } = migrateSnapshot(JSON.parse(raw));
+    this.applySnapshot(snapshot);
+
+    if (migrated) {
+      logger.info('Workflow store migrated', {
+        path: this.filePath,
+        schemaVersion: snapshot.schemaVersion,
+      });
+      await this.persist();
+    }
+  }
+
+  private async writeSnapshot(snapshot: WorkflowStoreSnapshot): Promise<void> {
+    await fs.mkdir(dirname(this.filePath), { recursive: true });
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(snapshot, null, 2));
+    await fs.rename(tempPath, this.filePath);
+  }
+}
@@ -0,0 +1,31 @@
+import { resolve } from 'path';
+import { FileWorkflowRepository } from './file.js';
+import { InMemoryWorkflowRepository } from './memory.js';
+import type { WorkflowRepository } from './types.js';
+
+export * from './types.js';
+export * from './memory.js';
+export * from './file.js';
+export * from './migrations.js';
+
+export type WorkflowStoreDriver = 'file' | 'memory';
+
+export function createWorkflowRepository(options?: {
+  driver?: WorkflowStoreDriver;
+  path?: string;
+}): WorkflowRepository {
+  const driver = options?.driver ?? (process.env.WORKFLOW_STORE as WorkflowStoreDriver | undefined) ?? 'file';
+
+  switch (driver) {
+    case 'memory':
+      return new InMemoryWorkflowRepository();
+    case 'file':
+      return new FileWorkflowRepository(
+        resolve(options?.path ?? process.env.WORKFLOW_STORE_PATH ?? './data/workflows.json')
+      );
+    default:
+      throw new Error(`Unsupported workflow store driver: ${driver}`);
+  }
+}
+
+export const workflowRepository: WorkflowRepository = createWorkflowRepository();
@@ -0,0 +1,126 @@
+import type { WorkflowApproval, WorkflowExecution, WorkflowVersion } from '@celo-automator/types';
+import type {
+  ApprovalFilter,
+  KillSwitchState,
+  StoredWorkflow,
+  TrackedTransaction,
+  TrackedTransactionStatus,
+  TriggerState,
+  WorkflowRepository,
+} from './types.js';
+
+export class InMemoryWorkflowRepository implements WorkflowRepository {
+  protected workflows = new Map<string, StoredWorkflow>();
+  protected executions = new Map<string, WorkflowExecution>();
+  protected workflowVersions = new Map<string, WorkflowVersion[]>();
+  protected approvals = new Map<string, WorkflowApproval>();
+  protected triggerState = new Map<string, TriggerState>();
+  protected killSwitch: KillSwitchState = { engaged: false };
+  protected transactions = new Map<string, TrackedTransaction>();
+
+  async listWorkflows(): Promise<StoredWorkflow[]> {
+    return Array.from(this.workflows.values()).map((workflow) => structuredClone(workflow));
+  }
+
+  async getWorkflow(id: string): Promise<StoredWorkflow | undefined> {
+    const workflow = this.workflows.get(id);
+    return workflow ? structuredClone(workflow) : undefined;
+  }
+
+  async hasWorkflow(id: string): Promise<boolean> {
+    return this.workflows.has(id);
+  }
+
+  async saveWorkflow(workflow: StoredWorkflow): Promise<void> {
+    this.workflows.set(workflow.id, structuredClone(workflow));
+  }
+
+  async deleteWorkflow(id: string): Promise<boolean> {
+    this.triggerState.delete(id);
+    this.workflowVersions.delete(id);
+    return this.workflows.delete(id);
+  }
+
+  async listWorkflowVersions(workflowId: string): Promise<WorkflowVersion[]> {
+    return (this.workflowVersions.get(workflowId) ?? []).map((version) => structuredClone(version));
+  }
+
+  async getWorkflowVersion(workflowId: string, version: number): Promise<WorkflowVersion | undefined> {
+    const entry = this.workflowVersions.get(workflowId)?.find((candidate) => candidate.version === version);
+    return entry ? structuredClone(entry) : undefined;
+  }
+
+  async saveWorkflowVersion(version: WorkflowVersion): Promise<void> {
+    const versions = this.workflowVersions.get(version.workflowId) ?? [];
+    if (versions.some((existing) => existing.version === version.version)) {
+      throw new Error(`Workflow ${version.workflowId} already has version ${version.version}`);
+    }
+    this.workflowVersions.set(
+      version.workflowId,
+      [...versions, structuredClone(version)].sort((a, b) => a.version - b.version)
+    );
+  }
+
+  async listExecutions(workflowId?: string): Promise<WorkflowExecution[]> {
+    return Array.from(this.executions.values())
+      .filter((execution) => !workflowId || execution.workflowId === workflowId)
+      .map((execution) => structuredClone(execution));
+  }
+
+  async getExecution(id: string): Promise<WorkflowExecution | undefined> {
+    const execution = this.executions.get(id);
+    return execution ? structuredClone(execution) : undefined;
+  }
+
+  async saveExecution(execution: WorkflowExecution): Promise<void> {
+    this.executions.set(execution.id, structuredClone(execution));
+  }
+
+  async listApprovals(filter: ApprovalFilter = {}): Promise<WorkflowApproval[]> {
+    return Array.from(this.approvals.values())
+      .filter((approval) => !filter.status || approval.status === filter.status)
+      .filter((approval) => !filter.executionId || approval.executionId === filter.executionId)
+      .map((approval) => structuredClone(approval));
+  }
+
+  async getApproval(id: string): Promise<WorkflowApproval | undefined> {
+    const approval = this.approvals.get(id);
+    return approval ? structuredClone(approval) : undefined;
+  }
+
+  async saveApproval(approval: WorkflowApproval): Promise<void> {
+    this.approvals.set(approval.id, structuredClone(approval));
+  }
+
+  async getTriggerState(workflowId: string): Promise<TriggerState | undefined> {
+    const state = this.triggerState.get(workflowId);
+    return state ? structuredClone(state) : undefined;
+  }
+
+  async saveTriggerState(workflowId: string, state: TriggerState): Promise<void> {
+    this.triggerState.set(workflowId, structuredClone(state));
+  }
+
+  async getKillSwitch(): Promise<KillSwitchState> {
+    return structuredClone(this.killSwitch);
+  }
+
+  async saveKillSwitch(state: KillSwitchState): Promise<void> {
+    this.killSwitch = structuredClone(state);
+  }
+
+  async listTransactions(status?: TrackedTransactionStatus): Promise<TrackedTransaction[]> {
+    return Array.from(this.transactions.values())
+      .filter((transaction) => !status || transaction.status === status)
+      .map((transaction) => structuredClone(transaction));
+  }
+
+  async getTransaction(hash: string): Promise<TrackedTransaction | undefined> {
+    const transaction = this.transactions.get(hash.toLowerCase());
+    return transaction ? structuredClone(transaction) : undefined;
+  }
+
+  async saveTransaction(transaction: TrackedTransaction): Promise<void> {
+    this.transactions.set(transaction.hash.toLowerCase(), structuredClone(transaction));
+  }
+}
@@ -0,0 +1,53 @@
+import { readFileSync } from 'fs';
+import { describe, it, expect } from 'vitest';
+import { CURRENT_SCHEMA_VERSION, migrateSnapshot } from './migrations.js';
+
+function fixture(name: string): Record<string, any> {
+  return JSON.parse(readFileSync(new URL(`./fixtures/${name}`, import.meta.url), 'utf8'));
+}
+
+describe('store migrations', () => {
+  it('should migrate an unversioned snapshot through every schema version', () => {
+    const { snapshot, migrated } = migrateSnapshot(fixture('store-v0.json'));
+
+    expect(migrated).toBe(true);
+    expect(snapshot.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+    expect(Object.keys(snapshot.workflows)).toEqual(['wf-legacy']);
+    expect(snapshot.workflows['wf-legacy']).toMatchObject({ id: 'wf-legacy', enabled: true, version: 1 });
+    expect(snapshot.executions['exec-legacy']).toMatchObject({
+      status: 'failed',
+      startedAt: new Date(0).toISOString(),
+      transactionHashes: [],
+    });
+    expect(snapshot.workflowVersions['wf-legacy']).toEqual([
+      expect.objectContaining({ workflowId: 'wf-legacy', version: 1, source: 'create' }),
+    ]);
+    expect(snapshot.workflowVersions['wf-legacy'][0].workflow).not.toHaveProperty('version');
+    expect(snapshot).toMatchObject({
+      triggerState: {},
+      approvals: {},
+      killSwitch: { engaged: false },
+      transactions: {},
+    });
+  });
+
+  it('should only apply migrations newer than the stored schema version', () => {
+    const raw = fixture('store-v3.json');
+    const { snapshot, migrated } = migrateSnapshot(raw);
+
+    expect(migrated).toBe(true);
+    expect(snapshot.workflows).toEqual(raw.workflows);
+    expect(snapshot.workflowVersions).toEqual(raw.workflowVersions);
+    expect(snapshot.triggerState).toEqual(raw.triggerState);
+    expect(snapshot).toMatchObject({ approvals: {}, killSwitch: { engaged: false }, transactions: {} });
+  });
+
+  it('should leave current snapshots alone and refuse newer ones', () => {
+    const current = migrateSnapshot(migrateSnapshot(fixture('store-v3.json')).snapshot);
+    expect(current.migrated).toBe(false);
+
+    expect(() => migrateSnapshot({ schemaVersion: CURRENT_SCHEMA_VERSION + 1 })).toThrow(
+      `Workflow store schema version ${CURRENT_SCHEMA_VERSION + 1} is newer than supported version ${CURRENT_SCHEMA_VERSION}`
+    );
+  });
+});
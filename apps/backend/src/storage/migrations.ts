@@ -0,0 +1,138 @@
+import type { WorkflowStoreSnapshot } from './types.js';
+
+export interface StoreMigration {
+  version: number;
+  description: string;
+  migrate(data: Record<string, any>): Record<string, any>;
+}
+
+function toRecord(value: unknown): Record<string, any> {
+  if (Array.isArray(value)) {
+    return Object.fromEntries(
+      value
+        .filter((item) => item && typeof item === 'object' && typeof item.id === 'string')
+        .map((item) => [item.id, item])
+    );
+  }
+  if (value && typeof value === 'object') {
+    return value as Record<string, any>;
+  }
+  return {};
+}
+
+export const storeMigrations: StoreMigration[] = [
+  {
+    version: 1,
+    description: 'Key workflows and executions by id and fill Workflow/WorkflowExecution defaults',
+    migrate(data) {
+      const workflows = toRecord(data.workflows);
+      const executions = toRecord(data.executions);
+
+      for (const [id, workflow] of Object.entries(workflows)) {
+        workflows[id] = {
+          ...workflow,
+          id,
+          enabled: workflow.enabled ?? true,
+          actions: Array.isArray(workflow.actions) ? workflow.actions : [],
+        };
+      }
+
+      for (const [id, execution] of Object.entries(executions)) {
+        executions[id] = {
+          ...execution,
+          id,
+          status: execution.status ?? 'failed',
+          startedAt: execution.startedAt ?? new Date(0).toISOString(),
+          transactionHashes: execution.transactionHashes ?? [],
+        };
+      }
+
+      return { ...data, workflows, executions };
+    },
+  },
+  {
+    version: 2,
+    description: 'Add per-workflow trigger state for schedulers and event cursors',
+    migrate(data) {
+      return { ...data, triggerState: toRecord(data.triggerState) };
+    },
+  },
+  {
+    version: 3,
+    description: 'Record an initial immutable version for every stored workflow',
+    migrate(data) {
+      const workflows = toRecord(data.workflows);
+      const workflowVersions = toRecord(data.workflowVersions);
+      const createdAt = new Date().toISOString();
+
+      for (const [id, workflow] of Object.entries(workflows)) {
+        if (Array.isArray(workflowVersions[id]) && workflowVersions[id].length > 0) {
+          continue;
+        }
+        const { version: _version, ...definition } = workflow;
+        workflows[id] = { ...workflow, version: 1 };
+        workflowVersions[id] = [{ workflowId: id, version: 1, workflow: definition, createdAt, source: 'create' }];
+      }
+
+      return { ...data, workflows, workflowVersions };
+    },
+  },
+  {
+    version: 4,
+    description: 'Persist human approval requests for suspended executions',
+    migrate(data) {
+      return { ...data, approvals: toRecord(data.approvals) };
+    },
+  },
+  {
+    version: 5,
+    description: 'Persist the global workflow kill switch',
+    migrate(data) {
+      return { ...data, killSwitch: data.killSwitch ?? { engaged: false } };
+    },
+  },
+  {
+    version: 6,
+    description: 'Track broadcast transactions through confirmation',
+    migrate(data) {
+      return { ...data, transactions: toRecord(data.transactions) };
+    },
+  },
+];
+
+export const CURRENT_SCHEMA_VERSION = storeMigrations[storeMigrations.length - 1].version;
+
+export function migrateSnapshot(raw: Record<string, any>): {
+  snapshot: WorkflowStoreSnapshot;
+  migrated: boolean;
+} {
+  const startVersion = typeof raw.schemaVersion === 'number' ? raw.schemaVersion : 0;
+
+  if (startVersion > CURRENT_SCHEMA_VERSION) {
+    throw new Error(
+      `Workflow store schema version ${startVersion} is newer than supported version ${CURRENT_SCHEMA_VERSION}`
+    );
+  }
+
+  let data = raw;
+  for (const migration of storeMigrations) {
+    if (migration.version > startVersion) {
+      data = { ...migration.migrate(data), schemaVersion: migration.version };
+    }
+  }
+
+  return {
+    snapshot: {
+      ...data,
+      schemaVersion: CURRENT_SCHEMA_VERSION,
+      workflows: data.workflows ?? {},
+      executions: data.executions ?? {},
+      workflowVersions: data.workflowVersions ?? {},
+      approvals: data.approvals ?? {},
+      triggerState: data.triggerState ?? {},
+      killSwitch: data.killSwitch ?? { engaged: false },
+      transactions: data.transactions ?? {},
+    } as WorkflowStoreSnapshot,
+    migrated: startVersion !== CURRENT_SCHEMA_VERSION,
+  };
+}
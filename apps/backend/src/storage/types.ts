@@ -0,0 +1,90 @@
+import type {
+  Workflow,
+  WorkflowApproval,
+  WorkflowExecution,
+  WorkflowVersion,
+} from '@celo-automator/types';
+
+export type StoredWorkflow = Workflow & { id: string; version?: number; pausedAt?: string };
+
+export type TriggerState = Record<string, any>;
+
+export interface KillSwitchState {
+  engaged: boolean;
+  reason?: string;
+  engagedAt?: string;
+  engagedBy?: string;
+}
+
+export type TrackedTransactionStatus = 'pending' | 'confirmed' | 'failed' | 'dropped' | 'replaced';
+
+export interface TrackedTransaction {
+  hash: string;
+  status: TrackedTransactionStatus;
+  from: string;
+  to: string;
+  value: string;
+  data?: string;
+  nonce: number;
+  chainId: number;
+  gasLimit: string;
+  gasPrice?: string;
+  maxFeePerGas?: string;
+  maxPriorityFeePerGas?: string;
+  feeCurrency?: string;
+  agentId?: string;
+  memo?: string;
+  metadata?: Record<string, unknown>;
+  riskScore?: number;
+  requiresApproval?: boolean;
+  blockNumber?: string;
+  gasUsed?: string;
+  effectiveGasPrice?: string;
+  submittedBlock?: string;
+  replaces?: string;
+  replacedBy?: string;
+  replacement?: 'speedup' | 'cancel';
+  createdAt: string;
+  updatedAt: string;
+  history: Array<{ status: TrackedTransactionStatus; at: string; detail?: string }>;
+}
+
+export interface ApprovalFilter {
+  status?: WorkflowApproval['status'];
+  executionId?: string;
+}
+
+export interface WorkflowRepository {
+  listWorkflows(): Promise<StoredWorkflow[]>;
+  getWorkflow(id: string): Promise<StoredWorkflow | undefined>;
+  hasWorkflow(id: string): Promise<boolean>;
+  saveWorkflow(workflow: StoredWorkflow): Promise<void>;
+  deleteWorkflow(id: string): Promise<boolean>;
+  listWorkflowVersions(workflowId: string): Promise<WorkflowVersion[]>;
+  getWorkflowVersion(workflowId: string, version: number): Promise<WorkflowVersion | undefined>;
+  saveWorkflowVersion(version: WorkflowVersion): Promise<void>;
+  listExecutions(workflowId?: string): Promise<WorkflowExecution[]>;
+  getExecution(id: string): Promise<WorkflowExecution | undefined>;
+  saveExecution(execution: WorkflowExecution): Promise<void>;
+  listApprovals(filter?: ApprovalFilter): Promise<WorkflowApproval[]>;
+  getApproval(id: string): Promise<WorkflowApproval | undefined>;
+  saveApproval(approval: WorkflowApproval): Promise<void>;
+  getTriggerState(workflowId: string): Promise<TriggerState | undefined>;
+  saveTriggerState(workflowId: string, state: TriggerState): Promise<void>;
+  getKillSwitch(): Promise<KillSwitchState>;
+  saveKillSwitch(state: KillSwitchState): Promise<void>;
+  listTransactions(status?: TrackedTransactionStatus): Promise<TrackedTransaction[]>;
+  getTransaction(hash: string): Promise<TrackedTransaction | undefined>;
+  saveTransaction(transaction: TrackedTransaction): Promise<void>;
+}
+
+export interface WorkflowStoreSnapshot {
+  schemaVersion: number;
+  workflows: Record<string, StoredWorkflow>;
+  executions: Record<string, WorkflowExecution>;
+  workflowVersions: Record<string, WorkflowVersion[]>;
+  approvals: Record<string, WorkflowApproval>;
+  triggerState: Record<string, TriggerState>;
+  killSwitch: KillSwitchState;
+  transactions: Record<string, TrackedTransaction>;
+}
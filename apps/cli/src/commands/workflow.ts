@@ -110,7 +110,7 @@ async function createWorkflow(apiUrl: string) {
 async function listWorkflows(apiUrl: string) {
   try {
     const response = await axios.get(`${apiUrl}/api/workflows`);
-    const workflows = response.data.workflows || [];
+    const workflows = response.data.items || [];
 
     if (workflows.length === 0) {
       console.log(chalk.yellow('No workflows found'));
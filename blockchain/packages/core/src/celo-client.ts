@@ -11,6 +11,7 @@ import {
 } from "viem";
 import { celo, celoAlfajores } from "viem/chains";
 import { CeloNetworkConfig, Transaction, TokenTransfer, Event, TransactionRequest, TransactionReceipt, SimulationResult } from "./types";
+import { nonceManager, type NonceAccount } from "./nonce-manager";
 
 const CELO_CHAINS = {
   alfajores: celoAlfajores,
@@ -135,24 +136,31 @@ export class CeloClient {
   }
 
   async sendNativeToken(to: Address, amount: bigint): Promise<Hash> {
-    return await this.walletClient.sendTransaction({
-      to,
-      value: amount,
-      account: await this.walletClient.getAddresses().then(addrs => addrs[0]),
-      chain: this.chain
-    });
+    return await this.withNonce((account, nonce) =>
+      this.walletClient.sendTransaction({
+        to,
+        value: amount,
+        account,
+        nonce,
+        chain: this.chain
+      })
+    );
   }
 
   async sendTransaction(request: TransactionRequest): Promise<Hash> {
-    return await this.walletClient.sendTransaction({
-      to: request.to,
-      value: request.value,
-      data: request.data,
-      gas: request.gasLimit,
-      gasPrice: request.gasPrice,
-      account: await this.walletClient.getAddresses().then(addrs => addrs[0]),
-      chain: this.chain
-    });
+    return await this.withNonce((account, nonce) =>
+      this.walletClient.sendTransaction({
+        to: request.to,
+        value: request.value,
+        data: request.data,
+        gas: request.gasLimit,
+        gasPrice: request.gasPrice,
+        ...(request.feeCurrency ? { feeCurrency: request.feeCurrency } : {}),
+        account,
+        nonce,
+        chain: this.chain
+      })
+    );
   }
 
   async sendToken(token: Address, to: Address, amount: bigint): Promise<Hash> {
@@ -160,25 +168,28 @@ export class CeloClient {
       return await this.sendNativeToken(to, amount);
     }
 
-    return await this.walletClient.writeContract({
-      address: token,
-      abi: [
-        {
-          name: "transfer",
-          type: "function",
-          stateMutability: "nonpayable",
-          inputs: [
-            { name: "to", type: "address" },
-            { name: "amount", type: "uint256" }
-          ],
-          outputs: [{ name: "success", type: "bool" }]
-        }
-      ],
-      functionName: "transfer",
-      args: [to, amount],
-      chain: this.chain,
-      account: await this.walletClient.getAddresses().then(addrs => addrs[0])
-    });
+    return await this.withNonce((account, nonce) =>
+      this.walletClient.writeContract({
+        address: token,
+        abi: [
+          {
+            name: "transfer",
+            type: "function",
+            stateMutability: "nonpayable",
+            inputs: [
+              { name: "to", type: "address" },
+              { name: "amount", type: "uint256" }
+            ],
+            outputs: [{ name: "success", type: "bool" }]
+          }
+        ],
+        functionName: "transfer",
+        args: [to, amount],
+        chain: this.chain,
+        account,
+        nonce
+      })
+    );
   }
 
   async getTransactionHistory(
@@ -279,15 +290,37 @@ export class CeloClient {
     args?: any[],
     value?: bigint
   ): Promise<Hash> {
-    return await this.walletClient.writeContract({
-      address,
-      abi,
-      functionName,
-      args: args || [],
-      value,
-      chain: this.chain,
-      account: await this.walletClient.getAddresses().then(addrs => addrs[0])
-    });
+    return await this.withNonce((account, nonce) =>
+      this.walletClient.writeContract({
+        address,
+        abi,
+        functionName,
+        args: args || [],
+        value,
+        chain: this.chain,
+        account,
+        nonce
+      })
+    );
+  }
+
+  async resyncNonce(): Promise<number> {
+    return await nonceManager.resync(await this.getNonceAccount());
+  }
+
+  async releaseNonce(nonce: number): Promise<void> {
+    const { chainId, address } = await this.getNonceAccount();
+    nonceManager.releaseNonce(chainId, address, nonce);
+  }
+
+  private async getNonceAccount(): Promise<NonceAccount> {
+    const address = await this.walletClient.getAddresses().then(addrs => addrs[0]);
+    return { chainId: this.chain.id, address, source: this.publicClient };
+  }
+
+  private async withNonce(send: (account: Address, nonce: number) => Promise<Hash>): Promise<Hash> {
+    const account = await this.getNonceAccount();
+    return await nonceManager.withNonce(account, nonce => send(account.address, nonce));
   }
 
   async registerAgent(
@@ -383,12 +416,7 @@ export class CeloClient {
 
   async depositToTreasury(token: Address, amount: bigint): Promise<Hash> {
     if (token === this.network.tokens.CELO) {
-      return await this.walletClient.sendTransaction({
-        to: this.network.contracts.agentTreasury,
-        value: amount,
-        account: await this.walletClient.getAddresses().then(addrs => addrs[0]),
-        chain: this.chain
-      });
+      return await this.sendNativeToken(this.network.contracts.agentTreasury, amount);
     } else {
       await this.writeContract(
         token,
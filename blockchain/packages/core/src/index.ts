@@ -8,6 +8,7 @@ export { SecureTransactionManager } from "./secure-transaction-manager";
 export { abiRegistry } from "./abi-registry";
 export { chainHealthMonitor } from "./chain-health";
 export { gasOptimizer } from "./gas-optimizer";
+export { nonceManager, NonceManager, isNonceError } from "./nonce-manager";
 
 export * from "./functions";
 
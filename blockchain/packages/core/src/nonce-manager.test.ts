@@ -0,0 +1,97 @@
+import { describe, expect, it, jest } from "@jest/globals";
+import { Address } from "viem";
+import { NonceManager, isNonceError } from "./nonce-manager";
+
+const address: Address = "0x1234567890123456789012345678901234567890";
+
+function createAccount(pendingCount: number | (() => number), chainId = 44787) {
+  const getTransactionCount = jest.fn(async () => (typeof pendingCount === "function" ? pendingCount() : pendingCount));
+  return { chainId, address, source: { getTransactionCount } };
+}
+
+describe("NonceManager", () => {
+  it("should sync from the pending nonce and hand out consecutive nonces to concurrent sends", async () => {
+    const manager = new NonceManager();
+    const account = createAccount(5);
+    const order: number[] = [];
+
+    const nonces = await Promise.all(
+      [30, 0, 10].map(delay =>
+        manager.withNonce(account, async nonce => {
+          await new Promise(resolve => setTimeout(resolve, delay));
+          order.push(nonce);
+          return nonce;
+        })
+      )
+    );
+
+    expect(nonces).toEqual([5, 6, 7]);
+    expect(order).toEqual([5, 6, 7]);
+    expect(account.source.getTransactionCount).toHaveBeenCalledTimes(1);
+    expect(account.source.getTransactionCount).toHaveBeenCalledWith({ address, blockTag: "pending" });
+  });
+
+  it("should resync after the node rejects a nonce", async () => {
+    const manager = new NonceManager();
+    let pending = 3;
+    const account = createAccount(() => pending);
+
+    await manager.withNonce(account, async nonce => nonce);
+    pending = 9;
+    await expect(
+      manager.withNonce(account, async () => {
+        throw new Error("nonce too low: next nonce 9, tx nonce 4");
+      })
+    ).rejects.toThrow("nonce too low");
+
+    expect(await manager.withNonce(account, async nonce => nonce)).toBe(9);
+  });
+
+  it("should resync from the pending nonce on request", async () => {
+    const manager = new NonceManager();
+    let pending = 4;
+    const account = createAccount(() => pending);
+
+    expect(await manager.withNonce(account, async nonce => nonce)).toBe(4);
+    pending = 8;
+
+    expect(await manager.resync(account)).toBe(8);
+    expect(await manager.withNonce(account, async nonce => nonce)).toBe(8);
+  });
+
+  it("should refill the gap left by a dropped transaction", async () => {
+    const manager = new NonceManager();
+    let pending = 0;
+    const account = createAccount(() => pending);
+
+    for (let i = 0; i < 3; i++) {
+      await manager.withNonce(account, async nonce => nonce);
+    }
+    expect(manager.peek(44787, address)).toBe(3);
+
+    manager.releaseNonce(44787, address, 5);
+    expect(manager.peek(44787, address)).toBe(3);
+
+    pending = 1;
+    manager.releaseNonce(44787, address, 1);
+
+    expect(await manager.withNonce(account, async nonce => nonce)).toBe(1);
+  });
+
+  it("should reject explicit nonces that would leave a gap", async () => {
+    const manager = new NonceManager();
+    const account = createAccount(0);
+    const send = jest.fn(async (nonce: number) => nonce);
+
+    await expect(manager.withNonce(account, send, 12)).rejects.toThrow(
+      "Nonce 12 would leave a gap after pending nonce 0"
+    );
+    expect(send).not.toHaveBeenCalled();
+    expect(await manager.withNonce(account, send)).toBe(0);
+  });
+
+  it("should recognise nonce errors", () => {
+    expect(isNonceError(new Error("replacement transaction underpriced"))).toBe(true);
+    expect(isNonceError(new Error("execution reverted"))).toBe(false);
+  });
+});
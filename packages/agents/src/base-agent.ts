@@ -63,6 +63,7 @@ export abstract class BaseAgent implements SpecializedAgent {
         evaluations: riskSummary.evaluations,
       },
       recommendations: riskSummary.recommendations,
+      provider: response.response_metadata?.provider as string | undefined,
       telemetry: {
         timestamp: new Date().toISOString(),
       },
@@ -31,6 +31,7 @@ export interface AgentResponse {
     evaluations: ValidationResult[];
   };
   recommendations: string[];
+  provider?: string;
   telemetry?: Record<string, unknown>;
 }
 
@@ -2,11 +2,14 @@ import {
   createPublicClient,
   createWalletClient,
   http,
+  type Address,
   PublicClient,
   WalletClient,
 } from 'viem';
 import { privateKeyToAccount } from 'viem/accounts';
 import { celo, celoAlfajores } from 'viem/chains';
+import type { TransactionRequest } from '@celo-automator/types';
+import { nonceManager, type NonceAccount } from './nonce-manager.js';
 
 const CELO_CHAINS = {
   alfajores: celoAlfajores,
@@ -17,6 +20,7 @@ export interface CeloClientConfig {
   privateKey?: string;
   network: 'alfajores' | 'mainnet';
   rpcUrl?: string;
+  feeCurrency?: Address;
 }
 
 export class CeloClient {
@@ -66,4 +70,39 @@ export class CeloClient {
   getNetworkConfig(): CeloClientConfig {
     return this.networkConfig;
   }
+
+  async estimateGas(tx: TransactionRequest): Promise<bigint> {
+    const feeCurrency = this.getFeeCurrency(tx.feeCurrency);
+    return this.publicClient.estimateGas({
+      account: this.walletClient?.account,
+      to: tx.to,
+      data: tx.data,
+      value: tx.value ?? 0n,
+      ...(feeCurrency ? { feeCurrency } : {}),
+    });
+  }
+
+  async getCurrentGasPrice(): Promise<bigint> {
+    return this.publicClient.getGasPrice();
+  }
+
+  getFeeCurrency(requested?: Address): Address | undefined {
+    return requested ?? this.networkConfig.feeCurrency;
+  }
+
+  async withNonce<T>(send: (nonce: number) => Promise<T>, requestedNonce?: number): Promise<T> {
+    return nonceManager.withNonce(this.getNonceAccount(), send, requestedNonce);
+  }
+
+  async resyncNonce(): Promise<number> {
+    return nonceManager.resync(this.getNonceAccount());
+  }
+
+  private getNonceAccount(): NonceAccount {
+    const address = this.walletClient?.account?.address;
+    if (!address) {
+      throw new Error('Private key required for sending transactions');
+    }
+    return { chainId: this.chain.id, address, source: this.publicClient };
+  }
 }
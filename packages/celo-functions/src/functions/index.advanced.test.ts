@@ -57,6 +57,31 @@ describe('Celo Functions - Advanced', () => {
       expect(functions.sendCELO.length).toBe(3);
     });
 
+    it('should report the transaction hash when waiting for the receipt fails', async () => {
+      const sender = {
+        getWalletClient: () => ({
+          getAddresses: async () => [mockAddress],
+          sendTransaction: vi.fn(async () => '0xabc'),
+        }),
+        getPublicClient: () => ({
+          waitForTransactionReceipt: vi.fn(async () => {
+            throw new Error('Timed out while waiting for transaction with hash "0xabc" to be confirmed.');
+          }),
+        }),
+        getChain: () => undefined,
+        getFeeCurrency: (requested?: Address) => requested,
+        withNonce: (send: (nonce: number) => Promise<unknown>) => send(3),
+      } as unknown as CeloClient;
+
+      const result = await functions.sendCELO(sender, mockAddress, '1');
+
+      expect(result).toEqual({
+        success: false,
+        transactionHash: '0xabc',
+        error: 'Timed out while waiting for transaction with hash "0xabc" to be confirmed.',
+      });
+    });
+
     it('should return TransactionResult structure', () => {
       expect(typeof functions.sendCELO).toBe('function');
     });
@@ -1,6 +1,6 @@
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { CeloClient } from '../client.js';
-import type { Address } from 'viem';
+import { TransactionNotFoundError, TransactionReceiptNotFoundError, type Address, type Hash } from 'viem';
 import * as functions from './index.js';
 
 describe('Celo Functions', () => {
@@ -70,6 +70,91 @@ describe('Celo Functions', () => {
     });
   });
 
+  describe('batchTransferFromTreasury', () => {
+    it('should be a function', () => {
+      expect(typeof functions.batchTransferFromTreasury).toBe('function');
+    });
+
+    it('should reject mismatched recipients and amounts', async () => {
+      const result = await functions.batchTransferFromTreasury(client, {
+        treasuryAddress: mockAddress,
+        agentId: '1',
+        tokenAddress: mockAddress,
+        recipients: [mockAddress, mockAddress],
+        amounts: ['1'],
+      });
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('same length');
+    });
+
+    it('should throw error if wallet client is not available', async () => {
+      await expect(
+        functions.batchTransferFromTreasury(client, {
+          treasuryAddress: mockAddress,
+          agentId: '1',
+          tokenAddress: mockAddress,
+          recipients: [mockAddress],
+          amounts: ['1'],
+        })
+      ).rejects.toThrow('Private key required');
+    });
+  });
+
+  describe('simulateCELOTransfer', () => {
+    it('should be a function', () => {
+      expect(typeof functions.simulateCELOTransfer).toBe('function');
+    });
+
+    it('should throw error if wallet client is not available', async () => {
+      await expect(
+        functions.simulateCELOTransfer(client, mockAddress, '1000')
+      ).rejects.toThrow('Private key required');
+    });
+  });
+
+  describe('simulateContractCall', () => {
+    it('should be a function', () => {
+      expect(typeof functions.simulateContractCall).toBe('function');
+    });
+
+    it('should throw error if wallet client is not available', async () => {
+      await expect(
+        functions.simulateContractCall(client, {
+          address: mockAddress,
+          abi: [],
+          functionName: 'test',
+        })
+      ).rejects.toThrow('Private key required');
+    });
+  });
+
+  describe('simulateTokenTransfer', () => {
+    it('should be a function', () => {
+      expect(typeof functions.simulateTokenTransfer).toBe('function');
+    });
+  });
+
+  describe('simulateBatchTransfer', () => {
+    it('should reject mismatched recipients and amounts', async () => {
+      const result = await functions.simulateBatchTransfer(client, {
+        treasuryAddress: mockAddress,
+        agentId: '1',
+        tokenAddress: mockAddress,
+        recipients: [mockAddress],
+        amounts: ['1', '2'],
+      });
+      expect(result.success).toBe(false);
+      expect(result.gasUsed).toBe(0n);
+      expect(result.error).toContain('same length');
+    });
+  });
+
+  describe('getGasPrice', () => {
+    it('should be a function', () => {
+      expect(typeof functions.getGasPrice).toBe('function');
+    });
+  });
+
   describe('readContract', () => {
     it('should be a function', () => {
       expect(typeof functions.readContract).toBe('function');
@@ -93,5 +178,347 @@ describe('Celo Functions', () => {
       expect(typeof functions.listenToEvent).toBe('function');
     });
   });
-});
 
+  describe('resolveEventAbi', () => {
+    it('should resolve well-known event names', () => {
+      const event = functions.resolveEventAbi('Transfer');
+      expect(event.name).toBe('Transfer');
+      expect(event.inputs.map((input) => input.name)).toEqual(['from', 'to', 'value']);
+    });
+
+    it('should parse full event signatures', () => {
+      const event = functions.resolveEventAbi('Deposit(address indexed account, uint256 amount)');
+      expect(event.name).toBe('Deposit');
+      expect(event.inputs[0].indexed).toBe(true);
+    });
+
+    it('should prefer events from a provided ABI', () => {
+      const abi = [
+        {
+          type: 'event',
+          name: 'Deposit',
+          inputs: [{ name: 'amount', type: 'uint256', indexed: false }],
+        },
+      ];
+      expect(functions.resolveEventAbi('Deposit', abi)).toBe(abi[0]);
+    });
+
+    it('should throw for unknown event names without a signature', () => {
+      expect(() => functions.resolveEventAbi('Deposit')).toThrow('Unknown event');
+    });
+  });
+
+  describe('getContractEvents', () => {
+    it('should be a function', () => {
+      expect(typeof functions.getContractEvents).toBe('function');
+    });
+  });
+
+  describe('broadcastTransaction', () => {
+    it('should throw error if wallet client is not available', async () => {
+      await expect(functions.broadcastTransaction(client, { to: mockAddress })).rejects.toThrow(
+        'Private key required'
+      );
+    });
+
+    it('should sign and send without waiting for the receipt', async () => {
+      const walletClient = {
+        account: { address: mockAddress },
+        prepareTransactionRequest: vi.fn(async (request: any) => ({ ...request, gas: 21000n, maxFeePerGas: 5n })),
+        sendTransaction: vi.fn(async () => '0xabc' as Hash),
+      };
+      const stub = {
+        getWalletClient: () => walletClient,
+        getChain: () => ({ id: 44787 }),
+        getFeeCurrency: (requested?: Address) => requested,
+        withNonce: (send: (nonce: number) => Promise<unknown>, nonce?: number) => send(nonce ?? 7),
+      } as unknown as CeloClient;
+
+      const sent = await functions.broadcastTransaction(stub, { to: mockAddress, value: 10n, gasPrice: 3n });
+
+      expect(walletClient.prepareTransactionRequest.mock.calls[0][0]).toMatchObject({ gasPrice: 3n, value: 10n });
+      expect(walletClient.sendTransaction).toHaveBeenCalledTimes(1);
+      expect(sent).toMatchObject({
+        hash: '0xabc',
+        from: mockAddress,
+        nonce: 7,
+        chainId: 44787,
+        gasLimit: 21000n,
+        maxFeePerGas: 5n,
+      });
+    });
+
+    it('should pay fees in the requested fee currency', async () => {
+      const feeCurrency = '0x765DE816845861e75A25fCA122bb6898B8B1282a' as Address;
+      const walletClient = {
+        account: { address: mockAddress },
+        prepareTransactionRequest: vi.fn(async (request: any) => ({ ...request, gas: 71000n })),
+        sendTransaction: vi.fn(async () => '0xabc' as Hash),
+      };
+      const stub = {
+        getWalletClient: () => walletClient,
+        getChain: () => ({ id: 44787 }),
+        getFeeCurrency: (requested?: Address) => requested ?? mockAddress,
+        withNonce: (send: (nonce: number) => Promise<unknown>) => send(7),
+      } as unknown as CeloClient;
+
+      const sent = await functions.broadcastTransaction(stub, { to: mockAddress, feeCurrency });
+
+      expect(walletClient.prepareTransactionRequest.mock.calls[0][0]).toMatchObject({ feeCurrency });
+      expect(sent.feeCurrency).toBe(feeCurrency);
+    });
+  });
+
+  describe('selectFeeCurrency', () => {
+    const cUSD = '0x765DE816845861e75A25fCA122bb6898B8B1282a' as Address;
+    const cEUR = '0xD8763CBa276a3738E6DE85b4b3bF5FDed6D6cA73' as Address;
+
+    function stubClient(celoBalance: bigint, tokenBalances: Record<string, bigint>) {
+      return {
+        getWalletClient: () => ({ account: { address: mockAddress } }),
+        getPublicClient: () => ({
+          getBalance: async () => celoBalance,
+          readContract: async ({ address }: { address: Address }) => tokenBalances[address] ?? 0n,
+        }),
+      } as unknown as CeloClient;
+    }
+
+    it('should keep paying in CELO while the balance covers the minimum', async () => {
+      const stub = stubClient(10n ** 18n, { [cUSD]: 5n });
+      await expect(
+        functions.selectFeeCurrency(stub, { preferred: [cUSD], minCeloBalance: 10n ** 17n })
+      ).resolves.toBeUndefined();
+    });
+
+    it('should pick the first preferred stablecoin with a balance when CELO is low', async () => {
+      const stub = stubClient(1n, { [cEUR]: 5n });
+      await expect(
+        functions.selectFeeCurrency(stub, { preferred: [cUSD, cEUR], minCeloBalance: 10n ** 17n })
+      ).resolves.toBe(cEUR);
+    });
+  });
+
+  describe('getTransactionLifecycle', () => {
+    const tracked = { hash: '0xabc' as Hash, from: mockAddress, nonce: 4 };
+
+    function stubClient(overrides: Record<string, any>) {
+      const publicClient = {
+        getTransactionReceipt: vi.fn(async () => {
+          throw new TransactionReceiptNotFoundError({ hash: tracked.hash });
+        }),
+        getTransaction: vi.fn(async () => {
+          throw new TransactionNotFoundError({ hash: tracked.hash });
+        }),
+        getTransactionCount: vi.fn(async () => 4),
+        ...overrides,
+      };
+      return { getPublicClient: () => publicClient } as unknown as CeloClient;
+    }
+
+    it('should report mined transactions with their receipt details', async () => {
+      const state = await functions.getTransactionLifecycle(
+        stubClient({
+          getTransactionReceipt: async () => ({ status: 'reverted', blockNumber: 12n, gasUsed: 30000n, effectiveGasPrice: 2n }),
+        }),
+        tracked
+      );
+
+      expect(state).toEqual({ status: 'failed', blockNumber: 12n, gasUsed: 30000n, effectiveGasPrice: 2n });
+    });
+
+    it('should stay pending while the transaction is known to the node', async () => {
+      const state = await functions.getTransactionLifecycle(stubClient({ getTransaction: async () => ({}) }), tracked);
+      expect(state).toEqual({ status: 'pending', inMempool: true });
+    });
+
+    it('should report dropped transactions once their nonce is used by another transaction', async () => {
+      expect(await functions.getTransactionLifecycle(stubClient({}), tracked)).toEqual({
+        status: 'pending',
+        inMempool: false,
+      });
+      expect(
+        await functions.getTransactionLifecycle(stubClient({ getTransactionCount: async () => 5 }), tracked)
+      ).toEqual({ status: 'dropped' });
+    });
+  });
+
+  describe('replaceTransaction', () => {
+    const original = {
+      to: mockAddress,
+      value: 10n,
+      data: '0x1234' as const,
+      nonce: 9,
+      gasLimit: 60000n,
+      maxFeePerGas: 1000n,
+      maxPriorityFeePerGas: 100n,
+    };
+
+    function stubClient(currentFees = { maxFeePerGas: 500n, maxPriorityFeePerGas: 50n }) {
+      const walletClient = {
+        account: { address: '0x00000000000000000000000000000000000000aa' },
+        prepareTransactionRequest: vi.fn(async (request: any) => request),
+        sendTransaction: vi.fn(async () => '0xdef' as Hash),
+      };
+      const stub = {
+        getWalletClient: () => walletClient,
+        getPublicClient: () => ({
+          estimateFeesPerGas: async () => currentFees,
+          getGasPrice: async () => 30n,
+          request: async ({ method }: { method: string }) => (method === 'eth_gasPrice' ? '0x7d0' : '0xc8'),
+        }),
+        getChain: () => ({ id: 44787 }),
+        getFeeCurrency: (requested?: Address) => requested,
+        withNonce: (send: (nonce: number) => Promise<unknown>, nonce: number) => send(nonce),
+      } as unknown as CeloClient;
+      return { stub, walletClient };
+    }
+
+    it('should round bumped fees up', () => {
+      expect(functions.bumpFee(1000n, 12.5)).toBe(1125n);
+      expect(functions.bumpFee(3n, 10)).toBe(4n);
+    });
+
+    it('should resend the same call with the same nonce and bumped fees', async () => {
+      const { stub, walletClient } = stubClient();
+
+      const sent = await functions.replaceTransaction(stub, original, { mode: 'speedup' });
+
+      expect(walletClient.prepareTransactionRequest.mock.calls[0][0]).toMatchObject({
+        to: mockAddress,
+        value: 10n,
+        data: '0x1234',
+        gas: 60000n,
+        nonce: 9,
+        maxFeePerGas: 1125n,
+        maxPriorityFeePerGas: 113n,
+      });
+      expect(sent.hash).toBe('0xdef');
+    });
+
+    it('should cancel with an empty self-transfer and follow rising network fees', async () => {
+      const { stub, walletClient } = stubClient({ maxFeePerGas: 5000n, maxPriorityFeePerGas: 200n });
+
+      await functions.replaceTransaction(stub, { ...original, maxFeePerGas: undefined, maxPriorityFeePerGas: undefined, gasPrice: 20n }, {
+        mode: 'cancel',
+      });
+      await functions.replaceTransaction(stub, original, { mode: 'cancel', bumpPercent: 20 });
+
+      expect(walletClient.prepareTransactionRequest.mock.calls[0][0]).toMatchObject({
+        to: '0x00000000000000000000000000000000000000aa',
+        value: 0n,
+        gas: 21000n,
+        nonce: 9,
+        gasPrice: 30n,
+      });
+      expect(walletClient.prepareTransactionRequest.mock.calls[1][0]).toMatchObject({
+        maxFeePerGas: 5000n,
+        maxPriorityFeePerGas: 200n,
+      });
+      expect(walletClient.prepareTransactionRequest.mock.calls[1][0].data).toBeUndefined();
+    });
+
+    it('should follow network fees quoted in the original fee currency', async () => {
+      const { stub, walletClient } = stubClient();
+      const feeCurrency = '0x765DE816845861e75A25fCA122bb6898B8B1282a' as Address;
+
+      await functions.replaceTransaction(stub, { ...original, feeCurrency }, { mode: 'speedup' });
+
+      expect(walletClient.prepareTransactionRequest.mock.calls[0][0]).toMatchObject({
+        feeCurrency,
+        maxFeePerGas: 2000n,
+        maxPriorityFeePerGas: 200n,
+      });
+    });
+
+    it('should refuse bumps below the minimum replacement bump', async () => {
+      const { stub } = stubClient();
+      await expect(functions.replaceTransaction(stub, original, { mode: 'speedup', bumpPercent: 5 })).rejects.toThrow(
+        'at least 10%'
+      );
+    });
+  });
+
+  describe('estimateTransactionCost', () => {
+    function stubClient(feeHistory: () => Promise<unknown>) {
+      const request = vi.fn(async () => '0x14');
+      const stub = {
+        estimateGas: async () => 50000n,
+        getCurrentGasPrice: async () => 10n,
+        getPublicClient: () => ({ getFeeHistory: feeHistory, request }),
+      } as unknown as CeloClient;
+      return { stub, request };
+    }
+
+    const history = async () => ({
+      oldestBlock: 100n,
+      baseFeePerGas: [5n, 5n, 5n, 6n],
+      gasUsedRatio: [0.5, 0.5, 0.5],
+      reward: [
+        [1n, 2n, 4n],
+        [1n, 3n, 5n],
+        [1n, 2n, 9n],
+      ],
+    });
+
+    it('should suggest fees from recent block percentiles', async () => {
+      const { stub } = stubClient(history);
+
+      const fees = await functions.getFeeSuggestions(stub);
+
+      expect(fees.baseFeePerGas).toBe(6n);
+      expect(fees.blockCount).toBe(3);
+      expect(fees.suggestions.low).toEqual({ maxPriorityFeePerGas: 1n, maxFeePerGas: 13n });
+      expect(fees.suggestions.normal).toEqual({ maxPriorityFeePerGas: 2n, maxFeePerGas: 14n });
+      expect(fees.suggestions.high).toEqual({ maxPriorityFeePerGas: 5n, maxFeePerGas: 17n });
+    });
+
+    it('should price the transaction from fee history and convert to the fee currency', async () => {
+      const { stub, request } = stubClient(history);
+      const feeCurrency = '0x765DE816845861e75A25fCA122bb6898B8B1282a' as Address;
+
+      const estimate = await functions.estimateTransactionCost(stub, { to: mockAddress }, { feeCurrency });
+
+      expect(estimate).toMatchObject({
+        priority: 'normal',
+        gasUsed: 50000n,
+        gasLimit: 60000n,
+        maxFeePerGas: 14n,
+        maxPriorityFeePerGas: 2n,
+        estimatedCost: 400000n,
+        maxCost: 840000n,
+        confidence: 0.67,
+      });
+      expect(request).toHaveBeenCalledWith({ method: 'eth_gasPrice', params: [feeCurrency] });
+      expect(estimate.feeCurrency).toEqual({
+        address: feeCurrency,
+        gasPrice: 20n,
+        estimatedCost: 1600000n,
+        maxCost: 3080000n,
+      });
+    });
+
+    it('should use the p10 and p90 tips for low and high priority without scaling them again', async () => {
+      const { stub } = stubClient(history);
+
+      const low = await functions.estimateTransactionCost(stub, { to: mockAddress }, { priority: 'low' });
+      const high = await functions.estimateTransactionCost(stub, { to: mockAddress }, { priority: 'high' });
+
+      expect(low).toMatchObject({ maxPriorityFeePerGas: 1n, maxFeePerGas: 13n });
+      expect(high).toMatchObject({ maxPriorityFeePerGas: 5n, maxFeePerGas: 17n });
+    });
+
+    it('should fall back to the legacy gas price when fee history is unavailable', async () => {
+      const { stub } = stubClient(async () => {
+        throw new Error('method not supported');
+      });
+
+      const estimate = await functions.estimateTransactionCost(stub, { to: mockAddress }, { priority: 'high' });
+
+      expect(estimate.fees).toBeUndefined();
+      expect(estimate.maxFeePerGas).toBeUndefined();
+      expect(estimate.estimatedCost).toBe(600000n);
+      expect(estimate.maxCost).toBe(720000n);
+      expect(estimate.confidence).toBe(0.9);
+    });
+  });
+});
@@ -1,9 +1,28 @@
-import type { Address, Hash } from 'viem';
+import {
+  parseAbiItem,
+  TransactionNotFoundError,
+  TransactionReceiptNotFoundError,
+  type AbiEvent,
+  type Address,
+  type Hash,
+  type Hex,
+} from 'viem';
+import { gasOptimizer } from '@celo-automator/core';
 import { CeloClient } from '../client.js';
 import type {
+  BroadcastTransaction,
+  FeeSuggestion,
+  FeeSuggestions,
+  GasCostEstimate,
+  GasPriority,
+  SendOptions,
+  TransactionLifecycleState,
+  TransactionRequest,
   TransactionResult,
   TokenBalance,
   ContractCall,
+  ContractEventLog,
+  SimulationResult,
 } from '@celo-automator/types';
 
 const ERC20_ABI = [
@@ -47,6 +66,38 @@ const ERC20_ABI = [
   },
 ] as const;
 
+const AGENT_TREASURY_ABI = [
+  {
+    name: 'batchTransfer',
+    type: 'function',
+    stateMutability: 'nonpayable',
+    inputs: [
+      { name: 'agentId', type: 'uint256' },
+      { name: 'token', type: 'address' },
+      { name: 'recipients', type: 'address[]' },
+      { name: 'amounts', type: 'uint256[]' },
+    ],
+    outputs: [{ name: 'success', type: 'bool' }],
+  },
+] as const;
+
+export const MIN_REPLACEMENT_BUMP_PERCENT = 10;
+
+export const DEFAULT_REPLACEMENT_BUMP_PERCENT = 12.5;
+
+export const FEE_HISTORY_PERCENTILES: Record<GasPriority, number> = { low: 10, normal: 50, high: 90 };
+
+export const DEFAULT_FEE_HISTORY_BLOCKS = 20;
+
+export const FEE_CURRENCY_GAS_OVERHEAD = 50000n;
+
+const GAS_PRIORITIES: GasPriority[] = ['low', 'normal', 'high'];
+
+const KNOWN_EVENT_SIGNATURES: Record<string, string> = {
+  Transfer: 'event Transfer(address indexed from, address indexed to, uint256 value)',
+  Approval: 'event Approval(address indexed owner, address indexed spender, uint256 value)',
+};
+
 export async function getBalance(
   client: CeloClient,
   address: Address
@@ -95,23 +146,35 @@ export async function getTokenBalance(
   };
 }
 
+function feeCurrencyField(client: CeloClient, options: SendOptions): { feeCurrency?: Address } {
+  const feeCurrency = client.getFeeCurrency(options.feeCurrency);
+  return feeCurrency ? { feeCurrency } : {};
+}
+
 export async function sendCELO(
   client: CeloClient,
   to: Address,
-  amount: string
+  amount: string,
+  options: SendOptions = {}
 ): Promise<TransactionResult> {
   const walletClient = client.getWalletClient();
   if (!walletClient) {
     throw new Error('Private key required for sending transactions');
   }
 
+  let hash: Hash | undefined;
   try {
-    const hash = await walletClient.sendTransaction({
-      to,
-      value: BigInt(amount),
-      account: await walletClient.getAddresses().then((addrs) => addrs[0]),
-      chain: client.getChain(),
-    });
+    const account = await walletClient.getAddresses().then((addrs) => addrs[0]);
+    hash = await client.withNonce((nonce) =>
+      walletClient.sendTransaction({
+        to,
+        value: BigInt(amount),
+        account,
+        chain: client.getChain(),
+        nonce,
+        ...feeCurrencyField(client, options),
+      } as Parameters<typeof walletClient.sendTransaction>[0])
+    );
 
     const receipt = await client.getPublicClient().waitForTransactionReceipt({
       hash,
@@ -127,6 +190,7 @@ export async function sendCELO(
   } catch (error) {
     return {
       success: false,
+      ...(hash ? { transactionHash: hash } : {}),
       error: error instanceof Error ? error.message : 'Unknown error',
     };
   }
@@ -136,13 +200,15 @@ export async function sendToken(
   client: CeloClient,
   tokenAddress: Address,
   to: Address,
-  amount: string
+  amount: string,
+  options: SendOptions = {}
 ): Promise<TransactionResult> {
   const walletClient = client.getWalletClient();
   if (!walletClient) {
     throw new Error('Private key required for sending transactions');
   }
 
+  let hash: Hash | undefined;
   try {
     const { request } = await client.getPublicClient().simulateContract({
       address: tokenAddress,
@@ -152,7 +218,9 @@ export async function sendToken(
       account: await walletClient.getAddresses().then((addrs) => addrs[0]),
     });
 
-    const hash = await walletClient.writeContract(request);
+    hash = await client.withNonce((nonce) =>
+      walletClient.writeContract({ ...request, nonce, ...feeCurrencyField(client, options) } as typeof request)
+    );
 
     const receipt = await client.getPublicClient().waitForTransactionReceipt({
       hash,
@@ -168,6 +236,7 @@ export async function sendToken(
   } catch (error) {
     return {
       success: false,
+      ...(hash ? { transactionHash: hash } : {}),
       error: error instanceof Error ? error.message : 'Unknown error',
     };
   }
@@ -175,13 +244,15 @@ export async function sendToken(
 
 export async function callContract(
   client: CeloClient,
-  call: ContractCall
+  call: ContractCall,
+  options: SendOptions = {}
 ): Promise<TransactionResult> {
   const walletClient = client.getWalletClient();
   if (!walletClient) {
     throw new Error('Private key required for contract calls');
   }
 
+  let hash: Hash | undefined;
   try {
     const { request } = await client.getPublicClient().simulateContract({
       address: call.address,
@@ -192,7 +263,9 @@ export async function callContract(
       account: await walletClient.getAddresses().then((addrs) => addrs[0]),
     });
 
-    const hash = await walletClient.writeContract(request);
+    hash = await client.withNonce((nonce) =>
+      walletClient.writeContract({ ...request, nonce, ...feeCurrencyField(client, options) } as typeof request)
+    );
 
     const receipt = await client.getPublicClient().waitForTransactionReceipt({
       hash,
@@ -208,11 +281,466 @@ export async function callContract(
   } catch (error) {
     return {
       success: false,
+      ...(hash ? { transactionHash: hash } : {}),
       error: error instanceof Error ? error.message : 'Unknown error',
     };
   }
 }
 
+interface BatchTransferParams {
+  treasuryAddress: Address;
+  agentId: string | bigint;
+  tokenAddress: Address;
+  recipients: Address[];
+  amounts: string[];
+}
+
+function toBatchTransferCall(params: BatchTransferParams): ContractCall {
+  return {
+    address: params.treasuryAddress,
+    abi: AGENT_TREASURY_ABI as unknown as any[],
+    functionName: 'batchTransfer',
+    args: [
+      BigInt(params.agentId),
+      params.tokenAddress,
+      params.recipients,
+      params.amounts.map((amount) => BigInt(amount)),
+    ],
+  };
+}
+
+export async function batchTransferFromTreasury(
+  client: CeloClient,
+  params: BatchTransferParams,
+  options: SendOptions = {}
+): Promise<TransactionResult> {
+  if (params.recipients.length !== params.amounts.length) {
+    return {
+      success: false,
+      error: 'Recipients and amounts must have the same length',
+    };
+  }
+
+  return callContract(client, toBatchTransferCall(params), options);
+}
+
+export async function broadcastTransaction(
+  client: CeloClient,
+  request: TransactionRequest
+): Promise<BroadcastTransaction> {
+  const walletClient = client.getWalletClient();
+  if (!walletClient?.account) {
+    throw new Error('Private key required for sending transactions');
+  }
+
+  const fees =
+    request.gasPrice !== undefined
+      ? { gasPrice: request.gasPrice }
+      : { maxFeePerGas: request.maxFeePerGas, maxPriorityFeePerGas: request.maxPriorityFeePerGas };
+  const account = walletClient.account;
+  const { prepared, hash } = await client.withNonce(async (nonce) => {
+    const prepared = await walletClient.prepareTransactionRequest({
+      account,
+      chain: client.getChain(),
+      to: request.to,
+      value: request.value ?? 0n,
+      data: request.data,
+      gas: request.gasLimit,
+      nonce,
+      ...fees,
+      ...feeCurrencyField(client, request),
+    });
+    const hash = await walletClient.sendTransaction({ ...prepared, account, chain: client.getChain() });
+    return { prepared, hash };
+  }, request.nonce);
+
+  return {
+    hash,
+    from: account.address,
+    to: request.to,
+    value: request.value ?? 0n,
+    data: request.data,
+    nonce: prepared.nonce as number,
+    chainId: client.getChain().id,
+    gasLimit: prepared.gas as bigint,
+    gasPrice: prepared.gasPrice,
+    maxFeePerGas: prepared.maxFeePerGas,
+    maxPriorityFeePerGas: prepared.maxPriorityFeePerGas,
+    feeCurrency: prepared.feeCurrency,
+  };
+}
+
+export function bumpFee(fee: bigint, percent: number): bigint {
+  const basisPoints = BigInt(Math.ceil((100 + percent) * 100));
+  return (fee * basisPoints + 9999n) / 10000n;
+}
+
+function maxOf(...values: bigint[]): bigint {
+  return values.reduce((max, value) => (value > max ? value : max));
+}
+
+export async function replaceTransaction(
+  client: CeloClient,
+  original: Pick<
+    BroadcastTransaction,
+    | 'to'
+    | 'value'
+    | 'data'
+    | 'nonce'
+    | 'gasLimit'
+    | 'gasPrice'
+    | 'maxFeePerGas'
+    | 'maxPriorityFeePerGas'
+    | 'feeCurrency'
+  >,
+  options: { mode: 'speedup' | 'cancel'; bumpPercent?: number }
+): Promise<BroadcastTransaction> {
+  const account = client.getWalletClient()?.account;
+  if (!account) {
+    throw new Error('Private key required for sending transactions');
+  }
+
+  const percent = options.bumpPercent ?? DEFAULT_REPLACEMENT_BUMP_PERCENT;
+  if (percent < MIN_REPLACEMENT_BUMP_PERCENT) {
+    throw new Error(`Replacement fee bump must be at least ${MIN_REPLACEMENT_BUMP_PERCENT}%`);
+  }
+
+  const publicClient = client.getPublicClient();
+  let fees: Pick<TransactionRequest, 'gasPrice' | 'maxFeePerGas' | 'maxPriorityFeePerGas'>;
+  if (original.gasPrice !== undefined) {
+    fees = { gasPrice: maxOf(bumpFee(original.gasPrice, percent), await publicClient.getGasPrice()) };
+  } else {
+    const current = original.feeCurrency
+      ? await estimateFeeCurrencyFeesPerGas(client, original.feeCurrency)
+      : await publicClient.estimateFeesPerGas();
+    const maxPriorityFeePerGas = maxOf(
+      bumpFee(original.maxPriorityFeePerGas ?? 0n, percent),
+      current.maxPriorityFeePerGas ?? 0n
+    );
+    fees = {
+      maxPriorityFeePerGas,
+      maxFeePerGas: maxOf(bumpFee(original.maxFeePerGas ?? 0n, percent), current.maxFeePerGas ?? 0n, maxPriorityFeePerGas),
+    };
+  }
+
+  const request: TransactionRequest =
+    options.mode === 'cancel'
+      ? {
+          to: account.address,
+          value: 0n,
+          gasLimit: original.feeCurrency ? 21000n + FEE_CURRENCY_GAS_OVERHEAD : 21000n,
+          nonce: original.nonce,
+          feeCurrency: original.feeCurrency,
+          ...fees,
+        }
+      : {
+          to: original.to,
+          value: original.value,
+          data: original.data,
+          gasLimit: original.gasLimit,
+          nonce: original.nonce,
+          feeCurrency: original.feeCurrency,
+          ...fees,
+        };
+  return broadcastTransaction(client, request);
+}
+
+export async function getTransactionLifecycle(
+  client: CeloClient,
+  transaction: { hash: Hash; from: Address; nonce: number }
+): Promise<TransactionLifecycleState> {
+  const publicClient = client.getPublicClient();
+
+  try {
+    const receipt = await publicClient.getTransactionReceipt({ hash: transaction.hash });
+    return {
+      status: receipt.status === 'success' ? 'confirmed' : 'failed',
+      blockNumber: receipt.blockNumber,
+      gasUsed: receipt.gasUsed,
+      effectiveGasPrice: receipt.effectiveGasPrice,
+    };
+  } catch (error) {
+    if (!(error instanceof TransactionReceiptNotFoundError)) {
+      throw error;
+    }
+  }
+
+  try {
+    await publicClient.getTransaction({ hash: transaction.hash });
+    return { status: 'pending', inMempool: true };
+  } catch (error) {
+    if (!(error instanceof TransactionNotFoundError)) {
+      throw error;
+    }
+  }
+
+  const minedNonce = await publicClient.getTransactionCount({ address: transaction.from, blockTag: 'latest' });
+  return minedNonce > transaction.nonce ? { status: 'dropped' } : { status: 'pending', inMempool: false };
+}
+
+export async function getGasPrice(client: CeloClient): Promise<bigint> {
+  return client.getPublicClient().getGasPrice();
+}
+
+interface FeeHistorySample {
+  fees: FeeSuggestions;
+  blocks: Array<{ baseFeePerGas: bigint; rewards: bigint[] }>;
+}
+
+function median(values: bigint[]): bigint {
+  const sorted = [...values].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+  return sorted.length === 0 ? 0n : sorted[Math.floor(sorted.length / 2)];
+}
+
+async function sampleFeeHistory(client: CeloClient, blockCount: number): Promise<FeeHistorySample> {
+  const history = await client.getPublicClient().getFeeHistory({
+    blockCount,
+    rewardPercentiles: GAS_PRIORITIES.map((priority) => FEE_HISTORY_PERCENTILES[priority]),
+    blockTag: 'latest',
+  });
+
+  const rewards = history.reward ?? [];
+  const baseFeePerGas = history.baseFeePerGas[history.baseFeePerGas.length - 1] ?? 0n;
+  const suggestions = Object.fromEntries(
+    GAS_PRIORITIES.map((priority, index) => {
+      const maxPriorityFeePerGas = median(rewards.map((block) => block[index]));
+      return [priority, { maxPriorityFeePerGas, maxFeePerGas: baseFeePerGas * 2n + maxPriorityFeePerGas }];
+    })
+  ) as Record<GasPriority, FeeSuggestion>;
+
+  return {
+    fees: { baseFeePerGas, oldestBlock: history.oldestBlock, blockCount: rewards.length, suggestions },
+    blocks: rewards.map((blockRewards, index) => ({
+      baseFeePerGas: history.baseFeePerGas[index],
+      rewards: blockRewards,
+    })),
+  };
+}
+
+export async function getFeeSuggestions(
+  client: CeloClient,
+  blockCount = DEFAULT_FEE_HISTORY_BLOCKS
+): Promise<FeeSuggestions> {
+  return (await sampleFeeHistory(client, blockCount)).fees;
+}
+
+export async function getFeeCurrencyGasPrice(client: CeloClient, feeCurrency: Address): Promise<bigint> {
+  const gasPrice = await client
+    .getPublicClient()
+    .request<{ Method: 'eth_gasPrice'; Parameters: [Address]; ReturnType: Hex }>({
+      method: 'eth_gasPrice',
+      params: [feeCurrency],
+    });
+  return BigInt(gasPrice);
+}
+
+async function estimateFeeCurrencyFeesPerGas(
+  client: CeloClient,
+  feeCurrency: Address
+): Promise<{ maxFeePerGas: bigint; maxPriorityFeePerGas: bigint }> {
+  const [maxFeePerGas, maxPriorityFeePerGas] = await Promise.all([
+    getFeeCurrencyGasPrice(client, feeCurrency),
+    client
+      .getPublicClient()
+      .request<{ Method: 'eth_maxPriorityFeePerGas'; Parameters: [Address]; ReturnType: Hex }>({
+        method: 'eth_maxPriorityFeePerGas',
+        params: [feeCurrency],
+      })
+      .then(BigInt),
+  ]);
+  return { maxFeePerGas, maxPriorityFeePerGas };
+}
+
+export async function selectFeeCurrency(
+  client: CeloClient,
+  policy: { preferred: Address[]; minCeloBalance: bigint }
+): Promise<Address | undefined> {
+  const account = client.getWalletClient()?.account;
+  if (!account) {
+    throw new Error('Private key required for sending transactions');
+  }
+
+  const publicClient = client.getPublicClient();
+  if ((await publicClient.getBalance({ address: account.address })) >= policy.minCeloBalance) {
+    return undefined;
+  }
+
+  for (const feeCurrency of policy.preferred) {
+    const balance = (await publicClient.readContract({
+      address: feeCurrency,
+      abi: ERC20_ABI,
+      functionName: 'balanceOf',
+      args: [account.address],
+    })) as bigint;
+    if (balance > 0n) {
+      return feeCurrency;
+    }
+  }
+  return undefined;
+}
+
+export async function estimateTransactionCost(
+  client: CeloClient,
+  request: TransactionRequest,
+  options: { priority?: GasPriority; maxGasPrice?: bigint; feeCurrency?: Address; blockCount?: number } = {}
+): Promise<GasCostEstimate> {
+  const priority = options.priority ?? 'normal';
+  const [gasUsed, gasPrice] = await Promise.all([client.estimateGas(request), client.getCurrentGasPrice()]);
+
+  let sample: FeeHistorySample | undefined;
+  try {
+    sample = await sampleFeeHistory(client, options.blockCount ?? DEFAULT_FEE_HISTORY_BLOCKS);
+  } catch {
+    sample = undefined;
+  }
+  const suggestion = sample && sample.fees.baseFeePerGas > 0n ? sample.fees.suggestions[priority] : undefined;
+
+  const optimized = gasOptimizer.optimizeGas(
+    { gasLimit: gasUsed, gasPrice, ...suggestion },
+    {
+      priority: suggestion ? 'normal' : priority,
+      maxGasPrice: options.maxGasPrice,
+      useEIP1559: suggestion !== undefined,
+    }
+  );
+  const maxCost = gasOptimizer.estimateTotalCost(optimized);
+
+  let effectiveGasPrice = optimized.optimizedGasPrice ?? gasPrice;
+  let confidence = optimized.confidence;
+  if (sample && suggestion && optimized.optimizedMaxFeePerGas !== undefined) {
+    const maxFeePerGas = optimized.optimizedMaxFeePerGas;
+    const tip = optimized.optimizedMaxPriorityFeePerGas ?? 0n;
+    const expected = sample.fees.baseFeePerGas + tip;
+    effectiveGasPrice = expected < maxFeePerGas ? expected : maxFeePerGas;
+
+    const percentileIndex = GAS_PRIORITIES.indexOf(priority);
+    const covered = sample.blocks.filter(
+      (block) => tip >= block.rewards[percentileIndex] && maxFeePerGas >= block.baseFeePerGas + block.rewards[percentileIndex]
+    ).length;
+    if (sample.blocks.length > 0) {
+      confidence = Math.round((covered / sample.blocks.length) * 100) / 100;
+    }
+  }
+
+  const estimate: GasCostEstimate = {
+    priority,
+    gasUsed,
+    gasLimit: optimized.optimizedGasLimit,
+    gasPrice,
+    maxFeePerGas: optimized.optimizedMaxFeePerGas,
+    maxPriorityFeePerGas: optimized.optimizedMaxPriorityFeePerGas,
+    estimatedCost: gasUsed * effectiveGasPrice,
+    maxCost,
+    confidence,
+    fees: sample?.fees,
+  };
+
+  if (options.feeCurrency) {
+    const feeCurrencyGasPrice = await getFeeCurrencyGasPrice(client, options.feeCurrency);
+    const toFeeCurrency = (gas: bigint, price: bigint) =>
+      gasPrice > 0n ? ((gas + FEE_CURRENCY_GAS_OVERHEAD) * price * feeCurrencyGasPrice) / gasPrice : 0n;
+    estimate.feeCurrency = {
+      address: options.feeCurrency,
+      gasPrice: feeCurrencyGasPrice,
+      estimatedCost: toFeeCurrency(gasUsed, effectiveGasPrice),
+      maxCost: toFeeCurrency(
+        optimized.optimizedGasLimit,
+        optimized.optimizedGasPrice ?? optimized.optimizedMaxFeePerGas ?? gasPrice
+      ),
+    };
+  }
+
+  return estimate;
+}
+
+export async function simulateCELOTransfer(
+  client: CeloClient,
+  to: Address,
+  amount: string
+): Promise<SimulationResult> {
+  const walletClient = client.getWalletClient();
+  if (!walletClient) {
+    throw new Error('Private key required for transaction simulation');
+  }
+
+  try {
+    const gasUsed = await client.getPublicClient().estimateGas({
+      to,
+      value: BigInt(amount),
+      account: await walletClient.getAddresses().then((addrs) => addrs[0]),
+    });
+
+    return { success: true, gasUsed };
+  } catch (error) {
+    return {
+      success: false,
+      gasUsed: 0n,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+export async function simulateContractCall(
+  client: CeloClient,
+  call: ContractCall
+): Promise<SimulationResult> {
+  const walletClient = client.getWalletClient();
+  if (!walletClient) {
+    throw new Error('Private key required for transaction simulation');
+  }
+
+  try {
+    const publicClient = client.getPublicClient();
+    const { request } = await publicClient.simulateContract({
+      address: call.address,
+      abi: call.abi,
+      functionName: call.functionName,
+      args: call.args || [],
+      value: call.value,
+      account: await walletClient.getAddresses().then((addrs) => addrs[0]),
+    });
+
+    const gasUsed = await publicClient.estimateContractGas(request);
+
+    return { success: true, gasUsed };
+  } catch (error) {
+    return {
+      success: false,
+      gasUsed: 0n,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+export async function simulateTokenTransfer(
+  client: CeloClient,
+  tokenAddress: Address,
+  to: Address,
+  amount: string
+): Promise<SimulationResult> {
+  return simulateContractCall(client, {
+    address: tokenAddress,
+    abi: ERC20_ABI as unknown as any[],
+    functionName: 'transfer',
+    args: [to, BigInt(amount)],
+  });
+}
+
+export async function simulateBatchTransfer(
+  client: CeloClient,
+  params: BatchTransferParams
+): Promise<SimulationResult> {
+  if (params.recipients.length !== params.amounts.length) {
+    return {
+      success: false,
+      gasUsed: 0n,
+      error: 'Recipients and amounts must have the same length',
+    };
+  }
+
+  return simulateContractCall(client, toBatchTransferCall(params));
+}
+
 export async function readContract(
   client: CeloClient,
   call: Omit<ContractCall, 'value'>
@@ -246,6 +774,55 @@ export async function listenToEvent(
   });
 }
 
+export function resolveEventAbi(event: string, abi?: any[]): AbiEvent {
+  const name = event.trim();
+
+  const fromAbi = abi?.find((item) => item.type === 'event' && item.name === name);
+  if (fromAbi) {
+    return fromAbi as AbiEvent;
+  }
+
+  const signature = KNOWN_EVENT_SIGNATURES[name] ?? name;
+  if (!signature.includes('(')) {
+    throw new Error(`Unknown event "${name}": provide an ABI or a full event signature`);
+  }
+
+  return parseAbiItem(signature.startsWith('event ') ? signature : `event ${signature}`) as AbiEvent;
+}
+
+export async function getBlockNumber(client: CeloClient): Promise<bigint> {
+  return await client.getPublicClient().getBlockNumber();
+}
+
+export async function getContractEvents(
+  client: CeloClient,
+  params: {
+    address: Address | Address[];
+    event: string;
+    abi?: any[];
+    fromBlock: bigint;
+    toBlock: bigint;
+  }
+): Promise<ContractEventLog[]> {
+  const logs = await client.getPublicClient().getLogs({
+    address: params.address,
+    event: resolveEventAbi(params.event, params.abi),
+    fromBlock: params.fromBlock,
+    toBlock: params.toBlock,
+  });
+
+  return logs
+    .filter((log) => log.blockNumber !== null && log.transactionHash !== null && log.logIndex !== null)
+    .map((log) => ({
+      address: log.address,
+      eventName: (log as any).eventName,
+      args: ((log as any).args ?? {}) as Record<string, any>,
+      blockNumber: log.blockNumber as bigint,
+      transactionHash: log.transactionHash as Hash,
+      logIndex: log.logIndex as number,
+    }));
+}
+
 export async function getTransactionReceipt(
   client: CeloClient,
   txHash: Hash
@@ -1,3 +1,4 @@
 export * from './functions/index.js';
 export * from './client.js';
+export * from './nonce-manager.js';
 export * from './types.js';
@@ -0,0 +1,112 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { Address } from 'viem';
+import { NonceManager, isNonceError } from './nonce-manager.js';
+
+const address: Address = '0x1234567890123456789012345678901234567890';
+
+function createAccount(pendingCount: number | (() => number), chainId = 44787) {
+  const getTransactionCount = vi.fn(async () => (typeof pendingCount === 'function' ? pendingCount() : pendingCount));
+  return { chainId, address, source: { getTransactionCount } };
+}
+
+describe('NonceManager', () => {
+  it('should sync from the pending nonce and hand out consecutive nonces to concurrent sends', async () => {
+    const manager = new NonceManager();
+    const account = createAccount(5);
+    const order: number[] = [];
+
+    const nonces = await Promise.all(
+      [30, 0, 10].map((delay) =>
+        manager.withNonce(account, async (nonce) => {
+          await new Promise((resolve) => setTimeout(resolve, delay));
+          order.push(nonce);
+          return nonce;
+        })
+      )
+    );
+
+    expect(nonces).toEqual([5, 6, 7]);
+    expect(order).toEqual([5, 6, 7]);
+    expect(account.source.getTransactionCount).toHaveBeenCalledTimes(1);
+    expect(account.source.getTransactionCount).toHaveBeenCalledWith({ address, blockTag: 'pending' });
+  });
+
+  it('should reuse a nonce when the send fails before broadcast', async () => {
+    const manager = new NonceManager();
+    const account = createAccount(2);
+
+    await expect(
+      manager.withNonce(account, async () => {
+        throw new Error('insufficient funds for gas * price + value');
+      })
+    ).rejects.toThrow('insufficient funds');
+
+    expect(await manager.withNonce(account, async (nonce) => nonce)).toBe(2);
+  });
+
+  it('should resync after the node rejects a nonce', async () => {
+    const manager = new NonceManager();
+    let pending = 3;
+    const account = createAccount(() => pending);
+
+    await manager.withNonce(account, async (nonce) => nonce);
+    pending = 9;
+    await expect(
+      manager.withNonce(account, async () => {
+        throw new Error('nonce too low: next nonce 9, tx nonce 4');
+      })
+    ).rejects.toThrow('nonce too low');
+
+    expect(await manager.withNonce(account, async (nonce) => nonce)).toBe(9);
+  });
+
+  it('should refill the gap left by a dropped transaction', async () => {
+    const manager = new NonceManager();
+    let pending = 0;
+    const account = createAccount(() => pending);
+
+    for (let i = 0; i < 3; i++) {
+      await manager.withNonce(account, async (nonce) => nonce);
+    }
+    expect(manager.peek(44787, address)).toBe(3);
+
+    pending = 1;
+    manager.releaseNonce(44787, address, 1);
+
+    expect(await manager.withNonce(account, async (nonce) => nonce)).toBe(1);
+  });
+
+  it('should honour explicit nonces and keep accounts on different chains apart', async () => {
+    const manager = new NonceManager();
+    const alfajores = createAccount(12);
+    const mainnet = createAccount(40, 42220);
+
+    expect(await manager.withNonce(alfajores, async (nonce) => nonce, 12)).toBe(12);
+    expect(await manager.withNonce(alfajores, async (nonce) => nonce, 11)).toBe(11);
+    expect(await manager.withNonce(alfajores, async (nonce) => nonce)).toBe(13);
+    expect(await manager.withNonce(mainnet, async (nonce) => nonce)).toBe(40);
+    expect(await manager.resync(alfajores)).toBe(12);
+  });
+
+  it('should reject explicit nonces that would leave a gap', async () => {
+    const manager = new NonceManager();
+    let pending = 0;
+    const account = createAccount(() => pending);
+    const send = vi.fn(async (nonce: number) => nonce);
+
+    await expect(manager.withNonce(account, send, 12)).rejects.toThrow(
+      'Nonce 12 would leave a gap after pending nonce 0'
+    );
+    expect(send).not.toHaveBeenCalled();
+    expect(await manager.withNonce(account, send)).toBe(0);
+
+    pending = 5;
+    expect(await manager.withNonce(account, send, 5)).toBe(5);
+    expect(manager.peek(44787, address)).toBe(6);
+  });
+
+  it('should recognise nonce errors', () => {
+    expect(isNonceError(new Error('replacement transaction underpriced'))).toBe(true);
+    expect(isNonceError(new Error('execution reverted'))).toBe(false);
+  });
+});
@@ -0,0 +1,108 @@
+import type { Address } from 'viem';
+
+export interface NonceSource {
+  getTransactionCount(args: { address: Address; blockTag: 'pending' }): Promise<number>;
+}
+
+export interface NonceAccount {
+  chainId: number;
+  address: Address;
+  source: NonceSource;
+}
+
+interface AccountNonceState {
+  next?: number;
+  queue: Promise<void>;
+}
+
+const NONCE_ERROR_PATTERN = /nonce too low|nonce too high|nonce has already been used|invalid nonce|replacement transaction underpriced|already known/i;
+
+export function isNonceError(error: unknown): boolean {
+  return error instanceof Error && NONCE_ERROR_PATTERN.test(error.message);
+}
+
+export class NonceManager {
+  private accounts = new Map<string, AccountNonceState>();
+
+  async withNonce<T>(
+    account: NonceAccount,
+    send: (nonce: number) => Promise<T>,
+    requestedNonce?: number
+  ): Promise<T> {
+    const state = this.getState(account);
+    const run = state.queue.then(async () => {
+      if (state.next === undefined) {
+        state.next = await this.fetchPendingNonce(account);
+      }
+
+      if (requestedNonce !== undefined && requestedNonce > state.next) {
+        state.next = await this.fetchPendingNonce(account);
+        if (requestedNonce > state.next) {
+          throw new Error(`Nonce ${requestedNonce} would leave a gap after pending nonce ${state.next}`);
+        }
+      }
+
+      const nonce = requestedNonce ?? state.next;
+      try {
+        const result = await send(nonce);
+        state.next = Math.max(state.next ?? 0, nonce + 1);
+        return result;
+      } catch (error) {
+        if (isNonceError(error)) {
+          state.next = undefined;
+        }
+        throw error;
+      }
+    });
+
+    state.queue = run.then(
+      () => undefined,
+      () => undefined
+    );
+    return run;
+  }
+
+  async resync(account: NonceAccount): Promise<number> {
+    const state = this.getState(account);
+    const run = state.queue.then(async () => {
+      state.next = await this.fetchPendingNonce(account);
+      return state.next;
+    });
+    state.queue = run.then(
+      () => undefined,
+      () => undefined
+    );
+    return run;
+  }
+
+  releaseNonce(chainId: number, address: Address, nonce: number): void {
+    const state = this.accounts.get(this.key(chainId, address));
+    if (state?.next !== undefined && nonce < state.next) {
+      state.next = undefined;
+    }
+  }
+
+  peek(chainId: number, address: Address): number | undefined {
+    return this.accounts.get(this.key(chainId, address))?.next;
+  }
+
+  private fetchPendingNonce(account: NonceAccount): Promise<number> {
+    return account.source.getTransactionCount({ address: account.address, blockTag: 'pending' });
+  }
+
+  private getState(account: NonceAccount): AccountNonceState {
+    const key = this.key(account.chainId, account.address);
+    let state = this.accounts.get(key);
+    if (!state) {
+      state = { queue: Promise.resolve() };
+      this.accounts.set(key, state);
+    }
+    return state;
+  }
+
+  private key(chainId: number, address: Address): string {
+    return `${chainId}:${address.toLowerCase()}`;
+  }
+}
+
+export const nonceManager = new NonceManager();
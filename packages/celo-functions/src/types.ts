@@ -1,9 +1,17 @@
 export type { CeloClientConfig } from './client.js';
 export type {
   TransactionResult,
+  BroadcastTransaction,
+  TransactionLifecycleState,
+  SimulationResult,
+  GasPriority,
+  FeeSuggestion,
+  FeeSuggestions,
+  GasCostEstimate,
   TokenBalance,
   TransactionRequest,
   EventFilter,
+  ContractEventLog,
   ContractCall,
   DeploymentResult,
 } from '@celo-automator/types';
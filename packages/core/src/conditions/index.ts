@@ -0,0 +1,55 @@
+import type { ConditionOperator } from '@celo-automator/types';
+import { ValidationError } from '../errors/index.js';
+
+export type ComparableValue = string | number | bigint;
+
+const INTEGER_PATTERN = /^-?\d+$/;
+
+function toBigInt(value: ComparableValue): bigint | undefined {
+  if (typeof value === 'bigint') {
+    return value;
+  }
+  if (typeof value === 'number') {
+    return Number.isInteger(value) ? BigInt(value) : undefined;
+  }
+  const trimmed = value.trim();
+  return INTEGER_PATTERN.test(trimmed) ? BigInt(trimmed) : undefined;
+}
+
+function compare(actual: ComparableValue, expected: ComparableValue): number {
+  const a = toBigInt(actual);
+  const b = toBigInt(expected);
+  if (a !== undefined && b !== undefined) {
+    return a === b ? 0 : a > b ? 1 : -1;
+  }
+
+  const x = Number(actual);
+  const y = Number(expected);
+  if (Number.isNaN(x) || Number.isNaN(y)) {
+    throw new ValidationError(`Cannot compare ${String(actual)} with ${String(expected)}`);
+  }
+  return Math.sign(x - y);
+}
+
+export function compareValues(
+  actual: ComparableValue,
+  operator: ConditionOperator,
+  expected: ComparableValue
+): boolean {
+  const result = compare(actual, expected);
+
+  switch (operator) {
+    case 'gt':
+      return result > 0;
+    case 'gte':
+      return result >= 0;
+    case 'lt':
+      return result < 0;
+    case 'lte':
+      return result <= 0;
+    case 'eq':
+      return result === 0;
+    default:
+      throw new ValidationError(`Unknown condition operator: ${operator}`);
+  }
+}
@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest';
+import { getCronRunsBetween, getNextCronRun, getPreviousCronRun, isValidCron, parseCron } from './index.js';
+
+function next(expression: string, after: string): string {
+  return getNextCronRun(expression, new Date(after)).toISOString();
+}
+
+describe('parseCron', () => {
+  it('should expand macros', () => {
+    expect(parseCron('@hourly').minutes).toEqual(new Set([0]));
+    expect(parseCron('@daily').hours).toEqual(new Set([0]));
+    expect(parseCron('@weekly').daysOfWeek).toEqual(new Set([0]));
+    expect(parseCron('@yearly').months).toEqual(new Set([1]));
+    expect(parseCron('@Monthly').daysOfMonth).toEqual(new Set([1]));
+  });
+
+  it('should accept month and day names', () => {
+    const schedule = parseCron('0 9 * jan-MAR MON-FRI');
+
+    expect(schedule.months).toEqual(new Set([1, 2, 3]));
+    expect(schedule.daysOfWeek).toEqual(new Set([1, 2, 3, 4, 5]));
+  });
+
+  it('should expand steps over wildcards, ranges and start values', () => {
+    expect(parseCron('*/15 * * * *').minutes).toEqual(new Set([0, 15, 30, 45]));
+    expect(parseCron('10-20/5 * * * *').minutes).toEqual(new Set([10, 15, 20]));
+    expect(parseCron('5/20 * * * *').minutes).toEqual(new Set([5, 25, 45]));
+    expect(parseCron('1,2,30 * * * *').minutes).toEqual(new Set([1, 2, 30]));
+  });
+
+  it('should treat day of week 7 as Sunday', () => {
+    expect(parseCron('0 0 * * 7').daysOfWeek).toEqual(new Set([0]));
+    expect(parseCron('0 0 * * 5-7').daysOfWeek).toEqual(new Set([5, 6, 0]));
+  });
+
+  it('should reject malformed expressions', () => {
+    expect(() => parseCron('* * * *')).toThrow('5 fields');
+    expect(() => parseCron('60 * * * *')).toThrow('out of range');
+    expect(() => parseCron('*/0 * * * *')).toThrow('Invalid cron step');
+    expect(() => parseCron('0 0 * * FOO')).toThrow('Invalid cron value');
+    expect(isValidCron('0 0 0 * *')).toBe(false);
+    expect(isValidCron('0 0 30 2 *')).toBe(false);
+    expect(isValidCron('@daily')).toBe(true);
+  });
+});
+
+describe('getNextCronRun', () => {
+  it('should return the next matching minute strictly after the given time', () => {
+    expect(next('@hourly', '2024-01-01T10:15:30Z')).toBe('2024-01-01T11:00:00.000Z');
+    expect(next('*/15 * * * *', '2024-01-01T10:15:00Z')).toBe('2024-01-01T10:30:00.000Z');
+  });
+
+  it('should match either day of month or day of week when both are restricted', () => {
+    expect(next('0 0 13 * FRI', '2024-01-01T00:00:00Z')).toBe('2024-01-05T00:00:00.000Z');
+    expect(next('0 0 13 * FRI', '2024-01-12T00:00:00Z')).toBe('2024-01-13T00:00:00.000Z');
+  });
+
+  it('should require both day fields when only one is restricted', () => {
+    expect(next('0 0 * * MON', '2024-01-01T00:00:00Z')).toBe('2024-01-08T00:00:00.000Z');
+    expect(next('0 0 13 * *', '2024-01-01T00:00:00Z')).toBe('2024-01-13T00:00:00.000Z');
+  });
+
+  it('should roll over months and years', () => {
+    expect(next('0 0 31 * *', '2024-01-31T00:00:00Z')).toBe('2024-03-31T00:00:00.000Z');
+    expect(next('30 23 * * *', '2024-12-31T23:45:00Z')).toBe('2025-01-01T23:30:00.000Z');
+    expect(next('0 9 * JAN-MAR MON-FRI', '2024-03-29T10:00:00Z')).toBe('2025-01-01T09:00:00.000Z');
+    expect(next('0 0 29 2 *', '2024-03-01T00:00:00Z')).toBe('2028-02-29T00:00:00.000Z');
+  });
+
+  it('should evaluate schedules in UTC', () => {
+    expect(next('0 9 * * *', '2024-06-01T08:59:00+02:00')).toBe('2024-06-01T09:00:00.000Z');
+  });
+
+  it('should throw when the schedule can never fire', () => {
+    expect(() => next('0 0 30 2 *', '2024-01-01T00:00:00Z')).toThrow('never fires');
+  });
+});
+
+describe('getPreviousCronRun', () => {
+  function previous(expression: string, before: string): string {
+    return getPreviousCronRun(expression, new Date(before)).toISOString();
+  }
+
+  it('should return the latest matching minute strictly before the given time', () => {
+    expect(previous('* * * * *', '2024-01-01T01:00:00Z')).toBe('2024-01-01T00:59:00.000Z');
+    expect(previous('* * * * *', '2024-01-01T01:00:30Z')).toBe('2024-01-01T01:00:00.000Z');
+    expect(previous('*/15 * * * *', '2024-01-01T10:14:00Z')).toBe('2024-01-01T10:00:00.000Z');
+  });
+
+  it('should roll back across hours, days, months and years', () => {
+    expect(previous('30 9 * * *', '2024-01-02T09:00:00Z')).toBe('2024-01-01T09:30:00.000Z');
+    expect(previous('0 0 31 * *', '2024-03-01T00:00:00Z')).toBe('2024-01-31T00:00:00.000Z');
+    expect(previous('0 12 * * MON', '2024-01-01T11:00:00Z')).toBe('2023-12-25T12:00:00.000Z');
+    expect(previous('0 0 29 2 *', '2028-02-28T00:00:00Z')).toBe('2024-02-29T00:00:00.000Z');
+  });
+
+  it('should throw when the schedule can never fire', () => {
+    expect(() => getPreviousCronRun('0 0 30 2 *', new Date('2024-01-01T00:00:00Z'))).toThrow('never fires');
+  });
+});
+
+describe('getCronRunsBetween', () => {
+  it('should list runs after the start up to and including the end', () => {
+    const runs = getCronRunsBetween('0 * * * *', new Date('2024-01-01T10:00:00Z'), new Date('2024-01-01T13:00:00Z'));
+
+    expect(runs.map((run) => run.toISOString())).toEqual([
+      '2024-01-01T11:00:00.000Z',
+      '2024-01-01T12:00:00.000Z',
+      '2024-01-01T13:00:00.000Z',
+    ]);
+  });
+
+  it('should stop at the limit', () => {
+    const runs = getCronRunsBetween('* * * * *', new Date('2024-01-01T00:00:00Z'), new Date('2024-01-02T00:00:00Z'), 3);
+
+    expect(runs).toHaveLength(3);
+    expect(runs[2].toISOString()).toBe('2024-01-01T00:03:00.000Z');
+  });
+
+  it('should return nothing when no run falls in the window', () => {
+    expect(getCronRunsBetween('@daily', new Date('2024-01-01T01:00:00Z'), new Date('2024-01-01T23:00:00Z'))).toEqual([]);
+  });
+});
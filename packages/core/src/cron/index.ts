@@ -0,0 +1,214 @@
+import { ValidationError } from '../errors/index.js';
+
+export interface CronSchedule {
+  expression: string;
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  domRestricted: boolean;
+  dowRestricted: boolean;
+}
+
+const CRON_MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *',
+};
+
+const MONTH_NAMES = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+const DAY_NAMES = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
+
+const MAX_SEARCH_MINUTES = 5 * 366 * 24 * 60;
+const MINUTE_MS = 60 * 1000;
+
+function parseValue(value: string, min: number, names?: string[]): number {
+  const upper = value.toUpperCase();
+  if (names) {
+    const index = names.indexOf(upper);
+    if (index >= 0) {
+      return index + min;
+    }
+  }
+  if (!/^\d+$/.test(value)) {
+    throw new ValidationError(`Invalid cron value: ${value}`);
+  }
+  return Number(value);
+}
+
+function parseField(field: string, min: number, max: number, names?: string[]): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const [range, stepPart] = part.split('/');
+    const step = stepPart === undefined ? 1 : Number(stepPart);
+
+    if (!Number.isInteger(step) || step < 1) {
+      throw new ValidationError(`Invalid cron step: ${part}`);
+    }
+
+    let start: number;
+    let end: number;
+
+    if (range === '*') {
+      start = min;
+      end = max;
+    } else if (range.includes('-')) {
+      const [from, to] = range.split('-');
+      start = parseValue(from, min, names);
+      end = parseValue(to, min, names);
+    } else {
+      start = parseValue(range, min, names);
+      end = stepPart === undefined ? start : max;
+    }
+
+    if (start < min || end > max || start > end) {
+      throw new ValidationError(`Cron field out of range: ${part}`);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+export function parseCron(expression: string): CronSchedule {
+  const normalized = CRON_MACROS[expression.trim().toLowerCase()] ?? expression.trim();
+  const fields = normalized.split(/\s+/);
+
+  if (fields.length !== 5) {
+    throw new ValidationError(`Cron expression must have 5 fields: ${expression}`);
+  }
+
+  const [minute, hour, dayOfMonth, month, dayOfWeek] = fields;
+  const daysOfWeek = parseField(dayOfWeek, 0, 7, DAY_NAMES);
+  if (daysOfWeek.has(7)) {
+    daysOfWeek.delete(7);
+    daysOfWeek.add(0);
+  }
+
+  return {
+    expression,
+    minutes: parseField(minute, 0, 59),
+    hours: parseField(hour, 0, 23),
+    daysOfMonth: parseField(dayOfMonth, 1, 31),
+    months: parseField(month, 1, 12, MONTH_NAMES),
+    daysOfWeek,
+    domRestricted: dayOfMonth !== '*',
+    dowRestricted: dayOfWeek !== '*',
+  };
+}
+
+export function isValidCron(expression: string): boolean {
+  try {
+    getNextCronRun(parseCron(expression), new Date());
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const domMatch = schedule.daysOfMonth.has(date.getUTCDate());
+  const dowMatch = schedule.daysOfWeek.has(date.getUTCDay());
+
+  if (schedule.domRestricted && schedule.dowRestricted) {
+    return domMatch || dowMatch;
+  }
+  return domMatch && dowMatch;
+}
+
+export function getNextCronRun(cron: string | CronSchedule, after: Date): Date {
+  const schedule = typeof cron === 'string' ? parseCron(cron) : cron;
+  const candidate = new Date(after.getTime());
+  candidate.setUTCSeconds(0, 0);
+  candidate.setUTCMinutes(candidate.getUTCMinutes() + 1);
+
+  for (let i = 0; i < MAX_SEARCH_MINUTES; i++) {
+    if (!schedule.months.has(candidate.getUTCMonth() + 1)) {
+      candidate.setUTCMonth(candidate.getUTCMonth() + 1, 1);
+      candidate.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!matchesDay(schedule, candidate)) {
+      candidate.setUTCDate(candidate.getUTCDate() + 1);
+      candidate.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!schedule.hours.has(candidate.getUTCHours())) {
+      candidate.setUTCHours(candidate.getUTCHours() + 1, 0, 0, 0);
+      continue;
+    }
+    if (!schedule.minutes.has(candidate.getUTCMinutes())) {
+      candidate.setUTCMinutes(candidate.getUTCMinutes() + 1, 0, 0);
+      continue;
+    }
+    return candidate;
+  }
+
+  throw new ValidationError(`Cron expression never fires: ${schedule.expression}`);
+}
+
+export function getPreviousCronRun(cron: string | CronSchedule, before: Date): Date {
+  const schedule = typeof cron === 'string' ? parseCron(cron) : cron;
+  let candidate = new Date(before.getTime());
+  candidate.setUTCSeconds(0, 0);
+  if (candidate.getTime() >= before.getTime()) {
+    candidate = new Date(candidate.getTime() - MINUTE_MS);
+  }
+
+  for (let i = 0; i < MAX_SEARCH_MINUTES; i++) {
+    if (!schedule.months.has(candidate.getUTCMonth() + 1)) {
+      candidate.setUTCDate(1);
+      candidate.setUTCHours(0, 0, 0, 0);
+      candidate = new Date(candidate.getTime() - MINUTE_MS);
+      continue;
+    }
+    if (!matchesDay(schedule, candidate)) {
+      candidate.setUTCHours(0, 0, 0, 0);
+      candidate = new Date(candidate.getTime() - MINUTE_MS);
+      continue;
+    }
+    if (!schedule.hours.has(candidate.getUTCHours())) {
+      candidate.setUTCMinutes(0, 0, 0);
+      candidate = new Date(candidate.getTime() - MINUTE_MS);
+      continue;
+    }
+    if (!schedule.minutes.has(candidate.getUTCMinutes())) {
+      candidate = new Date(candidate.getTime() - MINUTE_MS);
+      continue;
+    }
+    return candidate;
+  }
+
+  throw new ValidationError(`Cron expression never fires: ${schedule.expression}`);
+}
+
+export function getCronRunsBetween(
+  cron: string | CronSchedule,
+  from: Date,
+  to: Date,
+  limit: number = 1000
+): Date[] {
+  const schedule = typeof cron === 'string' ? parseCron(cron) : cron;
+  const runs: Date[] = [];
+  let cursor = from;
+
+  while (runs.length < limit) {
+    const next = getNextCronRun(schedule, cursor);
+    if (next.getTime() > to.getTime()) {
+      break;
+    }
+    runs.push(next);
+    cursor = next;
+  }
+
+  return runs;
+}
@@ -0,0 +1,42 @@
+export interface StructuralChange {
+  path: string;
+  type: 'added' | 'removed' | 'changed';
+  before?: unknown;
+  after?: unknown;
+}
+
+function isContainer(value: unknown): value is Record<string, unknown> | unknown[] {
+  return typeof value === 'object' && value !== null;
+}
+
+function joinPath(parent: string, key: string | number): string {
+  return parent ? `${parent}.${key}` : String(key);
+}
+
+export function diffStructures(before: unknown, after: unknown, path = ''): StructuralChange[] {
+  if (Object.is(before, after)) {
+    return [];
+  }
+
+  if (
+    !isContainer(before) ||
+    !isContainer(after) ||
+    Array.isArray(before) !== Array.isArray(after)
+  ) {
+    if (before === undefined) {
+      return [{ path, type: 'added', after }];
+    }
+    if (after === undefined) {
+      return [{ path, type: 'removed', before }];
+    }
+    return [{ path, type: 'changed', before, after }];
+  }
+
+  const keys = Array.isArray(before)
+    ? Array.from({ length: Math.max(before.length, (after as unknown[]).length) }, (_, index) => index)
+    : Array.from(new Set([...Object.keys(before), ...Object.keys(after)])).sort();
+
+  return keys.flatMap((key) =>
+    diffStructures((before as any)[key], (after as any)[key], joinPath(path, key))
+  );
+}
@@ -0,0 +1,24 @@
+import { describe, it, expect } from 'vitest';
+import { classifyTransientError } from './index.js';
+
+describe('classifyTransientError', () => {
+  it('should classify errors raised before a transaction is accepted', () => {
+    expect(classifyTransientError('nonce too low: next nonce 9, tx nonce 4')).toBe('nonce');
+    expect(classifyTransientError('HTTP request failed. Status: 429')).toBe('rate_limit');
+    expect(classifyTransientError('HTTP request failed: ETIMEDOUT')).toBe('rpc_timeout');
+    expect(classifyTransientError('Action timed out after 5000ms')).toBe('action_timeout');
+  });
+
+  it('should not classify errors raised after the transaction reached the node', () => {
+    expect(classifyTransientError('already known')).toBeUndefined();
+    expect(classifyTransientError('replacement transaction underpriced')).toBeUndefined();
+    expect(
+      classifyTransientError('Timed out while waiting for transaction with hash "0xabc" to be confirmed.')
+    ).toBeUndefined();
+  });
+
+  it('should not classify permanent failures', () => {
+    expect(classifyTransientError('insufficient funds for gas * price + value')).toBeUndefined();
+    expect(classifyTransientError('execution reverted')).toBeUndefined();
+  });
+});
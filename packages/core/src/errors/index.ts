@@ -1,3 +1,5 @@
+import type { RetryableErrorClass } from '@celo-automator/types';
+
 export class AutomatorError extends Error {
   constructor(
     message: string,
@@ -29,3 +31,20 @@ export class WorkflowError extends AutomatorError {
     this.name = 'WorkflowError';
   }
 }
+
+const TRANSIENT_ERROR_PATTERNS: Array<[Exclude<RetryableErrorClass, 'any'>, RegExp]> = [
+  ['action_timeout', /^Action timed out after/],
+  ['nonce', /nonce too low|nonce has already been used|nonce too high/i],
+  ['rate_limit', /\b429\b|rate limit|too many requests/i],
+  ['rpc_timeout', /ETIMEDOUT|ECONNRESET|ECONNREFUSED|socket hang up|timed out|timeout|took too long|fetch failed|HTTP request failed/i],
+];
+
+// The transaction already reached the node, so sending it again would duplicate it.
+const BROADCAST_ERROR_PATTERN = /already known|replacement transaction underpriced|waiting for transaction/i;
+
+export function classifyTransientError(message: string): Exclude<RetryableErrorClass, 'any'> | undefined {
+  if (BROADCAST_ERROR_PATTERN.test(message)) {
+    return undefined;
+  }
+  return TRANSIENT_ERROR_PATTERNS.find(([, pattern]) => pattern.test(message))?.[0];
+}
@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { GasOptimizer } from './index.js';
+
+describe('GasOptimizer', () => {
+  const optimizer = new GasOptimizer();
+
+  it('should buffer the gas limit and scale fees by priority', () => {
+    const estimate = { gasLimit: 100000n, maxFeePerGas: 1000n, maxPriorityFeePerGas: 100n };
+
+    expect(optimizer.optimizeGas(estimate, { priority: 'low' })).toMatchObject({
+      optimizedGasLimit: 120000n,
+      optimizedMaxFeePerGas: 800n,
+      optimizedMaxPriorityFeePerGas: 80n,
+    });
+    expect(optimizer.optimizeGas(estimate, { priority: 'high' })).toMatchObject({
+      optimizedMaxFeePerGas: 1200n,
+      optimizedMaxPriorityFeePerGas: 120n,
+    });
+  });
+
+  it('should cap fees at the maximum gas price', () => {
+    const result = optimizer.optimizeGas(
+      { gasLimit: 10000n, maxFeePerGas: 1000n, maxPriorityFeePerGas: 100n },
+      { priority: 'high', maxGasPrice: 950n }
+    );
+
+    expect(result).toMatchObject({
+      optimizedGasLimit: 21000n,
+      optimizedMaxFeePerGas: 950n,
+      optimizedMaxPriorityFeePerGas: 50n,
+      estimatedSavings: 250n,
+    });
+    expect(optimizer.estimateTotalCost(result)).toBe(21000n * 950n);
+  });
+
+  it('should scale the legacy gas price when EIP-1559 fees are unavailable', () => {
+    const result = optimizer.optimizeGas({ gasLimit: 21000n, gasPrice: 1000n }, { priority: 'low', useEIP1559: false });
+
+    expect(result.optimizedGasPrice).toBe(800n);
+    expect(result.optimizedMaxFeePerGas).toBeUndefined();
+  });
+});
@@ -0,0 +1,108 @@
+import type { GasPriority } from '@celo-automator/types';
+
+export interface GasOptimizationResult {
+  optimizedGasLimit: bigint;
+  optimizedGasPrice?: bigint;
+  optimizedMaxFeePerGas?: bigint;
+  optimizedMaxPriorityFeePerGas?: bigint;
+  estimatedSavings?: bigint;
+  confidence: number;
+}
+
+export interface GasEstimate {
+  gasLimit: bigint;
+  gasPrice?: bigint;
+  maxFeePerGas?: bigint;
+  maxPriorityFeePerGas?: bigint;
+}
+
+export interface GasOptimizationOptions {
+  maxGasPrice?: bigint;
+  priority?: GasPriority;
+  useEIP1559?: boolean;
+}
+
+const GWEI = 1000000000n;
+const GAS_BUFFER_MULTIPLIER = 120n;
+const MIN_GAS_LIMIT = 21000n;
+const MAX_GAS_LIMIT = 30000000n;
+
+const PRIORITY_MULTIPLIERS: Record<GasPriority, bigint> = {
+  low: 80n,
+  normal: 100n,
+  high: 120n,
+};
+
+export class GasOptimizer {
+  optimizeGas(estimate: GasEstimate, options?: GasOptimizationOptions): GasOptimizationResult {
+    const { gasLimit, gasPrice, maxFeePerGas, maxPriorityFeePerGas } = estimate;
+
+    let optimizedGasLimit = (gasLimit * GAS_BUFFER_MULTIPLIER) / 100n;
+    if (optimizedGasLimit < MIN_GAS_LIMIT) {
+      optimizedGasLimit = MIN_GAS_LIMIT;
+    }
+    if (optimizedGasLimit > MAX_GAS_LIMIT) {
+      optimizedGasLimit = MAX_GAS_LIMIT;
+    }
+
+    const multiplier = PRIORITY_MULTIPLIERS[options?.priority ?? 'normal'];
+    const useEIP1559 = options?.useEIP1559 ?? true;
+
+    if (useEIP1559 && (maxFeePerGas || maxPriorityFeePerGas)) {
+      const estimatedMaxPriorityFeePerGas = maxPriorityFeePerGas ?? 2n * GWEI;
+      const estimatedMaxFeePerGas = maxFeePerGas ?? 30n * GWEI;
+
+      let optimizedMaxPriorityFeePerGas = (estimatedMaxPriorityFeePerGas * multiplier) / 100n;
+      const optimizedMaxFeePerGas = (estimatedMaxFeePerGas * multiplier) / 100n;
+
+      if (options?.maxGasPrice && optimizedMaxFeePerGas > options.maxGasPrice) {
+        const cappedMaxFee = options.maxGasPrice;
+        const estimatedBaseFee =
+          estimatedMaxFeePerGas > estimatedMaxPriorityFeePerGas
+            ? estimatedMaxFeePerGas - estimatedMaxPriorityFeePerGas
+            : 0n;
+        const availableForPriority = cappedMaxFee - estimatedBaseFee;
+
+        if (optimizedMaxPriorityFeePerGas > availableForPriority) {
+          optimizedMaxPriorityFeePerGas = availableForPriority;
+        }
+        if (optimizedMaxPriorityFeePerGas < 0n) {
+          optimizedMaxPriorityFeePerGas = 0n;
+        }
+
+        return {
+          optimizedGasLimit,
+          optimizedMaxFeePerGas: cappedMaxFee,
+          optimizedMaxPriorityFeePerGas,
+          estimatedSavings: optimizedMaxFeePerGas - cappedMaxFee,
+          confidence: 0.8,
+        };
+      }
+
+      return {
+        optimizedGasLimit,
+        optimizedMaxFeePerGas,
+        optimizedMaxPriorityFeePerGas,
+        confidence: 0.95,
+      };
+    }
+
+    let optimizedGasPrice = ((gasPrice ?? 20n * GWEI) * multiplier) / 100n;
+    if (options?.maxGasPrice && optimizedGasPrice > options.maxGasPrice) {
+      optimizedGasPrice = options.maxGasPrice;
+    }
+
+    return {
+      optimizedGasLimit,
+      optimizedGasPrice,
+      confidence: 0.9,
+    };
+  }
+
+  estimateTotalCost(optimized: GasOptimizationResult): bigint {
+    const gasPrice = optimized.optimizedGasPrice || optimized.optimizedMaxFeePerGas || 0n;
+    return optimized.optimizedGasLimit * gasPrice;
+  }
+}
+
+export const gasOptimizer = new GasOptimizer();
@@ -0,0 +1,92 @@
+import type { Workflow } from '@celo-automator/types';
+
+type WorkflowActions = Workflow['actions'];
+
+export function isWorkflowGraph(actions: WorkflowActions): boolean {
+  return actions.some((action) => Array.isArray(action.dependsOn));
+}
+
+export function getActionKey(action: WorkflowActions[0], index: number): string {
+  return action.id ?? String(index);
+}
+
+export function findDependencyCycle(actions: WorkflowActions): string[] | undefined {
+  const edges = new Map<string, string[]>(
+    actions.map((action, index) => [getActionKey(action, index), action.dependsOn ?? []])
+  );
+  const state = new Map<string, 'visiting' | 'done'>();
+  const path: string[] = [];
+
+  const visit = (key: string): string[] | undefined => {
+    if (state.get(key) === 'done' || !edges.has(key)) {
+      return undefined;
+    }
+    if (state.get(key) === 'visiting') {
+      return [...path.slice(path.indexOf(key)), key];
+    }
+
+    state.set(key, 'visiting');
+    path.push(key);
+    for (const dependency of edges.get(key)!) {
+      const cycle = visit(dependency);
+      if (cycle) {
+        return cycle;
+      }
+    }
+    path.pop();
+    state.set(key, 'done');
+    return undefined;
+  };
+
+  for (const key of edges.keys()) {
+    const cycle = visit(key);
+    if (cycle) {
+      return cycle;
+    }
+  }
+  return undefined;
+}
+
+export function getActionAncestors(actions: WorkflowActions, index: number): Set<string> {
+  const byKey = new Map(actions.map((action, i) => [getActionKey(action, i), action]));
+  const ancestors = new Set<string>();
+  const pending = [...(actions[index].dependsOn ?? [])];
+
+  while (pending.length > 0) {
+    const key = pending.pop()!;
+    if (ancestors.has(key) || !byKey.has(key)) {
+      continue;
+    }
+    ancestors.add(key);
+    pending.push(...(byKey.get(key)!.dependsOn ?? []));
+  }
+  return ancestors;
+}
+
+function toMermaidId(key: string): string {
+  return `step_${key.replace(/[^A-Za-z0-9_]/g, '_')}`;
+}
+
+export function renderWorkflowGraph(workflow: Workflow): string {
+  const graph = isWorkflowGraph(workflow.actions);
+  const lines = ['graph TD'];
+
+  workflow.actions.forEach((action, index) => {
+    const key = getActionKey(action, index);
+    lines.push(`  ${toMermaidId(key)}["${key}: ${action.type}"]`);
+  });
+
+  workflow.actions.forEach((action, index) => {
+    const key = getActionKey(action, index);
+    const dependencies = graph
+      ? action.dependsOn ?? []
+      : index > 0
+      ? [getActionKey(workflow.actions[index - 1], index - 1)]
+      : [];
+    for (const dependency of dependencies) {
+      lines.push(`  ${toMermaidId(dependency)} --> ${toMermaidId(key)}`);
+    }
+  });
+
+  return lines.join('\n');
+}
@@ -1,4 +1,12 @@
 export * from './utils/index.js';
 export * from './validators/index.js';
 export * from './errors/index.js';
+export * from './cron/index.js';
+export * from './conditions/index.js';
+export * from './price-feed/index.js';
+export * from './templating/index.js';
+export * from './diff/index.js';
+export * from './graph/index.js';
+export * from './tokens/index.js';
+export * from './gas/index.js';
 export * from './workflow-templates.js';
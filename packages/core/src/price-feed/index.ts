@@ -0,0 +1,52 @@
+import { readFileSync } from 'fs';
+import { ValidationError } from '../errors/index.js';
+
+export interface PriceQuote {
+  asset: string;
+  price: string;
+  updatedAt: string;
+  source: string;
+}
+
+export interface PriceFeed {
+  readonly name: string;
+  getPrice(asset: string): Promise<PriceQuote>;
+}
+
+function normalizeAsset(asset: string): string {
+  return asset.trim().toUpperCase();
+}
+
+export class StaticPriceFeed implements PriceFeed {
+  readonly name = 'static';
+  private prices = new Map<string, PriceQuote>();
+
+  constructor(prices: Record<string, string | number> = {}) {
+    for (const [asset, price] of Object.entries(prices)) {
+      this.setPrice(asset, price);
+    }
+  }
+
+  static fromFixture(path: string): StaticPriceFeed {
+    const prices = JSON.parse(readFileSync(path, 'utf-8')) as Record<string, string | number>;
+    return new StaticPriceFeed(prices);
+  }
+
+  setPrice(asset: string, price: string | number): void {
+    const key = normalizeAsset(asset);
+    this.prices.set(key, {
+      asset: key,
+      price: String(price),
+      updatedAt: new Date().toISOString(),
+      source: this.name,
+    });
+  }
+
+  async getPrice(asset: string): Promise<PriceQuote> {
+    const quote = this.prices.get(normalizeAsset(asset));
+    if (!quote) {
+      throw new ValidationError(`No price available for ${asset}`);
+    }
+    return { ...quote };
+  }
+}
@@ -0,0 +1,136 @@
+import { ValidationError } from '../errors/index.js';
+import { formatAmount, getValueAtPath } from '../utils/index.js';
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([^}|]+?)\s*(?:\|\s*([^}]+?)\s*)?\}\}/g;
+
+const SINGLE_PLACEHOLDER_PATTERN = new RegExp(`^${PLACEHOLDER_PATTERN.source}$`);
+
+const DECIMAL_PATTERN = /^-?\d+(\.\d+)?$/;
+
+export const TEMPLATE_FILTERS = ['units', 'json', 'upper', 'lower', 'mul', 'div', 'add', 'sub', 'percent'] as const;
+
+export interface TemplateReference {
+  path: string;
+  filters: string[];
+}
+
+function toFraction(value: unknown): [bigint, bigint] {
+  const text = String(value).trim();
+  if (!DECIMAL_PATTERN.test(text)) {
+    throw new ValidationError(`Expected a numeric value, got ${text}`);
+  }
+  const [whole, fraction = ''] = text.split('.');
+  return [BigInt(whole + fraction), 10n ** BigInt(fraction.length)];
+}
+
+function applyArithmetic(name: string, value: unknown, arg?: string): string {
+  if (arg === undefined) {
+    throw new ValidationError(`Template filter ${name} requires an argument`);
+  }
+
+  const [an, ad] = toFraction(value);
+  const [bn, bd] = toFraction(arg);
+
+  switch (name) {
+    case 'mul':
+      return ((an * bn) / (ad * bd)).toString();
+    case 'div':
+      if (bn === 0n) {
+        throw new ValidationError('Template filter div cannot divide by zero');
+      }
+      return ((an * bd) / (ad * bn)).toString();
+    case 'add':
+      return ((an * bd + bn * ad) / (ad * bd)).toString();
+    case 'sub':
+      return ((an * bd - bn * ad) / (ad * bd)).toString();
+    default:
+      return ((an * bn) / (ad * bd * 100n)).toString();
+  }
+}
+
+function parseFilter(filter: string): [string, string | undefined] {
+  const [name, arg] = filter.split(':').map((part) => part.trim());
+  return [name, arg];
+}
+
+function applyFilter(value: unknown, filter: string): unknown {
+  const [name, arg] = parseFilter(filter);
+
+  switch (name) {
+    case 'units':
+      return formatAmount(String(value), arg ? Number(arg) : 18);
+    case 'json':
+      return JSON.stringify(value);
+    case 'upper':
+      return String(value).toUpperCase();
+    case 'lower':
+      return String(value).toLowerCase();
+    case 'mul':
+    case 'div':
+    case 'add':
+    case 'sub':
+    case 'percent':
+      return applyArithmetic(name, value, arg);
+    default:
+      throw new ValidationError(`Unknown template filter: ${name}`);
+  }
+}
+
+function splitFilters(filters?: string): string[] {
+  return filters ? filters.split('|').map((filter) => filter.trim()).filter(Boolean) : [];
+}
+
+function evaluate(path: string, filters: string | undefined, scope: Record<string, unknown>): unknown {
+  const value = getValueAtPath(scope, path);
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  return splitFilters(filters).reduce(applyFilter, value);
+}
+
+function stringifyValue(value: unknown): string {
+  if (Array.isArray(value)) {
+    return value.map(stringifyValue).join(', ');
+  }
+  if (value && typeof value === 'object') {
+    return JSON.stringify(value);
+  }
+  return String(value);
+}
+
+export function renderTemplate(template: string, scope: Record<string, unknown>): string {
+  return template.replace(PLACEHOLDER_PATTERN, (_match, path: string, filters?: string) => {
+    const value = evaluate(path, filters, scope);
+    return value === undefined ? '' : stringifyValue(value);
+  });
+}
+
+export function resolveTemplateValue(template: string, scope: Record<string, unknown>): unknown {
+  const match = template.match(SINGLE_PLACEHOLDER_PATTERN);
+  if (match) {
+    return evaluate(match[1], match[2], scope);
+  }
+  return renderTemplate(template, scope);
+}
+
+export function resolveTemplates<T>(value: T, scope: Record<string, unknown>): T {
+  if (typeof value === 'string') {
+    return resolveTemplateValue(value, scope) as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => resolveTemplates(item, scope)) as T;
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, resolveTemplates(item, scope)])
+    ) as T;
+  }
+  return value;
+}
+
+export function extractTemplateReferences(template: string): TemplateReference[] {
+  return Array.from(template.matchAll(PLACEHOLDER_PATTERN), (match) => ({
+    path: match[1],
+    filters: splitFilters(match[2]).map((filter) => parseFilter(filter)[0]),
+  }));
+}
@@ -0,0 +1,45 @@
+import { isValidAddress } from '../utils/index.js';
+
+export type TokenNetwork = 'mainnet' | 'alfajores';
+
+export interface TokenInfo {
+  symbol: string;
+  address: string;
+  decimals: number;
+  native?: boolean;
+}
+
+const TOKEN_AMOUNT_PATTERN = /^\s*(\d+(?:\.\d+)?)\s*([A-Za-z][A-Za-z0-9]*)?\s*$/;
+
+export const CELO_TOKENS: Record<TokenNetwork, TokenInfo[]> = {
+  mainnet: [
+    { symbol: 'CELO', address: '0x471EcE3750Da237f93B8E339c536989b8978a438', decimals: 18, native: true },
+    { symbol: 'cUSD', address: '0x765DE816845861e75A25fCA122bb6898B8B1282a', decimals: 18 },
+    { symbol: 'cEUR', address: '0xD8763CBa276a3738E6DE85b4b3bF5FDed6D6cA73', decimals: 18 },
+  ],
+  alfajores: [
+    { symbol: 'CELO', address: '0xF194afDf50B03e69Bd7D057c1Aa9e10c9954E4C9', decimals: 18, native: true },
+    { symbol: 'cUSD', address: '0x874069Fa1Eb16D44d622F2e0Ca25eeA172369bC1', decimals: 18 },
+    { symbol: 'cEUR', address: '0x10c892A6EC43a53E45D0B916B4b7D383B1b78C0F', decimals: 18 },
+  ],
+};
+
+export function findToken(symbolOrAddress: string, network: TokenNetwork = 'mainnet'): TokenInfo | undefined {
+  const key = symbolOrAddress.trim().toLowerCase();
+  return CELO_TOKENS[network].find(
+    (token) => token.symbol.toLowerCase() === key || token.address.toLowerCase() === key
+  );
+}
+
+export function parseTokenAmount(text: string): { amount: string; symbol?: string } | undefined {
+  const match = text.match(TOKEN_AMOUNT_PATTERN);
+  return match ? { amount: match[1], symbol: match[2] } : undefined;
+}
+
+export function resolveFeeCurrency(symbolOrAddress: string, network: TokenNetwork = 'mainnet'): string | undefined {
+  const token = findToken(symbolOrAddress, network);
+  if (token) {
+    return token.native ? undefined : token.address;
+  }
+  return isValidAddress(symbolOrAddress) ? symbolOrAddress : undefined;
+}
@@ -100,4 +100,19 @@ export function deepMerge<T extends Record<string, any>>(
   }
 
   return result;
-}
\ No newline at end of file
+}
+export function getValueAtPath(source: unknown, path: string): unknown {
+  let current: any = source;
+
+  for (const segment of path.split('.').filter(Boolean)) {
+    if (current === undefined || current === null) {
+      return undefined;
+    }
+    if (segment === '__proto__' || segment === 'constructor' || segment === 'prototype') {
+      return undefined;
+    }
+    current = current[segment];
+  }
+
+  return current;
+}
@@ -1,6 +1,10 @@
 import { z } from 'zod';
 import { isValidAddress } from '../utils/index.js';
-import type { Workflow } from '@celo-automator/types';
+import { isValidCron } from '../cron/index.js';
+import { resolveFeeCurrency } from '../tokens/index.js';
+import { extractTemplateReferences, TEMPLATE_FILTERS } from '../templating/index.js';
+import { findDependencyCycle, getActionAncestors, getActionKey, isWorkflowGraph } from '../graph/index.js';
+import { WorkflowSchema, type Workflow } from '@celo-automator/types';
 
 export const AddressSchema = z.string().refine(isValidAddress, {
   message: 'Invalid address format',
@@ -10,17 +14,229 @@ export const AmountSchema = z.string().regex(/^\d+$/, {
   message: 'Amount must be a numeric string',
 });
 
+const TEMPLATE_ROOTS = [
+  'trigger',
+  'triggerType',
+  'steps',
+  'vars',
+  'secrets',
+  'workflow',
+  'executionId',
+  'results',
+  'transactionHashes',
+];
+
+function collectTemplateErrors(
+  value: unknown,
+  location: string,
+  knownSteps: Set<string>,
+  variables: Record<string, unknown>,
+  errors: string[]
+): void {
+  if (Array.isArray(value)) {
+    value.forEach((item, index) => collectTemplateErrors(item, `${location}.${index}`, knownSteps, variables, errors));
+    return;
+  }
+  if (value && typeof value === 'object') {
+    for (const [key, item] of Object.entries(value)) {
+      collectTemplateErrors(item, `${location}.${key}`, knownSteps, variables, errors);
+    }
+    return;
+  }
+  if (typeof value !== 'string') {
+    return;
+  }
+
+  for (const { path, filters } of extractTemplateReferences(value)) {
+    const [root, name] = path.split('.');
+    if (!TEMPLATE_ROOTS.includes(root)) {
+      errors.push(`${location}: unknown reference {{${path}}}`);
+    } else if (root === 'vars' && (!name || !(name in variables))) {
+      errors.push(`${location}: undefined variable {{${path}}}`);
+    } else if (root === 'steps' && (!name || !knownSteps.has(name))) {
+      errors.push(`${location}: step {{${path}}} is not defined before this action`);
+    }
+
+    for (const filter of filters) {
+      if (!(TEMPLATE_FILTERS as readonly string[]).includes(filter)) {
+        errors.push(`${location}: unknown template filter ${filter}`);
+      }
+    }
+  }
+}
+
+function collectActionIds(action: Workflow['actions'][0]): string[] {
+  const nested: Workflow['actions'] = Array.isArray(action.actions) ? action.actions : [];
+  return [...nested.flatMap(collectActionIds), ...(action.id !== undefined ? [action.id] : [])];
+}
+
+export function findTemplateErrors(workflow: Workflow): string[] {
+  const errors: string[] = [];
+  const variables = workflow.variables ?? {};
+  const declared = new Set<string>();
+  const compensations: Array<{ actions: Workflow['actions']; location: string }> = [];
+
+  const visitAction = (action: Workflow['actions'][0], location: string, knownSteps: Set<string>) => {
+    if (action.id !== undefined) {
+      if (declared.has(action.id)) {
+        errors.push(`${location}: duplicate action id ${action.id}`);
+      }
+      declared.add(action.id);
+    }
+
+    const { actions: nested, compensation, ...fields } = action;
+    collectTemplateErrors(fields, location, knownSteps, variables, errors);
+    if (Array.isArray(nested)) {
+      visit(nested, `${location}.actions`, knownSteps);
+    }
+    if (Array.isArray(compensation)) {
+      compensations.push({ actions: compensation, location: `${location}.compensation` });
+    }
+    if (action.id !== undefined) {
+      knownSteps.add(action.id);
+    }
+  };
+
+  const visit = (actions: Workflow['actions'], location: string, knownSteps: Set<string>) => {
+    actions.forEach((action, index) => visitAction(action, `${location}.${index}`, knownSteps));
+  };
+
+  if (isWorkflowGraph(workflow.actions)) {
+    const byKey = new Map(workflow.actions.map((action, index) => [getActionKey(action, index), action]));
+    workflow.actions.forEach((action, index) => {
+      const ancestors = Array.from(getActionAncestors(workflow.actions, index));
+      const knownSteps = new Set(ancestors.flatMap((key) => collectActionIds(byKey.get(key)!)));
+      visitAction(action, `actions.${index}`, knownSteps);
+    });
+  } else {
+    visit(workflow.actions, 'actions', new Set());
+  }
+
+  for (const { actions, location } of compensations) {
+    visit(actions, location, new Set(declared));
+  }
+
+  return errors;
+}
+
+export function findGraphErrors(workflow: Workflow): string[] {
+  const errors: string[] = [];
+  const keys = new Set(workflow.actions.map((action, index) => getActionKey(action, index)));
+
+  const checkNested = (actions: Workflow['actions'] | undefined, location: string) => {
+    (actions ?? []).forEach((action, index) => {
+      const actionLocation = `${location}.${index}`;
+      if (action.dependsOn !== undefined) {
+        errors.push(`${actionLocation}: dependsOn is only supported on top-level actions`);
+      }
+      checkNested(action.actions, `${actionLocation}.actions`);
+      checkNested(action.compensation, `${actionLocation}.compensation`);
+    });
+  };
+
+  workflow.actions.forEach((action, index) => {
+    const key = getActionKey(action, index);
+    for (const dependency of action.dependsOn ?? []) {
+      if (dependency === key) {
+        errors.push(`actions.${index}: action ${key} cannot depend on itself`);
+      } else if (!keys.has(dependency)) {
+        errors.push(`actions.${index}: unknown dependency ${dependency}`);
+      }
+    }
+    checkNested(action.actions, `actions.${index}.actions`);
+    checkNested(action.compensation, `actions.${index}.compensation`);
+  });
+
+  const cycle = findDependencyCycle(workflow.actions);
+  if (cycle && cycle.length > 2) {
+    errors.push(`actions: dependency cycle ${cycle.join(' -> ')}`);
+  }
+
+  return errors;
+}
+
+function findActionValueErrors(actions: Workflow['actions'], location: string, errors: string[]): void {
+  actions.forEach((action, index) => {
+    const actionLocation = `${location}.${index}`;
+    const isTemplated = (value: unknown) => typeof value === 'string' && value.includes('{{');
+
+    if (action.type === 'transfer') {
+      if (typeof action.to !== 'string' || !(isTemplated(action.to) || isValidAddress(action.to))) {
+        errors.push(`${actionLocation}.to: must be a valid address`);
+      }
+      if (typeof action.amount !== 'string' || !(isTemplated(action.amount) || /^\d+$/.test(action.amount))) {
+        errors.push(`${actionLocation}.amount: must be an integer amount in wei`);
+      }
+    }
+    if (action.tokenAddress !== undefined && !isTemplated(action.tokenAddress) && !isValidAddress(action.tokenAddress)) {
+      errors.push(`${actionLocation}.tokenAddress: must be a valid address`);
+    }
+
+    if (Array.isArray(action.actions)) {
+      findActionValueErrors(action.actions, `${actionLocation}.actions`, errors);
+    }
+    if (Array.isArray(action.compensation)) {
+      findActionValueErrors(action.compensation, `${actionLocation}.compensation`, errors);
+    }
+  });
+}
+
+export function findWorkflowErrors(workflow: unknown): string[] {
+  const parsed = WorkflowSchema.safeParse(workflow);
+  if (!parsed.success) {
+    return parsed.error.issues.map((issue) => `${issue.path.join('.') || 'workflow'}: ${issue.message}`);
+  }
+
+  const w = parsed.data;
+  if (w.actions.length === 0) {
+    return ['actions: at least one action is required'];
+  }
+
+  const errors = [...findGraphErrors(w), ...findTemplateErrors(w)];
+  if (w.trigger.type === 'cron' && !isValidCron(w.trigger.cron)) {
+    errors.push(`trigger.cron: invalid cron expression ${w.trigger.cron}`);
+  }
+  if (w.trigger.type === 'condition' && w.trigger.condition.type === 'price' && !w.trigger.condition.asset) {
+    errors.push('trigger.condition.asset: required for price conditions');
+  }
+  w.feePolicy?.preferred.forEach((currency, index) => {
+    if (!resolveFeeCurrency(currency)) {
+      errors.push(`feePolicy.preferred.${index}: ${currency} is not a fee currency token or address`);
+    }
+  });
+  findActionValueErrors(w.actions, 'actions', errors);
+  return errors;
+}
+
 export function validateWorkflow(workflow: unknown): workflow is Workflow {
   try {
     const w = workflow as Workflow;
-    return (
+    const isStructured =
       typeof w === 'object' &&
       w !== null &&
       typeof w.name === 'string' &&
       Array.isArray(w.actions) &&
       w.actions.length > 0 &&
-      typeof w.trigger === 'object'
-    );
+      typeof w.trigger === 'object' &&
+      w.trigger !== null;
+
+    if (!isStructured) {
+      return false;
+    }
+
+    if (findGraphErrors(w).length > 0 || findTemplateErrors(w).length > 0) {
+      return false;
+    }
+
+    if (w.trigger.type === 'cron') {
+      return typeof w.trigger.cron === 'string' && isValidCron(w.trigger.cron);
+    }
+
+    if (w.trigger.type === 'condition' && w.trigger.condition.type === 'price') {
+      return typeof w.trigger.condition.asset === 'string' && w.trigger.condition.asset.length > 0;
+    }
+
+    return true;
   } catch {
     return false;
   }
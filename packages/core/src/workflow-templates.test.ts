@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import type { WorkflowTemplate } from '@celo-automator/types';
+import { getWorkflowTemplate, instantiateWorkflowTemplate, workflowTemplates } from './workflow-templates.js';
+import { validateWorkflow } from './validators/index.js';
+
+const recipient = '0x1234567890123456789012345678901234567890';
+const treasury = '0x0987654321098765432109876543210987654321';
+
+function template(id: string): WorkflowTemplate {
+  const found = getWorkflowTemplate(id);
+  if (!found) {
+    throw new Error(`Missing template ${id}`);
+  }
+  return found;
+}
+
+describe('instantiateWorkflowTemplate', () => {
+  it('should substitute parameters and fall back to defaults', () => {
+    const workflow = instantiateWorkflowTemplate(template('recurring-payment'), { recipient });
+
+    expect(workflow.trigger).toEqual({ type: 'cron', cron: '0 */6 * * *' });
+    expect(workflow.actions).toEqual([{ type: 'transfer', to: recipient, amount: '10000000000000000000' }]);
+  });
+
+  it('should convert decimal amounts to base units', () => {
+    const workflow = instantiateWorkflowTemplate(template('recurring-payment'), {
+      recipient,
+      amount: '1.5',
+      schedule: '@daily',
+    });
+
+    expect(workflow.actions[0].amount).toBe('1500000000000000000');
+    expect(workflow.trigger).toEqual({ type: 'cron', cron: '@daily' });
+  });
+
+  it('should substitute nested parameters and leave runtime templates untouched', () => {
+    const split = instantiateWorkflowTemplate(template('dao-treasury-split'), {
+      daoAddress: recipient,
+      treasuryAddress: treasury,
+    });
+    expect(split.trigger).toMatchObject({ event: { filter: { to: recipient } } });
+    expect(split.actions[0].actions[0]).toMatchObject({ to: treasury, amount: '10000000000000000000' });
+
+    const alert = instantiateWorkflowTemplate(template('balance-alert'), {
+      address: recipient,
+      webhookUrl: 'https://hooks.slack.com/services/T/B/X',
+    });
+    expect(alert.actions[0].message).toBe('Wallet balance exceeded the threshold: now {{trigger.value | units}} CELO');
+  });
+
+  it('should report every missing and invalid parameter at once', () => {
+    expect(() =>
+      instantiateWorkflowTemplate(template('recurring-payment'), { amount: '-1', schedule: 'every day' })
+    ).toThrow(
+      'Invalid template parameters: recipient is required; amount must be a non-negative decimal amount; schedule must be a valid cron expression'
+    );
+    expect(() =>
+      instantiateWorkflowTemplate(template('balance-alert'), { address: '0x12', webhookUrl: 'not a url' })
+    ).toThrow('address must be a valid address; webhookUrl must be a valid URL');
+  });
+
+  it('should reject unknown parameters', () => {
+    expect(() => instantiateWorkflowTemplate(template('recurring-payment'), { recipient, memo: 'rent' })).toThrow(
+      'Unknown template parameters: memo'
+    );
+  });
+
+  it('should produce valid workflows for every built-in template', () => {
+    const values: Record<string, Record<string, string>> = {
+      'dao-treasury-split': { daoAddress: recipient, treasuryAddress: treasury },
+      'recurring-payment': { recipient },
+      'balance-alert': { address: recipient, webhookUrl: 'https://example.com/hook' },
+    };
+
+    for (const builtIn of workflowTemplates) {
+      expect(validateWorkflow(instantiateWorkflowTemplate(builtIn, values[builtIn.id]))).toBe(true);
+    }
+  });
+});
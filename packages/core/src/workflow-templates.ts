@@ -1,24 +1,41 @@
 import { writeFileSync, mkdirSync } from 'fs';
 import { join, dirname } from 'path';
-import type { WorkflowTemplate } from '@celo-automator/types';
+import type { Workflow, WorkflowTemplate, WorkflowTemplateParameter } from '@celo-automator/types';
+import { ValidationError } from './errors/index.js';
+import { isValidCron } from './cron/index.js';
+import { isValidAddress, parseAmount } from './utils/index.js';
+import { findGraphErrors, findTemplateErrors, validateWorkflow } from './validators/index.js';
+
+const PARAMETER_PATTERN = /\{\{\s*params\.([A-Za-z0-9_]+)\s*\}\}/g;
+
+const SINGLE_PARAMETER_PATTERN = new RegExp(`^${PARAMETER_PATTERN.source}$`);
+
+const CUSD_ADDRESS = '0x765DE816845861e75A25fCA122bb6898B8B1282a';
 
 export const workflowTemplates: WorkflowTemplate[] = [
   {
     id: 'dao-treasury-split',
     name: 'DAO Treasury Split',
-    description: 'Automatically split DAO funds: send fixed 10 cUSD to treasury when receiving 100+ cUSD',
+    description: 'Automatically split DAO funds: send a fixed amount to the treasury when the DAO receives a large transfer',
     category: 'DAO',
     tags: ['dao', 'treasury', 'automation'],
+    parameters: [
+      { name: 'daoAddress', type: 'address', description: 'DAO wallet receiving funds' },
+      { name: 'treasuryAddress', type: 'address', description: 'Treasury receiving the split' },
+      { name: 'tokenAddress', type: 'address', description: 'Token to watch and split', default: CUSD_ADDRESS },
+      { name: 'threshold', type: 'amount', description: 'Minimum incoming transfer, in tokens', default: '100' },
+      { name: 'amount', type: 'amount', description: 'Amount sent to the treasury, in tokens', default: '10' },
+    ],
     workflow: {
       name: 'DAO Treasury Split',
-      description: 'When DAO receives 100+ cUSD, send fixed 10 cUSD to treasury',
+      description: 'When the DAO receives at least the threshold, send a fixed amount to the treasury',
       trigger: {
         type: 'event',
         event: {
-          contractAddress: '0x...',
+          contractAddress: '{{params.tokenAddress}}',
           eventName: 'Transfer',
           filter: {
-            to: '0x...',
+            to: '{{params.daoAddress}}',
           },
         },
       },
@@ -27,15 +44,16 @@ export const workflowTemplates: WorkflowTemplate[] = [
           type: 'conditional',
           condition: {
             type: 'custom',
+            field: 'trigger.args.value',
             operator: 'gte',
-            value: '100000000000000000000',
+            value: '{{params.threshold}}',
           },
           actions: [
             {
               type: 'transfer',
-              to: '0x...',
-              amount: '10000000000000000000',
-              tokenAddress: '0x765DE816845861e75A25fCA122bb6898B8B1282a',
+              to: '{{params.treasuryAddress}}',
+              amount: '{{params.amount}}',
+              tokenAddress: '{{params.tokenAddress}}',
             },
           ],
         },
@@ -46,21 +64,26 @@ export const workflowTemplates: WorkflowTemplate[] = [
   {
     id: 'recurring-payment',
     name: 'Recurring Payment',
-    description: 'Send fixed amount every 6 hours',
+    description: 'Send a fixed amount of CELO on a schedule',
     category: 'Payments',
     tags: ['payment', 'recurring', 'cron'],
+    parameters: [
+      { name: 'recipient', type: 'address', description: 'Payment recipient' },
+      { name: 'amount', type: 'amount', description: 'CELO sent per payment', default: '10' },
+      { name: 'schedule', type: 'cron', description: 'Payment schedule', default: '0 */6 * * *' },
+    ],
     workflow: {
       name: 'Recurring Payment',
-      description: 'Send 10 CELO every 6 hours',
+      description: 'Send a fixed amount of CELO on a schedule',
       trigger: {
         type: 'cron',
-        cron: '0 */6 * * *',
+        cron: '{{params.schedule}}',
       },
       actions: [
         {
           type: 'transfer',
-          to: '0x...',
-          amount: '10000000000000000000',
+          to: '{{params.recipient}}',
+          amount: '{{params.amount}}',
         },
       ],
       enabled: true,
@@ -72,22 +95,28 @@ export const workflowTemplates: WorkflowTemplate[] = [
     description: 'Notify when balance exceeds threshold',
     category: 'Monitoring',
     tags: ['monitoring', 'alert', 'balance'],
+    parameters: [
+      { name: 'address', type: 'address', description: 'Wallet to monitor' },
+      { name: 'threshold', type: 'amount', description: 'Balance that triggers the alert, in CELO', default: '1000' },
+      { name: 'webhookUrl', type: 'url', description: 'Webhook receiving the alert' },
+    ],
     workflow: {
       name: 'Balance Alert',
-      description: 'Notify when wallet balance exceeds 1000 CELO',
+      description: 'Notify when wallet balance exceeds the threshold',
       trigger: {
         type: 'condition',
         condition: {
           type: 'balance',
           operator: 'gt',
-          value: '1000000000000000000000',
+          value: '{{params.threshold}}',
+          address: '{{params.address}}',
         },
       },
       actions: [
         {
           type: 'notify',
-          webhookUrl: 'https://hooks.slack.com/...',
-          message: 'Wallet balance exceeded 1000 CELO',
+          webhookUrl: '{{params.webhookUrl}}',
+          message: 'Wallet balance exceeded the threshold: now {{trigger.value | units}} CELO',
         },
       ],
       enabled: true,
@@ -95,6 +124,107 @@ export const workflowTemplates: WorkflowTemplate[] = [
   },
 ];
 
+export function getWorkflowTemplate(id: string): WorkflowTemplate | undefined {
+  return workflowTemplates.find((template) => template.id === id);
+}
+
+function coerceParameter(parameter: WorkflowTemplateParameter, raw: unknown): string | number {
+  const value = String(raw).trim();
+
+  switch (parameter.type) {
+    case 'address':
+      if (!isValidAddress(value)) {
+        throw new ValidationError(`${parameter.name} must be a valid address`);
+      }
+      return value;
+    case 'amount':
+      if (!/^\d+(\.\d+)?$/.test(value)) {
+        throw new ValidationError(`${parameter.name} must be a non-negative decimal amount`);
+      }
+      return parseAmount(value, parameter.decimals ?? 18).toString();
+    case 'cron':
+      if (!isValidCron(value)) {
+        throw new ValidationError(`${parameter.name} must be a valid cron expression`);
+      }
+      return value;
+    case 'number':
+      if (value === '' || !Number.isFinite(Number(value))) {
+        throw new ValidationError(`${parameter.name} must be a number`);
+      }
+      return Number(value);
+    case 'url':
+      try {
+        new URL(value);
+      } catch {
+        throw new ValidationError(`${parameter.name} must be a valid URL`);
+      }
+      return value;
+    default:
+      return value;
+  }
+}
+
+function substituteParameters<T>(value: T, params: Record<string, string | number>): T {
+  if (typeof value === 'string') {
+    const match = value.match(SINGLE_PARAMETER_PATTERN);
+    if (match && match[1] in params) {
+      return params[match[1]] as T;
+    }
+    return value.replace(PARAMETER_PATTERN, (placeholder, name: string) =>
+      name in params ? String(params[name]) : placeholder
+    ) as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => substituteParameters(item, params)) as T;
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, substituteParameters(item, params)])
+    ) as T;
+  }
+  return value;
+}
+
+export function instantiateWorkflowTemplate(
+  template: WorkflowTemplate,
+  values: Record<string, unknown> = {}
+): Omit<Workflow, 'id'> {
+  const unknown = Object.keys(values).filter((name) => !template.parameters.some((parameter) => parameter.name === name));
+  if (unknown.length > 0) {
+    throw new ValidationError(`Unknown template parameters: ${unknown.join(', ')}`);
+  }
+
+  const errors: string[] = [];
+  const params: Record<string, string | number> = {};
+  for (const parameter of template.parameters) {
+    const raw = values[parameter.name] ?? parameter.default;
+    if (raw === undefined || raw === null || raw === '') {
+      if (parameter.required !== false) {
+        errors.push(`${parameter.name} is required`);
+      }
+      continue;
+    }
+
+    try {
+      params[parameter.name] = coerceParameter(parameter, raw);
+    } catch (error) {
+      errors.push(error instanceof Error ? error.message : `${parameter.name} is invalid`);
+    }
+  }
+  if (errors.length > 0) {
+    throw new ValidationError(`Invalid template parameters: ${errors.join('; ')}`);
+  }
+
+  const workflow = substituteParameters(template.workflow, params);
+  if (!validateWorkflow(workflow)) {
+    const details = [...findGraphErrors(workflow as Workflow), ...findTemplateErrors(workflow as Workflow)];
+    throw new ValidationError(
+      `Template ${template.id} produced an invalid workflow${details.length > 0 ? `: ${details.join('; ')}` : ''}`
+    );
+  }
+  return workflow;
+}
+
 export function saveWorkflowTemplate(template: WorkflowTemplate, outputDir: string = './examples') {
   const filename = join(outputDir, `${template.id}.json`);
 
@@ -1,17 +1,31 @@
-import { ChatGoogleGenerativeAI } from '@langchain/google-genai';
 import type { BaseChatModel } from '@langchain/core/language_models/chat_models';
 import type { AgentConfig } from '@celo-automator/types';
 import { BufferMemory } from './memory.js';
 import { createTools } from './tools.js';
+import { FIXTURE_MODEL_PREFIX, FixtureChatModel, resolveFixturePath, type FixtureMode } from './fixture-chat-model.js';
+import {
+  createProviderModel,
+  FallbackChatModel,
+  getProviderName,
+  type LLMProviderConfig,
+  type LLMProviderKind,
+  type ProviderUsage,
+} from './providers.js';
 import type { CeloClient } from '@celo-automator/celo-functions';
 
 export interface LangChainAgentConfig extends AgentConfig {
   geminiApiKey?: string;
   celoClient?: CeloClient;
+  providers?: LLMProviderConfig[];
+  fixtureDir?: string;
+  fixtureMode?: FixtureMode;
+  recordModel?: string;
 }
 
+const PREFIXED_PROVIDERS: LLMProviderKind[] = ['gemini', 'openai', 'anthropic'];
+
 export class LangChainAgent {
-  private llm: BaseChatModel;
+  private llm: FallbackChatModel;
   private memory: BufferMemory;
   private tools: ReturnType<typeof createTools>;
   private config: LangChainAgentConfig;
@@ -23,26 +37,71 @@ export class LangChainAgent {
     this.tools = createTools(config.celoClient);
   }
 
-  private initializeLLM(config: LangChainAgentConfig): BaseChatModel {
+  private initializeLLM(config: LangChainAgentConfig): FallbackChatModel {
+    const providers =
+      config.providers ??
+      (process.env.LLM_PROVIDERS ? (JSON.parse(process.env.LLM_PROVIDERS) as LLMProviderConfig[]) : undefined);
+
+    if (providers && providers.length > 0) {
+      return new FallbackChatModel(
+        providers.map((provider) => ({
+          name: getProviderName(provider),
+          model: createProviderModel(provider),
+          timeoutMs: provider.timeoutMs,
+          inputCostPer1kTokens: provider.inputCostPer1kTokens,
+          outputCostPer1kTokens: provider.outputCostPer1kTokens,
+        }))
+      );
+    }
+    return new FallbackChatModel([{ name: config.model, model: this.createModel(config) }]);
+  }
+
+  private createModel(config: LangChainAgentConfig): BaseChatModel {
+    if (config.model.startsWith(FIXTURE_MODEL_PREFIX)) {
+      const mode = config.fixtureMode ?? (process.env.LLM_FIXTURE_MODE === 'record' ? 'record' : 'replay');
+      const recordModel = config.recordModel || process.env.LLM_RECORD_MODEL || 'gemini-1.5-flash';
+      return new FixtureChatModel({
+        fixturePath: resolveFixturePath(config.model.slice(FIXTURE_MODEL_PREFIX.length), config.fixtureDir),
+        mode,
+        recorder: mode === 'record' ? this.createModel({ ...config, model: recordModel }) : undefined,
+      });
+    }
+
+    const separator = config.model.indexOf(':');
+    const prefix = separator === -1 ? undefined : config.model.slice(0, separator);
+    const provider = PREFIXED_PROVIDERS.find((kind) => kind === prefix);
+    if (provider) {
+      return createProviderModel({
+        provider,
+        model: config.model.slice(separator + 1),
+        apiKey: provider === 'gemini' ? config.geminiApiKey : undefined,
+        temperature: config.temperature,
+        maxTokens: config.maxTokens,
+      });
+    }
     if (config.model.startsWith('gemini')) {
-      if (!config.geminiApiKey && !process.env.GEMINI_API_KEY) {
-        throw new Error('Gemini API key is required for Gemini models');
-      }
-      return new ChatGoogleGenerativeAI({
+      return createProviderModel({
+        provider: 'gemini',
         model: config.model,
-        apiKey: config.geminiApiKey || process.env.GEMINI_API_KEY,
+        apiKey: config.geminiApiKey,
         temperature: config.temperature || 0.7,
-        maxOutputTokens: config.maxTokens || 2000,
-      }) as unknown as BaseChatModel;
-    } else {
-      throw new Error(`Unsupported model: ${config.model}. Only Gemini models are supported.`);
+        maxTokens: config.maxTokens || 2000,
+      });
     }
+
+    throw new Error(
+      `Unsupported model: ${config.model}. Use a Gemini model, openai:<model>, anthropic:<model> or fake:<fixture>.`
+    );
   }
 
   getLLM(): BaseChatModel {
     return this.llm;
   }
 
+  getProviderUsage(): Record<string, ProviderUsage> {
+    return this.llm.getUsage();
+  }
+
   getMemory(): BufferMemory {
     return this.memory;
   }
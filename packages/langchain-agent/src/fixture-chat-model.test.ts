@@ -0,0 +1,96 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { mkdtemp, readFile, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { HumanMessage, SystemMessage } from '@langchain/core/messages';
+import { FakeListChatModel } from '@langchain/core/utils/testing';
+import { FixtureChatModel, hashPrompt, resolveFixturePath, type LLMFixture } from './fixture-chat-model.js';
+import { LangChainAgent } from './agent.js';
+import { WorkflowOrchestrator } from './orchestrator.js';
+import { BufferMemory } from './memory.js';
+
+const RECIPIENT = '0x1234567890123456789012345678901234567890';
+
+describe('FixtureChatModel', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'llm-fixtures-'));
+  });
+
+  it('should replay the response recorded for a prompt', async () => {
+    const messages = [new SystemMessage('be terse'), new HumanMessage('hello')];
+    const fixture: LLMFixture = { responses: { [hashPrompt(messages)]: { prompt: 'hello', content: 'hi there' } } };
+    await writeFile(join(dir, 'greeting.json'), JSON.stringify(fixture));
+
+    const model = new FixtureChatModel({ fixturePath: join(dir, 'greeting.json') });
+    const response = await model.invoke(messages);
+
+    expect(response.content).toBe('hi there');
+  });
+
+  it('should fail on prompts that were never recorded', async () => {
+    await writeFile(join(dir, 'empty.json'), JSON.stringify({ responses: {} }));
+    const model = new FixtureChatModel({ fixturePath: join(dir, 'empty.json') });
+
+    await expect(model.invoke([new HumanMessage('hello')])).rejects.toThrow(/No recorded response for prompt [0-9a-f]{64}/);
+  });
+
+  it('should record responses from the wrapped model', async () => {
+    const fixturePath = join(dir, 'nested', 'recorded.json');
+    const model = new FixtureChatModel({
+      fixturePath,
+      mode: 'record',
+      recorder: new FakeListChatModel({ responses: ['first', 'second'] }),
+    });
+
+    expect((await model.invoke([new HumanMessage('one')])).content).toBe('first');
+    expect((await model.invoke([new HumanMessage('two')])).content).toBe('second');
+
+    const fixture = JSON.parse(await readFile(fixturePath, 'utf8')) as LLMFixture;
+    expect(Object.values(fixture.responses)).toEqual([
+      { prompt: 'one', content: 'first' },
+      { prompt: 'two', content: 'second' },
+    ]);
+    const replay = new FixtureChatModel({ fixturePath });
+    expect((await replay.invoke([new HumanMessage('two')])).content).toBe('second');
+  });
+
+  it('should resolve fixture names against the fixture directory', () => {
+    expect(resolveFixturePath('interpret', '/fixtures')).toBe('/fixtures/interpret.json');
+    expect(resolveFixturePath('./custom/run.json', '/fixtures')).toBe('./custom/run.json');
+  });
+
+  it('should run interpret and execute flows offline from a fake: model', async () => {
+    const fixturePath = join(dir, 'payroll.json');
+    const workflow = {
+      name: 'payroll',
+      trigger: { type: 'manual' },
+      actions: [{ type: 'transfer', to: RECIPIENT, amount: '25 cUSD' }],
+    };
+    const recorder = new FixtureChatModel({
+      fixturePath,
+      mode: 'record',
+      recorder: new FakeListChatModel({ responses: [`\`\`\`json\n${JSON.stringify(workflow)}\n\`\`\``] }),
+    });
+    const recording = { getLLM: () => recorder, getMemory: () => new BufferMemory() } as unknown as LangChainAgent;
+    await new WorkflowOrchestrator(recording).interpretWorkflow('pay the team 25 cUSD');
+
+    const agent = new LangChainAgent({ id: 'ci', type: 'langchain', name: 'CI', model: 'fake:payroll', fixtureDir: dir });
+    const sendToken = vi.fn(async () => JSON.stringify({ success: true, transactionHash: '0xabc' }));
+    vi.spyOn(agent, 'getTools').mockReturnValue([{ name: 'send_token', func: sendToken }] as any);
+    const orchestrator = new WorkflowOrchestrator(agent);
+
+    const interpretation = await orchestrator.interpretWorkflow('pay the team 25 cUSD');
+    expect(interpretation.success).toBe(true);
+    const result = await orchestrator.executeWorkflow(interpretation.workflow!);
+
+    expect(result.success).toBe(true);
+    expect(result.transactionHashes).toEqual(['0xabc']);
+    expect((sendToken.mock.calls[0] as any[])[0]).toMatchObject({
+      to: RECIPIENT,
+      amount: '25000000000000000000',
+      tokenAddress: '0x765DE816845861e75A25fCA122bb6898B8B1282a',
+    });
+  });
+});
@@ -0,0 +1,105 @@
+import { createHash } from 'node:crypto';
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { dirname, join } from 'node:path';
+import { BaseChatModel } from '@langchain/core/language_models/chat_models';
+import { AIMessage, type BaseMessage } from '@langchain/core/messages';
+import type { ChatResult } from '@langchain/core/outputs';
+
+export const FIXTURE_MODEL_PREFIX = 'fake:';
+
+export type FixtureMode = 'replay' | 'record';
+
+export interface FixtureChatModelOptions {
+  fixturePath: string;
+  mode?: FixtureMode;
+  recorder?: BaseChatModel;
+}
+
+export interface RecordedResponse {
+  prompt: string;
+  content: string;
+}
+
+export interface LLMFixture {
+  responses: Record<string, RecordedResponse>;
+}
+
+function messageText(message: BaseMessage): string {
+  return typeof message.content === 'string' ? message.content : JSON.stringify(message.content);
+}
+
+export function hashPrompt(messages: BaseMessage[]): string {
+  const normalized = messages.map((message) => ({ role: message.getType(), content: messageText(message) }));
+  return createHash('sha256').update(JSON.stringify(normalized)).digest('hex');
+}
+
+export function resolveFixturePath(name: string, fixtureDir?: string): string {
+  if (name.endsWith('.json') || name.includes('/')) {
+    return name;
+  }
+  return join(fixtureDir ?? process.env.LLM_FIXTURE_DIR ?? 'fixtures/llm', `${name}.json`);
+}
+
+export class FixtureChatModel extends BaseChatModel {
+  private readonly fixturePath: string;
+  private readonly mode: FixtureMode;
+  private readonly recorder?: BaseChatModel;
+  private fixture?: LLMFixture;
+
+  constructor(options: FixtureChatModelOptions) {
+    super({});
+    this.fixturePath = options.fixturePath;
+    this.mode = options.mode ?? 'replay';
+    this.recorder = options.recorder;
+
+    if (this.mode === 'record' && !this.recorder) {
+      throw new Error('Record mode requires a model to record responses from');
+    }
+  }
+
+  _llmType(): string {
+    return 'fixture';
+  }
+
+  async _generate(messages: BaseMessage[]): Promise<ChatResult> {
+    const fixture = await this.loadFixture();
+    const key = hashPrompt(messages);
+    let recorded = fixture.responses[key];
+
+    if (!recorded || this.mode === 'record') {
+      if (this.mode !== 'record') {
+        throw new Error(`No recorded response for prompt ${key} in ${this.fixturePath}`);
+      }
+      const response = await this.recorder!.invoke(messages);
+      recorded = {
+        prompt: messages.length > 0 ? messageText(messages[messages.length - 1]) : '',
+        content: messageText(response),
+      };
+      fixture.responses[key] = recorded;
+      await mkdir(dirname(this.fixturePath), { recursive: true });
+      await writeFile(this.fixturePath, `${JSON.stringify(fixture, null, 2)}\n`);
+    }
+
+    return {
+      generations: [{ text: recorded.content, message: new AIMessage(recorded.content) }],
+    };
+  }
+
+  private async loadFixture(): Promise<LLMFixture> {
+    if (this.fixture) {
+      return this.fixture;
+    }
+
+    try {
+      this.fixture = JSON.parse(await readFile(this.fixturePath, 'utf8')) as LLMFixture;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT' || this.mode !== 'record') {
+        throw new Error(
+          `Failed to load LLM fixture ${this.fixturePath}: ${error instanceof Error ? error.message : 'unknown error'}`
+        );
+      }
+      this.fixture = { responses: {} };
+    }
+    return this.fixture;
+  }
+}
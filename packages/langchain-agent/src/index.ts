@@ -1,5 +1,8 @@
 export * from './agent.js';
 export * from './orchestrator.js';
+export * from './interpretation.js';
+export * from './fixture-chat-model.js';
+export * from './providers.js';
 export * from './tools.js';
 export * from './memory.js';
 export * from './prompts.js';
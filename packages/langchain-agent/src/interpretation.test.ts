@@ -0,0 +1,127 @@
+import { describe, it, expect } from 'vitest';
+import { normalizeWorkflowDraft, parseWorkflowDraft } from './interpretation.js';
+
+const RECIPIENT = '0x1234567890123456789012345678901234567890';
+
+describe('parseWorkflowDraft', () => {
+  it('should read JSON from a fenced block', () => {
+    expect(parseWorkflowDraft('Here you go:\n```json\n{"name":"a"}\n```\nDone.')).toEqual({ name: 'a' });
+  });
+
+  it('should fall back to the outermost object in prose', () => {
+    expect(parseWorkflowDraft('Workflow: {"name":"a","trigger":{"type":"manual"}} as requested')).toEqual({
+      name: 'a',
+      trigger: { type: 'manual' },
+    });
+  });
+
+  it('should return undefined when there is no JSON', () => {
+    expect(parseWorkflowDraft('I could not build that workflow.')).toBeUndefined();
+  });
+});
+
+describe('normalizeWorkflowDraft', () => {
+  it('should resolve token symbols and human amounts to addresses and wei', () => {
+    const { workflow, assumptions, errors } = normalizeWorkflowDraft(
+      {
+        name: 'pay',
+        trigger: { type: 'manual' },
+        enabled: true,
+        actions: [{ type: 'transfer', to: RECIPIENT, amount: '10 cUSD' }],
+      },
+      { network: 'mainnet' }
+    );
+
+    expect(errors).toEqual([]);
+    expect(assumptions).toEqual([]);
+    expect(workflow.actions[0]).toEqual({
+      type: 'transfer',
+      to: RECIPIENT,
+      amount: '10000000000000000000',
+      tokenAddress: '0x765DE816845861e75A25fCA122bb6898B8B1282a',
+    });
+  });
+
+  it('should use the network token registry and native CELO transfers', () => {
+    const { workflow } = normalizeWorkflowDraft(
+      {
+        name: 'pay',
+        trigger: { type: 'manual' },
+        actions: [
+          { type: 'transfer', to: RECIPIENT, amount: '1.5', token: 'cEUR' },
+          { type: 'transfer', to: RECIPIENT, amount: '2 CELO' },
+        ],
+      },
+      { network: 'alfajores' }
+    );
+
+    expect(workflow.actions[0]).toEqual({
+      type: 'transfer',
+      to: RECIPIENT,
+      amount: '1500000000000000000',
+      tokenAddress: '0x10c892A6EC43a53E45D0B916B4b7D383B1b78C0F',
+    });
+    expect(workflow.actions[1]).toEqual({ type: 'transfer', to: RECIPIENT, amount: '2000000000000000000' });
+  });
+
+  it('should record the fields it assumed', () => {
+    const { workflow, assumptions } = normalizeWorkflowDraft(
+      { name: 'pay', actions: [{ type: 'transfer', to: RECIPIENT, amount: '0.5' }] },
+      { network: 'mainnet' }
+    );
+
+    expect(workflow.trigger).toEqual({ type: 'manual' });
+    expect(workflow.enabled).toBe(true);
+    expect(workflow.actions[0].amount).toBe('500000000000000000');
+    expect(assumptions.map((assumption) => assumption.path)).toEqual([
+      'trigger',
+      'enabled',
+      'actions.0.amount',
+      'actions.0.tokenAddress',
+    ]);
+  });
+
+  it('should convert balance condition values and leave wei and templates alone', () => {
+    const { workflow, errors } = normalizeWorkflowDraft(
+      {
+        name: 'top up',
+        enabled: true,
+        trigger: { type: 'condition', condition: { type: 'balance', operator: 'lt', value: '5 cUSD' } },
+        actions: [
+          { type: 'transfer', to: RECIPIENT, amount: '1000', tokenAddress: 'cUSD' },
+          { type: 'transfer', to: '{{vars.to}}', amount: '{{vars.amount}}', tokenAddress: 'cUSD' },
+        ],
+      },
+      { network: 'mainnet' }
+    );
+
+    expect(errors).toEqual([]);
+    expect(workflow.trigger.condition).toEqual({
+      type: 'balance',
+      operator: 'lt',
+      value: '5000000000000000000',
+      tokenAddress: '0x765DE816845861e75A25fCA122bb6898B8B1282a',
+    });
+    expect(workflow.actions[0].amount).toBe('1000');
+    expect(workflow.actions[1].amount).toBe('{{vars.amount}}');
+  });
+
+  it('should report unknown and conflicting tokens', () => {
+    const { errors } = normalizeWorkflowDraft(
+      {
+        name: 'pay',
+        trigger: { type: 'manual' },
+        actions: [
+          { type: 'transfer', to: RECIPIENT, amount: '10 DOGE' },
+          { type: 'transfer', to: RECIPIENT, amount: '10 cEUR', tokenAddress: 'cUSD' },
+        ],
+      },
+      { network: 'mainnet' }
+    );
+
+    expect(errors).toEqual([
+      'actions.0.amount: unknown token symbol DOGE',
+      'actions.1.amount: amount is in cEUR but actions.1.tokenAddress is cUSD',
+    ]);
+  });
+});
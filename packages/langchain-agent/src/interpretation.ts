@@ -0,0 +1,187 @@
+import { findToken, isValidAddress, parseAmount, parseTokenAmount, type TokenNetwork } from '@celo-automator/core';
+import type { WorkflowAssumption } from '@celo-automator/types';
+
+export interface WorkflowDraftNormalization {
+  workflow: Record<string, any>;
+  assumptions: WorkflowAssumption[];
+  errors: string[];
+}
+
+interface NormalizationState {
+  network: TokenNetwork;
+  assumptions: WorkflowAssumption[];
+  errors: string[];
+}
+
+const isTemplated = (value: unknown) => typeof value === 'string' && value.includes('{{');
+
+export function parseWorkflowDraft(response: string): unknown {
+  const fenced = response.match(/```(?:json)?\s*\n([\s\S]*?)\n```/);
+  const candidates = [fenced?.[1], response];
+  const start = response.indexOf('{');
+  const end = response.lastIndexOf('}');
+  if (start !== -1 && end > start) {
+    candidates.push(response.slice(start, end + 1));
+  }
+
+  for (const candidate of candidates) {
+    if (candidate === undefined) {
+      continue;
+    }
+    try {
+      return JSON.parse(candidate);
+    } catch {
+    }
+  }
+  return undefined;
+}
+
+function resolveTokenField(
+  owner: Record<string, any>,
+  location: string,
+  state: NormalizationState
+): { symbol: string; decimals: number } | undefined {
+  const raw = owner.tokenAddress ?? owner.token;
+  delete owner.token;
+  if (raw === undefined || isTemplated(raw)) {
+    return undefined;
+  }
+  if (typeof raw !== 'string') {
+    state.errors.push(`${location}.tokenAddress: must be a token address or one of CELO, cUSD, cEUR`);
+    return undefined;
+  }
+
+  const token = findToken(raw, state.network);
+  if (!token) {
+    if (!isValidAddress(raw)) {
+      state.errors.push(`${location}.tokenAddress: unknown token ${raw}`);
+    } else {
+      owner.tokenAddress = raw;
+    }
+    return undefined;
+  }
+
+  if (token.native) {
+    delete owner.tokenAddress;
+  } else {
+    owner.tokenAddress = token.address;
+  }
+  return token;
+}
+
+function resolveAmountField(
+  owner: Record<string, any>,
+  field: 'amount' | 'value',
+  location: string,
+  state: NormalizationState
+): void {
+  const tokenLocation = `${location}.tokenAddress`;
+  const token = resolveTokenField(owner, location, state);
+  const raw = owner[field];
+  if (raw === undefined || isTemplated(raw)) {
+    return;
+  }
+
+  const parsed = parseTokenAmount(String(raw));
+  if (!parsed) {
+    state.errors.push(`${location}.${field}: expected an amount such as "10 cUSD", got ${JSON.stringify(raw)}`);
+    return;
+  }
+
+  if (!parsed.symbol) {
+    if (/^\d+$/.test(parsed.amount)) {
+      owner[field] = parsed.amount;
+      return;
+    }
+    const unit = token ?? findToken('CELO', state.network)!;
+    owner[field] = parseAmount(parsed.amount, unit.decimals).toString();
+    state.assumptions.push({
+      path: `${location}.${field}`,
+      value: `${parsed.amount} ${unit.symbol}`,
+      reason: `Amount had no unit; read as ${unit.symbol} rather than wei`,
+    });
+    return;
+  }
+
+  const named = findToken(parsed.symbol, state.network);
+  if (!named) {
+    state.errors.push(`${location}.${field}: unknown token symbol ${parsed.symbol}`);
+    return;
+  }
+  if (token && token.symbol !== named.symbol) {
+    state.errors.push(`${location}.${field}: amount is in ${named.symbol} but ${tokenLocation} is ${token.symbol}`);
+    return;
+  }
+  if (!token && owner.tokenAddress !== undefined && !isTemplated(owner.tokenAddress)) {
+    state.errors.push(`${location}.${field}: amount is in ${named.symbol} but ${tokenLocation} is ${owner.tokenAddress}`);
+    return;
+  }
+
+  if (!named.native) {
+    owner.tokenAddress = named.address;
+  }
+  owner[field] = parseAmount(parsed.amount, named.decimals).toString();
+}
+
+function normalizeActions(actions: unknown, location: string, state: NormalizationState): void {
+  if (!Array.isArray(actions)) {
+    return;
+  }
+
+  actions.forEach((action, index) => {
+    if (!action || typeof action !== 'object') {
+      return;
+    }
+    const actionLocation = `${location}.${index}`;
+
+    if (action.type === 'transfer') {
+      const hasToken = action.tokenAddress !== undefined || action.token !== undefined;
+      const hasSymbol = typeof action.amount === 'string' && Boolean(parseTokenAmount(action.amount)?.symbol);
+      resolveAmountField(action, 'amount', actionLocation, state);
+      if (!hasToken && !hasSymbol) {
+        state.assumptions.push({
+          path: `${actionLocation}.tokenAddress`,
+          value: 'CELO',
+          reason: 'No token given; transferring native CELO',
+        });
+      }
+    } else if (action.tokenAddress !== undefined || action.token !== undefined) {
+      resolveTokenField(action, actionLocation, state);
+    }
+
+    if (action.condition && typeof action.condition === 'object' && action.condition.type === 'balance') {
+      resolveAmountField(action.condition, 'value', `${actionLocation}.condition`, state);
+    }
+
+    normalizeActions(action.actions, `${actionLocation}.actions`, state);
+    normalizeActions(action.compensation, `${actionLocation}.compensation`, state);
+  });
+}
+
+export function normalizeWorkflowDraft(
+  draft: unknown,
+  options: { network: TokenNetwork }
+): WorkflowDraftNormalization {
+  const state: NormalizationState = { network: options.network, assumptions: [], errors: [] };
+  if (!draft || typeof draft !== 'object' || Array.isArray(draft)) {
+    return { workflow: {}, assumptions: [], errors: ['workflow: expected a JSON object'] };
+  }
+
+  const workflow: Record<string, any> = structuredClone(draft);
+  if (workflow.trigger === undefined) {
+    workflow.trigger = { type: 'manual' };
+    state.assumptions.push({ path: 'trigger', value: workflow.trigger, reason: 'No trigger given; running on demand' });
+  }
+  if (workflow.enabled === undefined) {
+    workflow.enabled = true;
+    state.assumptions.push({ path: 'enabled', value: true, reason: 'Workflows are enabled unless stated otherwise' });
+  }
+
+  const trigger = workflow.trigger;
+  if (trigger?.type === 'condition' && trigger.condition?.type === 'balance') {
+    resolveAmountField(trigger.condition, 'value', 'trigger.condition', state);
+  }
+  normalizeActions(workflow.actions, 'actions', state);
+
+  return { workflow, assumptions: state.assumptions, errors: state.errors };
+}
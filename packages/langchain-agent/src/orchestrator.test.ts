@@ -0,0 +1,1098 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { WorkflowOrchestrator } from './orchestrator.js';
+import type { LangChainAgent } from './agent.js';
+
+function createTool(name: string, handler: (input: any) => any) {
+  return { name, func: vi.fn(async (input: any) => JSON.stringify(handler(input))) };
+}
+
+describe('WorkflowOrchestrator', () => {
+  let tools: ReturnType<typeof createTool>[];
+  let orchestrator: WorkflowOrchestrator;
+
+  beforeEach(() => {
+    tools = [
+      createTool('send_token', (input) => ({ success: true, transactionHash: `0x${input.to.slice(-2)}` })),
+      createTool('send_celo', () => ({ success: true, transactionHash: '0xce' })),
+      createTool('get_balance', () => ({ success: true, balance: '500' })),
+      createTool('batch_transfer', () => ({ success: true, transactionHash: '0xba' })),
+    ];
+    const agent = { getTools: () => tools } as unknown as LangChainAgent;
+    orchestrator = new WorkflowOrchestrator(agent);
+  });
+
+  const transfer = (to: string, amount = '10') => ({
+    type: 'transfer',
+    to,
+    amount,
+    tokenAddress: '0x765DE816845861e75A25fCA122bb6898B8B1282a',
+  });
+
+  describe('conditional actions', () => {
+    it('should run nested actions when a trigger field meets the condition', async () => {
+      const result = await orchestrator.executeWorkflow(
+        {
+          name: 'split',
+          trigger: { type: 'manual' },
+          enabled: true,
+          actions: [
+            {
+              type: 'conditional',
+              condition: { type: 'custom', field: 'trigger.args.value', operator: 'gte', value: '100' },
+              actions: [transfer('0x01')],
+            },
+          ],
+        },
+        { trigger: { type: 'event', firedAt: '', data: { args: { value: '150' } } } }
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.transactionHashes).toEqual(['0x01']);
+      expect(result.results?.conditional[0].result).toEqual({ conditionMet: true, value: '150' });
+    });
+
+    it('should skip nested actions when the condition is not met', async () => {
+      const result = await orchestrator.executeWorkflow(
+        {
+          name: 'split',
+          trigger: { type: 'manual' },
+          enabled: true,
+          actions: [
+            {
+              type: 'conditional',
+              condition: { type: 'custom', field: 'trigger.args.value', operator: 'gte', value: '100' },
+              actions: [transfer('0x01')],
+            },
+          ],
+        },
+        { trigger: { type: 'event', firedAt: '', data: { args: { value: '99' } } } }
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.transactionHashes).toEqual([]);
+      expect(result.results?.conditional[0].result.conditionMet).toBe(false);
+    });
+
+    it('should evaluate nested conditionals recursively', async () => {
+      const result = await orchestrator.executeWorkflow({
+        name: 'nested',
+        trigger: { type: 'manual' },
+        enabled: true,
+        actions: [
+          {
+            type: 'conditional',
+            condition: { type: 'balance', address: '0x01', operator: 'gt', value: '100' },
+            actions: [
+              {
+                type: 'conditional',
+                condition: { type: 'balance', address: '0x01', operator: 'lt', value: '1000' },
+                actions: [{ type: 'transfer', to: '0x02', amount: '1' }],
+              },
+            ],
+          },
+        ],
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.transactionHashes).toEqual(['0xce']);
+      expect(result.results?.conditional).toHaveLength(2);
+    });
+
+    it('should fail when the referenced field is missing', async () => {
+      const result = await orchestrator.executeWorkflow({
+        name: 'missing',
+        trigger: { type: 'manual' },
+        enabled: true,
+        actions: [
+          {
+            type: 'conditional',
+            condition: { type: 'custom', field: 'trigger.args.value', operator: 'gte', value: '1' },
+            actions: [transfer('0x01')],
+          },
+        ],
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('Condition field not found');
+    });
+  });
+
+  describe('batch actions', () => {
+    it('should run batch actions sequentially by default', async () => {
+      const result = await orchestrator.executeWorkflow({
+        name: 'batch',
+        trigger: { type: 'manual' },
+        enabled: true,
+        actions: [{ type: 'batch', actions: [transfer('0x01'), transfer('0x02')] }],
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.transactionHashes).toEqual(['0x01', '0x02']);
+    });
+
+    it('should stop a sequential batch at the first failure', async () => {
+      tools[0] = createTool('send_token', () => ({ success: false, error: 'insufficient funds' }));
+
+      const result = await orchestrator.executeWorkflow({
+        name: 'batch',
+        trigger: { type: 'manual' },
+        enabled: true,
+        actions: [{ type: 'batch', actions: [transfer('0x01'), transfer('0x02')] }],
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('insufficient funds');
+      expect(tools[0].func).toHaveBeenCalledTimes(1);
+    });
+
+    it('should collapse transfers into a single treasury batch transfer', async () => {
+      const result = await orchestrator.executeWorkflow({
+        name: 'batch',
+        trigger: { type: 'manual' },
+        enabled: true,
+        actions: [
+          {
+            type: 'batch',
+            mode: 'collapse',
+            contractAddress: '0x00000000000000000000000000000000000000aa',
+            agentId: '7',
+            actions: [transfer('0x01', '5'), transfer('0x02', '6')],
+          },
+        ],
+      });
+
+      const batchTool = tools.find((t) => t.name === 'batch_transfer')!;
+      expect(result.success).toBe(true);
+      expect(result.transactionHashes).toEqual(['0xba']);
+      expect(batchTool.func).toHaveBeenCalledWith(
+        expect.objectContaining({ agentId: '7', recipients: ['0x01', '0x02'], amounts: ['5', '6'] })
+      );
+    });
+
+    it('should refuse to collapse transfers of different tokens', async () => {
+      const result = await orchestrator.executeWorkflow({
+        name: 'batch',
+        trigger: { type: 'manual' },
+        enabled: true,
+        actions: [
+          {
+            type: 'batch',
+            mode: 'collapse',
+            contractAddress: '0x00000000000000000000000000000000000000aa',
+            agentId: '7',
+            actions: [transfer('0x01'), { type: 'transfer', to: '0x02', amount: '1' }],
+          },
+        ],
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('same token');
+    });
+  });
+
+  describe('notify actions', () => {
+    it('should render the message from execution context and record the delivery', async () => {
+      const notifier = vi.fn(async () => ({
+        delivered: true,
+        channel: 'slack' as const,
+        destination: 'hooks.slack.com',
+        statusCode: 200,
+        deliveredAt: '2024-01-01T00:00:00.000Z',
+      }));
+      orchestrator = new WorkflowOrchestrator({ getTools: () => tools } as unknown as LangChainAgent, {
+        notifier,
+      });
+
+      const result = await orchestrator.executeWorkflow(
+        {
+          name: 'split',
+          trigger: { type: 'manual' },
+          enabled: true,
+          actions: [
+            transfer('0x01'),
+            {
+              type: 'notify',
+              webhookUrl: 'https://hooks.slack.com/services/T000/B000/XXX',
+              message: 'Received {{trigger.args.value | units}} cUSD, forwarded in {{transactionHashes}}',
+            },
+          ],
+        },
+        {
+          workflowId: 'wf_1',
+          executionId: 'exec_1',
+          trigger: { type: 'event', firedAt: '', data: { args: { value: '150000000000000000000' } } },
+        }
+      );
+
+      expect(result.success).toBe(true);
+      expect(notifier).toHaveBeenCalledWith(
+        expect.objectContaining({
+          message: 'Received 150 cUSD, forwarded in 0x01',
+          workflowId: 'wf_1',
+          executionId: 'exec_1',
+          workflowName: 'split',
+          transactionHashes: ['0x01'],
+        })
+      );
+      expect(result.results?.notify[0]).toMatchObject({
+        success: true,
+        result: { delivered: true, statusCode: 200, message: 'Received 150 cUSD, forwarded in 0x01' },
+      });
+    });
+
+    it('should record failed deliveries without failing the workflow', async () => {
+      orchestrator = new WorkflowOrchestrator({ getTools: () => tools } as unknown as LangChainAgent, {
+        notifier: async () => ({
+          delivered: false,
+          channel: 'generic',
+          error: 'Request failed with status code 500',
+          deliveredAt: '2024-01-01T00:00:00.000Z',
+        }),
+      });
+
+      const result = await orchestrator.executeWorkflow({
+        name: 'alert',
+        trigger: { type: 'manual' },
+        enabled: true,
+        actions: [{ type: 'notify', message: 'hello' }, transfer('0x02')],
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.results?.notify[0]).toMatchObject({
+        success: false,
+        error: 'Request failed with status code 500',
+      });
+      expect(result.transactionHashes).toEqual(['0x02']);
+    });
+
+    it('should fail the notify action when no notifier is configured', async () => {
+      const result = await orchestrator.executeWorkflow({
+        name: 'alert',
+        trigger: { type: 'manual' },
+        enabled: true,
+        actions: [{ type: 'notify', message: 'hello' }],
+      });
+
+      expect(result.results?.notify[0].error).toBe('Notification delivery not configured');
+    });
+  });
+
+  describe('step log, timeouts and cancellation', () => {
+    it('should record a step for every action including nested ones', async () => {
+      const steps: any[] = [];
+      const result = await orchestrator.executeWorkflow(
+        {
+          name: 'steps',
+          trigger: { type: 'manual' },
+          enabled: true,
+          actions: [transfer('0x01'), { type: 'batch', actions: [transfer('0x02')] }],
+        },
+        { onStep: (step) => steps.push(step) }
+      );
+
+      expect(result.steps?.map((step) => [step.id, step.type, step.status])).toEqual([
+        ['0', 'transfer', 'completed'],
+        ['1', 'batch', 'completed'],
+        ['1.0', 'transfer', 'completed'],
+      ]);
+      expect(result.steps?.[0]).toMatchObject({ transactionHash: '0x01', input: { to: '0x01', amount: '10' } });
+      expect(result.steps?.[1].input).not.toHaveProperty('actions');
+      expect(steps.filter((step) => step.id === '0').map((step) => step.status)).toEqual([
+        'running',
+        'completed',
+      ]);
+    });
+
+    it('should fail an action that exceeds its timeout', async () => {
+      tools[1] = createTool('send_celo', () => ({ success: true }));
+      tools[1].func.mockImplementation(() => new Promise(() => {}));
+
+      const result = await orchestrator.executeWorkflow({
+        name: 'slow',
+        trigger: { type: 'manual' },
+        enabled: true,
+        actions: [{ type: 'transfer', to: '0x01', amount: '1', timeoutMs: 20 }, transfer('0x02')],
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Action timed out after 20ms');
+      expect(result.steps?.map((step) => step.status)).toEqual(['timed_out']);
+      expect(result.cancelled).toBeFalsy();
+    });
+
+    it('should stop at the running step when the execution is aborted', async () => {
+      const controller = new AbortController();
+      tools[1] = createTool('send_celo', () => ({ success: true }));
+      tools[1].func.mockImplementation(() => {
+        setTimeout(() => controller.abort(new Error('Workflow execution cancelled')), 5);
+        return new Promise(() => {});
+      });
+
+      const result = await orchestrator.executeWorkflow(
+        {
+          name: 'cancel',
+          trigger: { type: 'manual' },
+          enabled: true,
+          actions: [transfer('0x01'), { type: 'transfer', to: '0x02', amount: '1' }, transfer('0x03')],
+        },
+        { signal: controller.signal }
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.cancelled).toBe(true);
+      expect(result.error).toBe('Workflow execution cancelled');
+      expect(result.transactionHashes).toEqual(['0x01']);
+      expect(result.steps?.map((step) => step.status)).toEqual(['completed', 'cancelled']);
+    });
+  });
+
+  describe('retries and compensation', () => {
+    it('should retry transient failures and record each retry on the step', async () => {
+      const responses = [
+        { success: false, error: 'nonce too low' },
+        { success: false, error: 'HTTP request failed: ETIMEDOUT' },
+        { success: true, transactionHash: '0xok' },
+      ];
+      tools[1] = createTool('send_celo', () => responses.shift());
+
+      const result = await orchestrator.executeWorkflow({
+        name: 'retry',
+        trigger: { type: 'manual' },
+        enabled: true,
+        actions: [
+          { type: 'transfer', to: '0x01', amount: '1', retry: { maxAttempts: 3, backoffMs: 1 } },
+        ],
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.steps?.[0]).toMatchObject({
+        status: 'completed',
+        attempts: 3,
+        retries: [
+          { attempt: 1, errorClass: 'nonce' },
+          { attempt: 2, errorClass: 'rpc_timeout' },
+        ],
+      });
+    });
+
+    it('should not retry errors outside the retryable classes', async () => {
+      tools[1] = createTool('send_celo', () => ({ success: false, error: 'insufficient funds' }));
+
+      const result = await orchestrator.executeWorkflow({
+        name: 'retry',
+        trigger: { type: 'manual' },
+        enabled: true,
+        actions: [
+          { type: 'transfer', to: '0x01', amount: '1', retry: { maxAttempts: 3, backoffMs: 1 } },
+        ],
+      });
+
+      expect(result.success).toBe(false);
+      expect(tools[1].func).toHaveBeenCalledTimes(1);
+      expect(result.steps?.[0].attempts).toBe(1);
+    });
+
+    it('should look up a broadcast transaction instead of sending it again', async () => {
+      tools[1] = createTool('send_celo', () => ({
+        success: false,
+        transactionHash: '0xsent',
+        error: 'Timed out while waiting for transaction with hash "0xsent" to be confirmed.',
+      }));
+      tools.push(createTool('get_transaction_status', () => ({ success: true, status: 'pending' })));
+
+      const result = await orchestrator.executeWorkflow({
+        name: 'retry',
+        trigger: { type: 'manual' },
+        enabled: true,
+        actions: [
+          { type: 'transfer', to: '0x01', amount: '1', retry: { maxAttempts: 3, backoffMs: 1, retryOn: ['any'] } },
+        ],
+      });
+
+      expect(result.success).toBe(false);
+      expect(tools[1].func).toHaveBeenCalledTimes(1);
+      expect(tools[4].func).toHaveBeenCalledWith({ txHash: '0xsent' });
+      expect(result.transactionHashes).toEqual(['0xsent']);
+      expect(result.steps?.[0]).toMatchObject({ status: 'failed', attempts: 1, transactionHash: '0xsent' });
+    });
+
+    it('should complete the step when the looked-up transaction was confirmed', async () => {
+      tools[1] = createTool('send_celo', () => ({
+        success: false,
+        transactionHash: '0xsent',
+        error: 'HTTP request failed: ETIMEDOUT',
+      }));
+      tools.push(createTool('get_transaction_status', () => ({ success: true, status: 'success', blockNumber: '7' })));
+
+      const result = await orchestrator.executeWorkflow({
+        name: 'retry',
+        trigger: { type: 'manual' },
+        enabled: true,
+        actions: [
+          { type: 'transfer', to: '0x01', amount: '1', retry: { maxAttempts: 3, backoffMs: 1 } },
+        ],
+      });
+
+      expect(result.success).toBe(true);
+      expect(tools[1].func).toHaveBeenCalledTimes(1);
+      expect(result.steps?.[0]).toMatchObject({ status: 'completed', transactionHash: '0xsent' });
+    });
+
+    it('should not retry errors showing the transaction already reached the node', async () => {
+      const responses = [
+        { success: false, error: 'already known' },
+        { success: false, error: 'replacement transaction underpriced' },
+      ];
+      tools[1] = createTool('send_celo', () => responses.shift());
+
+      for (let index = 0; index < 2; index++) {
+        const result = await orchestrator.executeWorkflow({
+          name: 'retry',
+          trigger: { type: 'manual' },
+          enabled: true,
+          actions: [
+            { type: 'transfer', to: '0x01', amount: '1', retry: { maxAttempts: 3, backoffMs: 1, retryOn: ['any'] } },
+          ],
+        });
+        expect(result.success).toBe(false);
+      }
+
+      expect(tools[1].func).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not retry a transfer that timed out while in flight', async () => {
+      tools[1] = createTool('send_celo', () => ({ success: true, transactionHash: '0xlate' }));
+      tools[1].func.mockImplementation(
+        () => new Promise((resolve) => setTimeout(() => resolve(JSON.stringify({ success: true })), 50))
+      );
+
+      const result = await orchestrator.executeWorkflow({
+        name: 'retry',
+        trigger: { type: 'manual' },
+        enabled: true,
+        actions: [
+          {
+            type: 'transfer',
+            to: '0x01',
+            amount: '1',
+            timeoutMs: 10,
+            retry: { maxAttempts: 3, backoffMs: 1, retryOn: ['action_timeout'] },
+          },
+        ],
+      });
+
+      expect(result.success).toBe(false);
+      expect(tools[1].func).toHaveBeenCalledTimes(1);
+      expect(result.steps?.[0]).toMatchObject({ status: 'timed_out', attempts: 1 });
+    });
+
+    it('should stop retrying nonce errors once an earlier attempt may have been broadcast', async () => {
+      const responses = [
+        { success: false, error: 'HTTP request failed: ETIMEDOUT' },
+        { success: false, error: 'nonce too low' },
+        { success: true, transactionHash: '0xdup' },
+      ];
+      tools[1] = createTool('send_celo', () => responses.shift());
+
+      const result = await orchestrator.executeWorkflow({
+        name: 'retry',
+        trigger: { type: 'manual' },
+        enabled: true,
+        actions: [
+          { type: 'transfer', to: '0x01', amount: '1', retry: { maxAttempts: 3, backoffMs: 1 } },
+        ],
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('nonce too low');
+      expect(tools[1].func).toHaveBeenCalledTimes(2);
+    });
+
+    it('should run compensations of completed steps in reverse order when a later step fails', async () => {
+      tools[1] = createTool('send_celo', (input) =>
+        input.to === '0x03'
+          ? { success: false, error: 'execution reverted' }
+          : { success: true, transactionHash: `0xc${input.to.slice(-1)}` }
+      );
+
+      const result = await orchestrator.executeWorkflow({
+        name: 'saga',
+        trigger: { type: 'manual' },
+        enabled: true,
+        actions: [
+          {
+            ...transfer('0x01'),
+            compensation: [{ type: 'transfer', to: '0x0a', amount: '10' }],
+          },
+          {
+            ...transfer('0x02'),
+            compensation: [{ type: 'transfer', to: '0x0b', amount: '10' }],
+          },
+          { type: 'transfer', to: '0x03', amount: '1' },
+        ],
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('execution reverted');
+      expect(result.steps?.map((step) => [step.id, step.status, step.compensates])).toEqual([
+        ['0', 'completed', undefined],
+        ['1', 'completed', undefined],
+        ['2', 'failed', undefined],
+        ['1.compensation.0', 'completed', '1'],
+        ['0.compensation.0', 'completed', '0'],
+      ]);
+      expect(result.transactionHashes).toEqual(['0x01', '0x02', '0xcb', '0xca']);
+    });
+  });
+
+  describe('templated action fields', () => {
+    it('should resolve trigger payload, variables and filters in action fields', async () => {
+      const result = await orchestrator.executeWorkflow(
+        {
+          name: 'forward',
+          trigger: { type: 'event' },
+          enabled: true,
+          variables: { treasury: '0x0a' },
+          actions: [
+            {
+              ...transfer('{{vars.treasury}}'),
+              amount: '{{trigger.args.value | percent:10}}',
+            },
+          ],
+        },
+        { trigger: { type: 'event', firedAt: '', data: { args: { value: '155' } } } }
+      );
+
+      expect(result.success).toBe(true);
+      expect(tools[0].func).toHaveBeenCalledWith(expect.objectContaining({ to: '0x0a', amount: '15' }));
+    });
+
+    it('should expose outputs of earlier steps by action id', async () => {
+      tools[0] = createTool('send_token', (input) => ({
+        success: true,
+        transactionHash: `0x${input.to.slice(-2)}`,
+        recipient: '0x0b',
+      }));
+
+      const result = await orchestrator.executeWorkflow({
+        name: 'chain',
+        trigger: { type: 'manual' },
+        enabled: true,
+        actions: [
+          { ...transfer('0x01'), id: 'first' },
+          transfer('{{steps.first.output.recipient}}'),
+        ],
+      });
+
+      expect(result.success).toBe(true);
+      expect(tools[0].func).toHaveBeenLastCalledWith(expect.objectContaining({ to: '0x0b' }));
+    });
+
+    it('should pass secrets to templated fields without recording them on the step', async () => {
+      const notifier = vi.fn(async () => ({
+        delivered: true,
+        channel: 'generic' as const,
+        deliveredAt: '2024-01-01T00:00:00.000Z',
+      }));
+      orchestrator = new WorkflowOrchestrator({ getTools: () => tools } as unknown as LangChainAgent, {
+        notifier,
+      });
+
+      const result = await orchestrator.executeWorkflow(
+        {
+          name: 'alert',
+          trigger: { type: 'manual' },
+          enabled: true,
+          actions: [{ type: 'notify', webhookUrl: '{{secrets.HOOK_URL}}', message: 'done' }],
+        },
+        { secrets: { HOOK_URL: 'https://example.com/hook' } }
+      );
+
+      expect(result.success).toBe(true);
+      expect(notifier).toHaveBeenCalledWith(expect.objectContaining({ webhookUrl: 'https://example.com/hook' }));
+      expect(result.steps?.[0].input.webhookUrl).toBe('{{secrets.HOOK_URL}}');
+    });
+
+    it('should fail the action when a template filter cannot be applied', async () => {
+      const result = await orchestrator.executeWorkflow(
+        {
+          name: 'forward',
+          trigger: { type: 'event' },
+          enabled: true,
+          actions: [{ ...transfer('0x01'), amount: '{{trigger.args.value | percent:abc}}' }],
+        },
+        { trigger: { type: 'event', firedAt: '', data: { args: { value: '155' } } } }
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Expected a numeric value, got abc');
+      expect(tools[0].func).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('workflow graphs', () => {
+    const graph = (maxConcurrency?: number) => ({
+      name: 'treasury',
+      trigger: { type: 'manual' as const },
+      enabled: true,
+      maxConcurrency,
+      actions: [
+        { id: 'fund', dependsOn: [], type: 'transfer', to: '0x01', amount: '1' },
+        { id: 'a', dependsOn: ['fund'], type: 'transfer', to: '0x02', amount: '1' },
+        { id: 'b', dependsOn: ['fund'], type: 'transfer', to: '0x03', amount: '1' },
+        { id: 'c', dependsOn: ['fund'], type: 'transfer', to: '0x04', amount: '1' },
+        { id: 'report', dependsOn: ['a', 'b', 'c'], type: 'transfer', to: '0x05', amount: '1' },
+      ],
+    });
+
+    let order: string[];
+    let active: number;
+    let maxActive: number;
+    let failing: string | undefined;
+
+    beforeEach(() => {
+      order = [];
+      active = 0;
+      maxActive = 0;
+      failing = undefined;
+      tools[1] = {
+        name: 'send_celo',
+        func: vi.fn(async (input: any) => {
+          active++;
+          maxActive = Math.max(maxActive, active);
+          await new Promise((resolve) => setTimeout(resolve, 5));
+          active--;
+          order.push(input.to);
+          return JSON.stringify(
+            input.to === failing
+              ? { success: false, error: 'execution reverted' }
+              : { success: true, transactionHash: `0xc${input.to.slice(-1)}` }
+          );
+        }),
+      };
+    });
+
+    it('should fan out independent steps in parallel up to the concurrency cap', async () => {
+      const result = await orchestrator.executeWorkflow(graph(2));
+
+      expect(result.success).toBe(true);
+      expect(maxActive).toBe(2);
+      expect(order[0]).toBe('0x01');
+      expect(order[4]).toBe('0x05');
+      expect(result.steps?.map((step) => step.id).sort()).toEqual(['0', '1', '2', '3', '4']);
+    });
+
+    it('should stop scheduling dependents after a branch fails', async () => {
+      failing = '0x03';
+      const result = await orchestrator.executeWorkflow(graph());
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('execution reverted');
+      expect(order).not.toContain('0x05');
+      expect(order).toEqual(expect.arrayContaining(['0x01', '0x02', '0x03', '0x04']));
+    });
+
+    it('should render the dependency graph in the explanation', async () => {
+      orchestrator = new WorkflowOrchestrator({
+        getTools: () => tools,
+        getLLM: () => async () => ({ content: 'Funds the treasury, then pays out.' }),
+      } as unknown as LangChainAgent);
+
+      const explanation = await orchestrator.explainWorkflow(graph());
+
+      expect(explanation).toContain('Funds the treasury, then pays out.');
+      expect(explanation).toContain('step_fund["fund: transfer"]');
+      expect(explanation).toContain('step_fund --> step_a');
+      expect(explanation).toContain('step_c --> step_report');
+    });
+  });
+
+  describe('approval actions', () => {
+    const approvalWorkflow = {
+      name: 'payout',
+      trigger: { type: 'manual' as const },
+      enabled: true,
+      actions: [
+        transfer('0x01'),
+        { type: 'approval', message: 'Approve payout of {{results.transfer.0.transactionHash}}', approvers: ['alice'] },
+        transfer('0x02'),
+      ],
+    };
+
+    it('should wait for the approval gate and continue when approved', async () => {
+      const approvalGate = vi.fn(async () => ({ approved: true, approvalId: 'approval_1', decidedBy: 'alice' }));
+      orchestrator = new WorkflowOrchestrator({ getTools: () => tools } as unknown as LangChainAgent, {
+        approvalGate,
+      });
+
+      const result = await orchestrator.executeWorkflow(approvalWorkflow, {
+        workflowId: 'wf_1',
+        executionId: 'exec_1',
+      });
+
+      expect(result.success).toBe(true);
+      expect(approvalGate).toHaveBeenCalledWith(
+        expect.objectContaining({
+          workflowId: 'wf_1',
+          executionId: 'exec_1',
+          stepId: '1',
+          message: 'Approve payout of 0x01',
+          approvers: ['alice'],
+        })
+      );
+      expect(result.transactionHashes).toEqual(['0x01', '0x02']);
+    });
+
+    it('should fail the workflow when the approval is rejected', async () => {
+      orchestrator = new WorkflowOrchestrator({ getTools: () => tools } as unknown as LangChainAgent, {
+        approvalGate: async () => ({ approved: false, reason: 'Approval expired' }),
+      });
+
+      const result = await orchestrator.executeWorkflow(approvalWorkflow);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Approval expired');
+      expect(result.transactionHashes).toEqual(['0x01']);
+    });
+
+    it('should replay completed steps instead of executing them again', async () => {
+      orchestrator = new WorkflowOrchestrator({ getTools: () => tools } as unknown as LangChainAgent, {
+        approvalGate: async () => ({ approved: true }),
+      });
+
+      const result = await orchestrator.executeWorkflow(approvalWorkflow, {
+        completedSteps: [
+          {
+            id: '0',
+            type: 'transfer',
+            status: 'completed',
+            startedAt: '',
+            input: {},
+            output: { success: true, transactionHash: '0x01' },
+            transactionHash: '0x01',
+          },
+          { id: '1', type: 'approval', status: 'running', startedAt: '', input: {} },
+        ],
+      });
+
+      expect(result.success).toBe(true);
+      expect(tools[0].func).toHaveBeenCalledTimes(1);
+      expect(tools[0].func).toHaveBeenCalledWith(expect.objectContaining({ to: '0x02' }));
+      expect(result.transactionHashes).toEqual(['0x01', '0x02']);
+    });
+  });
+
+  describe('risk gating', () => {
+    const assessment = (score: number) => ({
+      score,
+      classification: score >= 0.85 ? 'critical' : score >= 0.6 ? 'high' : 'low',
+      requiresApproval: score >= 0.6,
+      blockExecution: score >= 0.85,
+      reasons: score >= 0.6 ? ['Exceeds per-transaction limit'] : [],
+    });
+    const riskAssessor = vi.fn(async (transaction: any) =>
+      assessment(transaction.to === '0x03' ? 0.9 : transaction.to === '0x02' ? 0.7 : 0.1)
+    );
+
+    beforeEach(() => {
+      riskAssessor.mockClear();
+    });
+
+    it('should score every transfer and record the assessment on the step', async () => {
+      orchestrator = new WorkflowOrchestrator({ getTools: () => tools } as unknown as LangChainAgent, {
+        riskAssessor,
+      });
+
+      const result = await orchestrator.executeWorkflow(
+        { name: 'pay', trigger: { type: 'manual' }, enabled: true, actions: [transfer('0x01')] },
+        { workflowId: 'wf_1' }
+      );
+
+      expect(result.success).toBe(true);
+      expect(riskAssessor).toHaveBeenCalledWith(
+        expect.objectContaining({ workflowId: 'wf_1', stepId: '0', kind: 'token_transfer', to: '0x01', value: '10' })
+      );
+      expect(result.steps?.[0].risk).toEqual(assessment(0.1));
+    });
+
+    it('should block transactions the risk engine rejects before calling any tool', async () => {
+      orchestrator = new WorkflowOrchestrator({ getTools: () => tools } as unknown as LangChainAgent, {
+        riskAssessor,
+      });
+
+      const result = await orchestrator.executeWorkflow({
+        name: 'pay',
+        trigger: { type: 'manual' },
+        enabled: true,
+        actions: [transfer('0x03')],
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Transaction blocked by risk policy: Exceeds per-transaction limit');
+      expect(tools[0].func).not.toHaveBeenCalled();
+      expect(result.steps?.[0]).toMatchObject({ status: 'failed', risk: { blockExecution: true } });
+    });
+
+    it('should route risky transactions through the approval gate', async () => {
+      const approvalGate = vi.fn(async () => ({ approved: true }));
+      orchestrator = new WorkflowOrchestrator({ getTools: () => tools } as unknown as LangChainAgent, {
+        riskAssessor,
+        approvalGate,
+      });
+
+      const result = await orchestrator.executeWorkflow(
+        { name: 'pay', trigger: { type: 'manual' }, enabled: true, actions: [transfer('0x01'), transfer('0x02')] },
+        { executionId: 'exec_1' }
+      );
+
+      expect(result.success).toBe(true);
+      expect(approvalGate).toHaveBeenCalledTimes(1);
+      expect(approvalGate).toHaveBeenCalledWith(expect.objectContaining({ executionId: 'exec_1', stepId: '1' }));
+      expect(result.transactionHashes).toEqual(['0x01', '0x02']);
+    });
+
+    it('should assess risk and ask for approval once per step across retries', async () => {
+      const approvalGate = vi.fn(async () => ({ approved: true }));
+      const responses = [{ success: false, error: 'nonce too low' }, { success: true, transactionHash: '0xok' }];
+      tools[0] = createTool('send_token', () => responses.shift());
+      orchestrator = new WorkflowOrchestrator({ getTools: () => tools } as unknown as LangChainAgent, {
+        riskAssessor,
+        approvalGate,
+      });
+
+      const result = await orchestrator.executeWorkflow({
+        name: 'pay',
+        trigger: { type: 'manual' },
+        enabled: true,
+        actions: [{ ...transfer('0x02'), retry: { maxAttempts: 2, backoffMs: 1 } }],
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.steps?.[0].attempts).toBe(2);
+      expect(riskAssessor).toHaveBeenCalledTimes(1);
+      expect(approvalGate).toHaveBeenCalledTimes(1);
+    });
+
+    it('should fail risky transactions when no approval gate is configured', async () => {
+      orchestrator = new WorkflowOrchestrator({ getTools: () => tools } as unknown as LangChainAgent, {
+        riskAssessor,
+      });
+
+      const result = await orchestrator.executeWorkflow({
+        name: 'pay',
+        trigger: { type: 'manual' },
+        enabled: true,
+        actions: [transfer('0x02')],
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Transaction requires approval but approval gate not configured');
+      expect(tools[0].func).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('fee currency', () => {
+    it('should pass the selected fee currency to value-moving tools', async () => {
+      const cUSD = '0x765DE816845861e75A25fCA122bb6898B8B1282a';
+      const feeCurrencySelector = vi.fn(async (workflow: any) => (workflow.feePolicy ? cUSD : undefined));
+      orchestrator = new WorkflowOrchestrator({ getTools: () => tools } as unknown as LangChainAgent, {
+        feeCurrencySelector,
+      });
+      const feePolicy = { preferred: ['cUSD'], minCeloBalance: '100000000000000000' };
+
+      const result = await orchestrator.executeWorkflow({
+        name: 'pay',
+        trigger: { type: 'manual' },
+        enabled: true,
+        feePolicy,
+        actions: [transfer('0x01'), { type: 'transfer', to: '0x02', amount: '5' }],
+      });
+
+      expect(result.success).toBe(true);
+      expect(feeCurrencySelector).toHaveBeenCalledWith(expect.objectContaining({ feePolicy }));
+      expect(tools[0].func).toHaveBeenCalledWith(expect.objectContaining({ to: '0x01', feeCurrency: cUSD }));
+      expect(tools[1].func).toHaveBeenCalledWith(expect.objectContaining({ to: '0x02', feeCurrency: cUSD }));
+    });
+  });
+
+  describe('simulation', () => {
+    const simulator = vi.fn(async (transaction: any) => ({
+      success: transaction.to !== '0x03',
+      gasEstimate: '21000',
+      error: transaction.to === '0x03' ? 'execution reverted' : undefined,
+    }));
+
+    beforeEach(() => {
+      simulator.mockClear();
+      orchestrator = new WorkflowOrchestrator({ getTools: () => tools } as unknown as LangChainAgent, {
+        simulator,
+      });
+    });
+
+    it('should simulate transactions without calling any tools', async () => {
+      const result = await orchestrator.simulateWorkflow(
+        {
+          name: 'split',
+          trigger: { type: 'manual' },
+          enabled: true,
+          actions: [
+            {
+              type: 'conditional',
+              condition: { type: 'custom', field: 'trigger.args.value', operator: 'gte', value: '100' },
+              actions: [transfer('0x01'), { type: 'transfer', to: '0x02', amount: '5' }],
+            },
+            { type: 'notify', message: 'Split {{trigger.args.value}}' },
+          ],
+        },
+        { trigger: { type: 'manual', firedAt: '', data: { args: { value: '150' } } } }
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.transactionHashes).toEqual([]);
+      expect(tools.every((tool) => tool.func.mock.calls.length === 0)).toBe(true);
+      expect(simulator.mock.calls.map(([transaction]) => transaction)).toEqual([
+        expect.objectContaining({ stepId: '0.0', kind: 'token_transfer', to: '0x01', value: '10' }),
+        expect.objectContaining({ stepId: '0.1', kind: 'native_transfer', to: '0x02', value: '5' }),
+      ]);
+      expect(result.results?.notify[0].result).toEqual({
+        simulated: true,
+        delivered: false,
+        message: 'Split 150',
+      });
+    });
+
+    it('should simulate a collapsed batch as a single treasury transfer', async () => {
+      await orchestrator.simulateWorkflow({
+        name: 'payroll',
+        trigger: { type: 'manual' },
+        enabled: true,
+        actions: [
+          {
+            type: 'batch',
+            mode: 'collapse',
+            contractAddress: '0xtreasury',
+            agentId: '7',
+            actions: [transfer('0x01', '10'), transfer('0x02', '20')],
+          },
+        ],
+      });
+
+      expect(simulator).toHaveBeenCalledTimes(1);
+      expect(simulator).toHaveBeenCalledWith(
+        expect.objectContaining({
+          kind: 'batch_transfer',
+          to: '0xtreasury',
+          agentId: '7',
+          transfers: [
+            { to: '0x01', amount: '10' },
+            { to: '0x02', amount: '20' },
+          ],
+        })
+      );
+    });
+
+    it('should report simulation failures without running compensations', async () => {
+      const result = await orchestrator.simulateWorkflow({
+        name: 'saga',
+        trigger: { type: 'manual' },
+        enabled: true,
+        actions: [
+          { ...transfer('0x01'), compensation: [{ type: 'transfer', to: '0x0a', amount: '10' }] },
+          { type: 'transfer', to: '0x03', amount: '1' },
+        ],
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('execution reverted');
+      expect(result.steps?.map((step) => step.id)).toEqual(['0', '1']);
+    });
+
+    it('should refuse to simulate when no simulator is configured', async () => {
+      orchestrator = new WorkflowOrchestrator({ getTools: () => tools } as unknown as LangChainAgent);
+
+      const result = await orchestrator.simulateWorkflow({
+        name: 'split',
+        trigger: { type: 'manual' },
+        enabled: true,
+        actions: [transfer('0x01')],
+      });
+
+      expect(result).toEqual({ success: false, error: 'Transaction simulation not configured' });
+    });
+  });
+
+  describe('workflow interpretation', () => {
+    const recipient = '0x1234567890123456789012345678901234567890';
+
+    function createInterpreter(replies: string[], maxRepairAttempts?: number) {
+      const llm = vi.fn(async () => ({ content: replies.shift() ?? '' }));
+      const memory = { getChatHistory: () => [], addMessage: vi.fn() };
+      const interpreter = new WorkflowOrchestrator(
+        { getTools: () => tools, getLLM: () => llm, getMemory: () => memory } as unknown as LangChainAgent,
+        { maxRepairAttempts }
+      );
+      return { interpreter, llm, memory };
+    }
+
+    it('should return a validated workflow with resolved amounts and assumptions', async () => {
+      const { interpreter, llm } = createInterpreter([
+        `\`\`\`json\n${JSON.stringify({
+          name: 'pay rent',
+          trigger: { type: 'cron', cron: '0 9 1 * *' },
+          actions: [{ type: 'transfer', to: recipient, amount: '10 cUSD' }],
+        })}\n\`\`\`\nPays rent monthly.`,
+      ]);
+
+      const result = await interpreter.interpretWorkflow('pay 10 cUSD rent every month');
+
+      expect(result.success).toBe(true);
+      expect(result.attempts).toBe(1);
+      expect(llm).toHaveBeenCalledTimes(1);
+      expect(result.workflow?.actions[0]).toEqual({
+        type: 'transfer',
+        to: recipient,
+        amount: '10000000000000000000',
+        tokenAddress: '0x765DE816845861e75A25fCA122bb6898B8B1282a',
+      });
+      expect(result.assumptions).toEqual([
+        { path: 'enabled', value: true, reason: 'Workflows are enabled unless stated otherwise' },
+      ]);
+    });
+
+    it('should feed validation errors back to the model until the workflow is valid', async () => {
+      const { interpreter, llm } = createInterpreter([
+        JSON.stringify({ trigger: { type: 'manual' }, actions: [{ type: 'transfer', to: 'alice', amount: '5 cEUR' }] }),
+        JSON.stringify({
+          name: 'pay alice',
+          enabled: true,
+          trigger: { type: 'manual' },
+          actions: [{ type: 'transfer', to: recipient, amount: '5 cEUR' }],
+        }),
+      ]);
+
+      const result = await interpreter.interpretWorkflow('send alice 5 cEUR');
+
+      expect(result.success).toBe(true);
+      expect(result.attempts).toBe(2);
+      const repairPrompt = (llm.mock.calls[1] as any[])[0].toChatMessages();
+      const feedback = repairPrompt[repairPrompt.length - 1].content;
+      expect(feedback).toContain('name: Required');
+      expect(repairPrompt[repairPrompt.length - 2].content).toContain('"to":"alice"');
+    });
+
+    it('should give up after the configured number of repair attempts', async () => {
+      const { interpreter, llm, memory } = createInterpreter(['no workflow here', 'still nothing'], 1);
+
+      const result = await interpreter.interpretWorkflow('do something');
+
+      expect(llm).toHaveBeenCalledTimes(2);
+      expect(result).toMatchObject({
+        success: false,
+        attempts: 2,
+        error: 'Workflow failed validation after 2 attempts',
+        validationErrors: ['workflow: response did not contain a JSON workflow'],
+      });
+      expect(memory.addMessage).toHaveBeenCalledWith('assistant', 'still nothing');
+    });
+  });
+});
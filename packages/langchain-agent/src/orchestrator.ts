@@ -4,8 +4,38 @@ import {
   SystemMessagePromptTemplate,
   HumanMessagePromptTemplate,
 } from '@langchain/core/prompts';
+import { AIMessage, HumanMessage, type BaseMessage } from '@langchain/core/messages';
 import { LangChainAgent } from './agent.js';
-import type { Workflow } from '@celo-automator/types';
+import { normalizeWorkflowDraft, parseWorkflowDraft } from './interpretation.js';
+import {
+  classifyTransientError,
+  compareValues,
+  findWorkflowErrors,
+  getActionKey,
+  getValueAtPath,
+  isWorkflowGraph,
+  renderWorkflowGraph,
+  resolveTemplates,
+  sleep,
+  type ComparableValue,
+  type TokenNetwork,
+} from '@celo-automator/core';
+import { WorkflowSchema } from '@celo-automator/types';
+import type {
+  ApprovalDecision,
+  ApprovalRequest,
+  ConditionOperator,
+  RetryableErrorClass,
+  NotificationDelivery,
+  SimulatedTransaction,
+  TransactionRiskAssessment,
+  TransactionSimulationOutcome,
+  Workflow,
+  WorkflowAssumption,
+  WorkflowExecutionStep,
+  WorkflowNotification,
+  WorkflowRunContext,
+} from '@celo-automator/types';
 
 const WORKFLOW_SYSTEM_PROMPT = `You are an advanced AI workflow orchestrator for Celo blockchain automation.
 
@@ -22,41 +52,183 @@ You have access to Celo blockchain tools for:
 - Listening to blockchain events
 
 When creating workflows:
-- Always validate addresses and amounts
-- Estimate gas before executing transactions
-- Provide clear error messages if something fails
-- Suggest optimizations when possible
+- Reply with the workflow as a single JSON object in a \`\`\`json code block, followed by a short explanation
+- Write amounts with their token symbol, e.g. "10 cUSD", "2.5 CELO" or "100 cEUR"; integer amounts without a symbol are read as wei
+- Tokens may be given by symbol (CELO, cUSD, cEUR) or by contract address
+- To pay gas in a stablecoin when CELO runs low, add "feePolicy": {{ "preferred": ["cUSD"], "minCeloBalance": "<wei>" }}
+- Only use the fields shown below; if validation errors are returned, reply with the corrected workflow
 
 Workflow format:
-{
+{{
   "name": "workflow name",
   "description": "what this workflow does",
-    "trigger": {
-      "type": "event" | "cron" | "manual" | "condition",
-    },
-    "actions": [
-      {
-        "type": "transfer" | "contract_call" | "notify" | "conditional",
+  "trigger": {{
+    "type": "event" | "cron" | "manual" | "condition"
+  }},
+  "actions": [
+    {{
+      "id": "optional step id",
+      "dependsOn": ["ids of steps that must finish first (optional, enables parallel execution)"],
+      "type": "transfer" | "contract_call" | "notify" | "conditional" | "batch" | "approval",
+      "to": "recipient address",
+      "amount": "10 cUSD"
+    }}
+  ]
+}}`;
+
+export type WorkflowNotifier = (notification: WorkflowNotification) => Promise<NotificationDelivery>;
+
+export type TransactionSimulator = (transaction: SimulatedTransaction) => Promise<TransactionSimulationOutcome>;
+
+export type ApprovalGate = (request: ApprovalRequest) => Promise<ApprovalDecision>;
+
+export type TransactionRiskAssessor = (transaction: SimulatedTransaction) => Promise<TransactionRiskAssessment>;
+
+export type FeeCurrencySelector = (workflow: Workflow) => Promise<string | undefined>;
+
+export interface WorkflowOrchestratorOptions {
+  notifier?: WorkflowNotifier;
+  simulator?: TransactionSimulator;
+  approvalGate?: ApprovalGate;
+  riskAssessor?: TransactionRiskAssessor;
+  feeCurrencySelector?: FeeCurrencySelector;
+  network?: TokenNetwork;
+  maxRepairAttempts?: number;
+}
+
+export interface WorkflowInterpretation {
+  success: boolean;
+  workflow?: Workflow;
+  explanation?: string;
+  assumptions?: WorkflowAssumption[];
+  attempts?: number;
+  validationErrors?: string[];
+  error?: string;
+}
+
+export interface WorkflowRunResult {
+  success: boolean;
+  results?: Record<string, any>;
+  transactionHashes?: string[];
+  steps?: WorkflowExecutionStep[];
+  cancelled?: boolean;
+  error?: string;
+}
+
+interface ActionRun {
+  workflow: Workflow;
+  context: WorkflowRunContext;
+  results: Record<string, any>;
+  transactionHashes: string[];
+  steps: WorkflowExecutionStep[];
+  stepOutputs: Record<string, StepOutput>;
+  replay: Map<string, WorkflowExecutionStep>;
+  compensations: Array<{ stepId: string; actions: Workflow['actions'] }>;
+  isCompensating: boolean;
+  dryRun: boolean;
+}
+
+type StepOutput = Pick<WorkflowExecutionStep, 'status' | 'output' | 'transactionHash' | 'error'>;
+
+type ActionResult = {
+  success: boolean;
+  transactionHash?: string;
+  error?: string;
+  result?: any;
+};
+
+const DEFAULT_RETRY_ON: RetryableErrorClass[] = ['nonce', 'rpc_timeout', 'rate_limit'];
+
+const DEFAULT_MAX_CONCURRENCY = 4;
+
+const DEFAULT_MAX_REPAIR_ATTEMPTS = 2;
+
+class ActionInterruptedError extends Error {
+  constructor(message: string, public reason: 'timeout' | 'aborted') {
+    super(message);
+    this.name = 'ActionInterruptedError';
+  }
+}
+
+function sendsTransaction(action: Workflow['actions'][0]): boolean {
+  return action.type === 'transfer' || action.type === 'contract_call' || (action.type === 'batch' && action.mode === 'collapse');
+}
+
+function hasNestedSteps(action: Workflow['actions'][0]): boolean {
+  return action.type === 'conditional' || (action.type === 'batch' && action.mode !== 'collapse');
+}
+
+function getAbortMessage(signal: AbortSignal): string {
+  const reason = signal.reason;
+  if (reason instanceof Error) {
+    return reason.message;
+  }
+  return typeof reason === 'string' ? reason : 'Workflow execution cancelled';
+}
+
+function runWithLimits<T>(task: Promise<T>, timeoutMs?: number, signal?: AbortSignal): Promise<T> {
+  if (signal?.aborted) {
+    return Promise.reject(new ActionInterruptedError(getAbortMessage(signal), 'aborted'));
+  }
+  if (!timeoutMs && !signal) {
+    return task;
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    let timer: NodeJS.Timeout | undefined;
+    const onAbort = () => {
+      cleanup();
+      reject(new ActionInterruptedError(getAbortMessage(signal!), 'aborted'));
+    };
+    const cleanup = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    };
+
+    if (timeoutMs) {
+      timer = setTimeout(() => {
+        cleanup();
+        reject(new ActionInterruptedError(`Action timed out after ${timeoutMs}ms`, 'timeout'));
+      }, timeoutMs);
+    }
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    task.then(
+      (value) => {
+        cleanup();
+        resolve(value);
+      },
+      (error) => {
+        cleanup();
+        reject(error);
       }
-    ]
-}`;
+    );
+  });
+}
 
 export class WorkflowOrchestrator {
   private agent: LangChainAgent;
+  private notifier?: WorkflowNotifier;
+  private simulator?: TransactionSimulator;
+  private approvalGate?: ApprovalGate;
+  private riskAssessor?: TransactionRiskAssessor;
+  private feeCurrencySelector?: FeeCurrencySelector;
+  private riskDecisions = new WeakMap<WorkflowExecutionStep, ActionResult | undefined>();
+  private network: TokenNetwork;
+  private maxRepairAttempts: number;
 
-  constructor(agent: LangChainAgent) {
+  constructor(agent: LangChainAgent, options: WorkflowOrchestratorOptions = {}) {
     this.agent = agent;
+    this.notifier = options.notifier;
+    this.simulator = options.simulator;
+    this.approvalGate = options.approvalGate;
+    this.riskAssessor = options.riskAssessor;
+    this.feeCurrencySelector = options.feeCurrencySelector;
+    this.network = options.network ?? 'mainnet';
+    this.maxRepairAttempts = options.maxRepairAttempts ?? DEFAULT_MAX_REPAIR_ATTEMPTS;
   }
 
-  async interpretWorkflow(
-    naturalLanguage: string,
-    context?: Record<string, any>
-  ): Promise<{
-    success: boolean;
-    workflow?: Workflow;
-    explanation?: string;
-    error?: string;
-  }> {
+  async interpretWorkflow(naturalLanguage: string, context?: Record<string, any>): Promise<WorkflowInterpretation> {
     try {
       const prompt = ChatPromptTemplate.fromMessages([
         SystemMessagePromptTemplate.fromTemplate(WORKFLOW_SYSTEM_PROMPT),
@@ -64,28 +236,62 @@ export class WorkflowOrchestrator {
         HumanMessagePromptTemplate.fromTemplate(
           `User request: {input}\n\nContext: {context}\n\nGenerate a structured workflow JSON. Include an explanation of your reasoning.`
         ),
+        new MessagesPlaceholder('repairs'),
       ]);
 
       const chain = prompt.pipe(this.agent.getLLM());
 
       const memory = this.agent.getMemory();
-      const chatHistory = memory.getChatHistory();
+      const chatHistory = memory.getChatHistory().slice(-10);
+      const repairs: BaseMessage[] = [];
+      let validationErrors: string[] = [];
+      let content = '';
+      let attempts = 0;
 
-      const response = await chain.invoke({
-        input: naturalLanguage,
-        context: JSON.stringify(context || {}, null, 2),
-        chat_history: chatHistory.slice(-10),
-      });
+      while (attempts <= this.maxRepairAttempts) {
+        attempts++;
+        const response = await chain.invoke({
+          input: naturalLanguage,
+          context: JSON.stringify(context || {}, null, 2),
+          chat_history: chatHistory,
+          repairs,
+        });
+        content = String(response.content);
 
-      memory.addMessage('user', naturalLanguage);
-      memory.addMessage('assistant', response.content as string);
+        const draft = parseWorkflowDraft(content);
+        const normalized = draft === undefined ? undefined : normalizeWorkflowDraft(draft, { network: this.network });
+        validationErrors = normalized
+          ? [...normalized.errors, ...findWorkflowErrors(normalized.workflow)]
+          : ['workflow: response did not contain a JSON workflow'];
 
-      const workflow = this.extractWorkflowFromResponse(response.content as string);
+        if (normalized && validationErrors.length === 0) {
+          memory.addMessage('user', naturalLanguage);
+          memory.addMessage('assistant', content);
+          return {
+            success: true,
+            workflow: WorkflowSchema.parse(normalized.workflow),
+            explanation: content,
+            assumptions: normalized.assumptions,
+            attempts,
+          };
+        }
 
+        repairs.push(
+          new AIMessage(content),
+          new HumanMessage(
+            `The workflow failed validation:\n${validationErrors.map((error) => `- ${error}`).join('\n')}\n\nReply with the corrected workflow JSON.`
+          )
+        );
+      }
+
+      memory.addMessage('user', naturalLanguage);
+      memory.addMessage('assistant', content);
       return {
-        success: true,
-        workflow,
-        explanation: response.content as string,
+        success: false,
+        explanation: content,
+        attempts,
+        validationErrors,
+        error: `Workflow failed validation after ${attempts} attempt${attempts === 1 ? '' : 's'}`,
       };
     } catch (error) {
       return {
@@ -95,96 +301,594 @@ export class WorkflowOrchestrator {
     }
   }
 
-  async executeWorkflow(
-    workflow: Workflow
-  ): Promise<{
-    success: boolean;
-    results?: Record<string, any>;
-    transactionHashes?: string[];
-    error?: string;
-  }> {
-    const results: Record<string, any> = {};
-    const transactionHashes: string[] = [];
+  async executeWorkflow(workflow: Workflow, context: WorkflowRunContext = {}): Promise<WorkflowRunResult> {
+    return this.runWorkflow(workflow, context, false);
+  }
 
-    try {
-      for (const action of workflow.actions) {
-        const result = await this.executeAction(action);
+  async simulateWorkflow(workflow: Workflow, context: WorkflowRunContext = {}): Promise<WorkflowRunResult> {
+    if (!this.simulator) {
+      return { success: false, error: 'Transaction simulation not configured' };
+    }
+    return this.runWorkflow(workflow, context, true);
+  }
 
-        if (!results[action.type]) {
-          results[action.type] = [];
-        }
-        results[action.type].push(result);
+  async explainWorkflow(workflow: Workflow): Promise<string> {
+    const prompt = ChatPromptTemplate.fromMessages([
+      SystemMessagePromptTemplate.fromTemplate(
+        'You are a helpful assistant that explains blockchain workflows in clear, simple language.'
+      ),
+      HumanMessagePromptTemplate.fromTemplate(
+        'Explain this workflow:\n\n{workflow}\n\nProvide a clear, step-by-step explanation.'
+      ),
+    ]);
 
-        if (result.transactionHash) {
-          transactionHashes.push(result.transactionHash);
-        }
+    const chain = prompt.pipe(this.agent.getLLM());
+    const response = await chain.invoke({
+      workflow: JSON.stringify(workflow, null, 2),
+    });
 
-        if (!result.success && action.type !== 'notify') {
-          return {
-            success: false,
-            results,
-            transactionHashes,
-            error: result.error || 'Action failed',
-          };
-        }
+    const explanation = response.content as string;
+    if (!isWorkflowGraph(workflow.actions)) {
+      return explanation;
+    }
+    return `${explanation}\n\nWorkflow graph:\n\n\`\`\`mermaid\n${renderWorkflowGraph(workflow)}\n\`\`\``;
+  }
+
+  private async runWorkflow(
+    workflow: Workflow,
+    context: WorkflowRunContext,
+    dryRun: boolean
+  ): Promise<WorkflowRunResult> {
+    const run: ActionRun = {
+      workflow,
+      context,
+      results: {},
+      transactionHashes: [],
+      steps: [],
+      stepOutputs: {},
+      replay: new Map(
+        (context.completedSteps ?? [])
+          .filter((step) => step.status === 'completed')
+          .map((step) => [step.id, step])
+      ),
+      compensations: [],
+      isCompensating: false,
+      dryRun,
+    };
+
+    try {
+      const outcome = isWorkflowGraph(workflow.actions)
+        ? await this.executeGraph(workflow.actions, run)
+        : await this.executeActions(workflow.actions, run);
+
+      if (!outcome.success) {
+        await this.compensate(run);
+        return {
+          success: false,
+          results: run.results,
+          transactionHashes: run.transactionHashes,
+          steps: run.steps,
+          cancelled: context.signal?.aborted,
+          error: outcome.error,
+        };
       }
 
       return {
         success: true,
-        results,
-        transactionHashes,
+        results: run.results,
+        transactionHashes: run.transactionHashes,
+        steps: run.steps,
       };
     } catch (error) {
+      await this.compensate(run);
       return {
         success: false,
-        results,
-        transactionHashes,
+        results: run.results,
+        transactionHashes: run.transactionHashes,
+        steps: run.steps,
+        cancelled: context.signal?.aborted,
         error: error instanceof Error ? error.message : 'Unknown error',
       };
     }
   }
 
-  async explainWorkflow(workflow: Workflow): Promise<string> {
-    const prompt = ChatPromptTemplate.fromMessages([
-      SystemMessagePromptTemplate.fromTemplate(
-        'You are a helpful assistant that explains blockchain workflows in clear, simple language.'
-      ),
-      HumanMessagePromptTemplate.fromTemplate(
-        'Explain this workflow:\n\n{workflow}\n\nProvide a clear, step-by-step explanation.'
+  private async executeActions(
+    actions: Workflow['actions'],
+    run: ActionRun,
+    parentStepId?: string,
+    compensates?: string
+  ): Promise<{ success: boolean; error?: string }> {
+    for (const [index, action] of actions.entries()) {
+      const signal = run.context.signal;
+      if (signal?.aborted) {
+        return { success: false, error: getAbortMessage(signal) };
+      }
+
+      const outcome = await this.executeStep(
+        action,
+        run,
+        parentStepId === undefined ? String(index) : `${parentStepId}.${index}`,
+        compensates
+      );
+      if (!outcome.success) {
+        return outcome;
+      }
+    }
+
+    return { success: true };
+  }
+
+  private async executeGraph(
+    actions: Workflow['actions'],
+    run: ActionRun
+  ): Promise<{ success: boolean; error?: string }> {
+    const limit: number = run.workflow.maxConcurrency ?? DEFAULT_MAX_CONCURRENCY;
+    const pending = new Set(actions.keys());
+    const completed = new Set<string>();
+    const running = new Map<number, Promise<{ index: number; success: boolean; error?: string }>>();
+    let failure: string | undefined;
+
+    while (pending.size > 0 || running.size > 0) {
+      const signal = run.context.signal;
+      if (signal?.aborted && failure === undefined) {
+        failure = getAbortMessage(signal);
+      }
+
+      if (failure === undefined) {
+        for (const index of pending) {
+          if (running.size >= limit) {
+            break;
+          }
+          const dependencies: string[] = actions[index].dependsOn ?? [];
+          if (!dependencies.every((dependency) => completed.has(dependency))) {
+            continue;
+          }
+
+          pending.delete(index);
+          running.set(
+            index,
+            this.executeStep(actions[index], run, String(index)).then(
+              (outcome) => ({ index, ...outcome }),
+              (error) => ({
+                index,
+                success: false,
+                error: error instanceof Error ? error.message : 'Unknown error',
+              })
+            )
+          );
+        }
+      }
+
+      if (running.size === 0) {
+        break;
+      }
+
+      const outcome = await Promise.race(running.values());
+      running.delete(outcome.index);
+      if (outcome.success) {
+        completed.add(getActionKey(actions[outcome.index], outcome.index));
+      } else if (failure === undefined) {
+        failure = outcome.error || 'Action failed';
+      }
+    }
+
+    if (failure !== undefined) {
+      return { success: false, error: failure };
+    }
+    if (pending.size > 0) {
+      return {
+        success: false,
+        error: `Unresolvable dependencies for actions: ${Array.from(pending, (index) => getActionKey(actions[index], index)).join(', ')}`,
+      };
+    }
+    return { success: true };
+  }
+
+  private async executeStep(
+    action: Workflow['actions'][0],
+    run: ActionRun,
+    stepId: string,
+    compensates?: string
+  ): Promise<{ success: boolean; error?: string }> {
+    const previous = run.replay.get(stepId);
+    if (previous && !hasNestedSteps(action)) {
+      const step = { ...previous };
+      run.steps.push(step);
+      this.recordResult(action, run, step, {
+        success: true,
+        transactionHash: step.transactionHash,
+        result: step.output,
+      });
+      return { success: true };
+    }
+
+    const step: WorkflowExecutionStep = {
+      id: stepId,
+      type: action.type,
+      status: 'running',
+      startedAt: new Date().toISOString(),
+      input: Object.fromEntries(
+        Object.entries(action).filter(([key]) => key !== 'actions' && key !== 'compensation')
       ),
-    ]);
+      ...(compensates !== undefined ? { compensates } : {}),
+    };
+    run.steps.push(step);
+    this.reportStep(run, step);
 
-    const chain = prompt.pipe(this.agent.getLLM());
-    const response = await chain.invoke({
-      workflow: JSON.stringify(workflow, null, 2),
-    });
+    let result: ActionResult;
+    try {
+      result = await this.executeWithRetry(action, run, step);
+    } catch (error) {
+      step.status = error instanceof ActionInterruptedError ? 'cancelled' : 'failed';
+      step.error = error instanceof Error ? error.message : 'Unknown error';
+      step.completedAt = new Date().toISOString();
+      this.reportStep(run, step);
+
+      if (step.status === 'cancelled') {
+        return { success: false, error: step.error };
+      }
+      throw error;
+    }
+
+    step.status = result.success
+      ? 'completed'
+      : classifyTransientError(result.error ?? '') === 'action_timeout'
+      ? 'timed_out'
+      : 'failed';
+    step.output = result.result;
+    step.transactionHash = result.transactionHash;
+    step.error = result.error;
+    step.completedAt = new Date().toISOString();
+    this.reportStep(run, step);
+    this.recordResult(action, run, step, result);
+
+    if (!result.success && action.type !== 'notify') {
+      return { success: false, error: result.error || 'Action failed' };
+    }
+
+    return { success: true };
+  }
+
+  private recordResult(
+    action: Workflow['actions'][0],
+    run: ActionRun,
+    step: WorkflowExecutionStep,
+    result: ActionResult
+  ): void {
+    if (!run.results[action.type]) {
+      run.results[action.type] = [];
+    }
+    run.results[action.type].push(result);
+
+    if (result.transactionHash) {
+      run.transactionHashes.push(result.transactionHash);
+    }
 
-    return response.content as string;
+    if (action.id !== undefined) {
+      run.stepOutputs[action.id] = {
+        status: step.status,
+        output: step.output,
+        transactionHash: step.transactionHash,
+        error: step.error,
+      };
+    }
+
+    if (result.success && action.compensation?.length && !run.isCompensating) {
+      run.compensations.push({ stepId: step.id, actions: action.compensation });
+    }
   }
 
-  private extractWorkflowFromResponse(response: string): Workflow | undefined {
-    const jsonMatch = response.match(/```json\n([\s\S]*?)\n```/) || response.match(/```\n([\s\S]*?)\n```/);
-    if (jsonMatch) {
+  private async executeWithRetry(
+    action: Workflow['actions'][0],
+    run: ActionRun,
+    step: WorkflowExecutionStep
+  ): Promise<ActionResult> {
+    const policy = action.retry;
+    const maxAttempts: number = policy?.maxAttempts ?? 1;
+    const retryOn: RetryableErrorClass[] = policy?.retryOn ?? DEFAULT_RETRY_ON;
+    const signal = run.isCompensating ? undefined : run.context.signal;
+    let delay: number = policy?.backoffMs ?? 1000;
+    let mayHaveBroadcast = false;
+
+    for (let attempt = 1; ; attempt++) {
+      step.attempts = attempt;
+
+      let result: ActionResult;
       try {
-        return JSON.parse(jsonMatch[1]) as Workflow;
-      } catch {
+        result = await runWithLimits(this.executeAction(action, run, step), action.timeoutMs, signal);
+      } catch (error) {
+        if (!(error instanceof ActionInterruptedError) || error.reason !== 'timeout') {
+          throw error;
+        }
+        result = { success: false, error: error.message };
       }
+
+      if (!result.success && result.transactionHash && sendsTransaction(action)) {
+        return this.lookupTransaction(result);
+      }
+      if (result.success || attempt >= maxAttempts) {
+        return result;
+      }
+
+      const errorClass = classifyTransientError(result.error ?? '');
+      if (!errorClass || !(retryOn.includes('any') || retryOn.includes(errorClass))) {
+        return result;
+      }
+      if (sendsTransaction(action)) {
+        if (errorClass === 'action_timeout' || (errorClass === 'nonce' && mayHaveBroadcast)) {
+          return result;
+        }
+        mayHaveBroadcast = mayHaveBroadcast || errorClass === 'rpc_timeout';
+      }
+
+      step.retries = [...(step.retries ?? []), { attempt, error: result.error ?? '', errorClass }];
+      this.reportStep(run, step);
+
+      await runWithLimits(sleep(delay), undefined, signal);
+      delay = Math.min(delay * (policy?.backoffMultiplier ?? 2), policy?.maxBackoffMs ?? 30000);
     }
+  }
 
+  private async lookupTransaction(result: ActionResult): Promise<ActionResult> {
+    const tool = this.agent.getTools().find((t) => t.name === 'get_transaction_status');
+    if (!tool) {
+      return result;
+    }
+
+    let status: any;
     try {
-      return JSON.parse(response) as Workflow;
+      const statusStr = await tool.func({ txHash: result.transactionHash } as any);
+      status = typeof statusStr === 'string' ? JSON.parse(statusStr) : statusStr;
     } catch {
+      return result;
+    }
+
+    return status?.status === 'success'
+      ? { success: true, transactionHash: result.transactionHash, result: { ...result.result, ...status } }
+      : result;
+  }
+
+  private async compensate(run: ActionRun): Promise<void> {
+    if (run.dryRun || run.context.signal?.aborted || run.compensations.length === 0) {
+      return;
+    }
+
+    run.isCompensating = true;
+    for (const { stepId, actions } of [...run.compensations].reverse()) {
+      try {
+        await this.executeActions(actions, run, `${stepId}.compensation`, stepId);
+      } catch {
+      }
+    }
+  }
+
+  private async simulateTransaction(
+    run: ActionRun,
+    transaction: Omit<SimulatedTransaction, 'workflowId'>
+  ): Promise<ActionResult> {
+    const outcome = await this.simulator!({ ...transaction, workflowId: run.context.workflowId });
+    return {
+      success: outcome.success,
+      error: outcome.error,
+      result: { simulated: true, transaction, ...outcome },
+    };
+  }
+
+  private async enforceRiskPolicy(
+    run: ActionRun,
+    step: WorkflowExecutionStep,
+    transaction: Omit<SimulatedTransaction, 'workflowId'>
+  ): Promise<ActionResult | undefined> {
+    if (this.riskDecisions.has(step)) {
+      return this.riskDecisions.get(step);
+    }
+    const decision = await this.assessRiskPolicy(run, step, transaction);
+    this.riskDecisions.set(step, decision);
+    return decision;
+  }
+
+  private async assessRiskPolicy(
+    run: ActionRun,
+    step: WorkflowExecutionStep,
+    transaction: Omit<SimulatedTransaction, 'workflowId'>
+  ): Promise<ActionResult | undefined> {
+    if (!this.riskAssessor) {
       return undefined;
     }
+
+    const assessment = await this.riskAssessor({ ...transaction, workflowId: run.context.workflowId });
+    step.risk = assessment;
+    this.reportStep(run, step);
+
+    if (assessment.blockExecution) {
+      return {
+        success: false,
+        error: `Transaction blocked by risk policy: ${assessment.reasons.join('; ') || assessment.classification}`,
+        result: { risk: assessment },
+      };
+    }
+    if (!assessment.requiresApproval) {
+      return undefined;
+    }
+    if (!this.approvalGate) {
+      return { success: false, error: 'Transaction requires approval but approval gate not configured' };
+    }
+
+    const decision = await this.approvalGate({
+      workflowId: run.context.workflowId,
+      executionId: run.context.executionId,
+      stepId: step.id,
+      message: `Risk review required (${assessment.classification}, score ${assessment.score.toFixed(2)}): ${assessment.reasons.join('; ')}`,
+      signal: run.context.signal,
+    });
+    if (!decision.approved) {
+      return {
+        success: false,
+        error: decision.reason || 'Approval rejected',
+        result: { risk: assessment, approval: decision },
+      };
+    }
+    return undefined;
+  }
+
+  private reportStep(run: ActionRun, step: WorkflowExecutionStep): void {
+    run.context.onStep?.({ ...step });
+  }
+
+  private getTemplateScope(run: ActionRun): Record<string, unknown> {
+    return {
+      workflow: { id: run.context.workflowId, name: run.workflow.name },
+      executionId: run.context.executionId,
+      trigger: run.context.trigger?.data ?? {},
+      triggerType: run.context.trigger?.type,
+      results: run.results,
+      transactionHashes: run.transactionHashes,
+      steps: run.stepOutputs,
+      vars: run.workflow.variables ?? {},
+      secrets: run.context.secrets ?? {},
+    };
+  }
+
+  private resolveAction(action: Workflow['actions'][0], run: ActionRun): Workflow['actions'][0] {
+    const { actions, compensation, ...fields } = action;
+    return {
+      ...resolveTemplates(fields, this.getTemplateScope(run)),
+      ...(actions !== undefined ? { actions } : {}),
+      ...(compensation !== undefined ? { compensation } : {}),
+    };
+  }
+
+  private async evaluateCondition(
+    condition: NonNullable<Workflow['actions'][0]['condition']>,
+    run: ActionRun
+  ): Promise<{ met: boolean; value: string }> {
+    let value: unknown;
+
+    if (condition.field) {
+      value = getValueAtPath(this.getTemplateScope(run), condition.field);
+      if (value === undefined || value === null) {
+        throw new Error(`Condition field not found: ${condition.field}`);
+      }
+    } else if (condition.type === 'balance') {
+      if (!condition.address) {
+        throw new Error('Balance condition requires an address');
+      }
+
+      const tools = this.agent.getTools();
+      const tool = condition.tokenAddress
+        ? tools.find((t) => t.name === 'get_token_balance')
+        : tools.find((t) => t.name === 'get_balance');
+      if (!tool) {
+        throw new Error('Balance tool not available');
+      }
+
+      const resultStr = await tool.func({
+        address: condition.address,
+        tokenAddress: condition.tokenAddress,
+      } as any);
+      const result = typeof resultStr === 'string' ? JSON.parse(resultStr) : resultStr;
+      value = result.balance;
+    } else {
+      throw new Error(`Condition of type ${condition.type} requires a field`);
+    }
+
+    return {
+      met: compareValues(value as ComparableValue, condition.operator as ConditionOperator, condition.value),
+      value: String(value),
+    };
+  }
+
+  private async executeCollapsedBatch(
+    action: Workflow['actions'][0],
+    run: ActionRun,
+    step: WorkflowExecutionStep
+  ): Promise<ActionResult> {
+    let transfers: Workflow['actions'];
+    try {
+      transfers = action.actions.map((transfer: Workflow['actions'][0]) => this.resolveAction(transfer, run));
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to resolve action templates',
+      };
+    }
+
+    if (transfers.some((transfer) => transfer.type !== 'transfer')) {
+      return { success: false, error: 'Only transfer actions can be collapsed into a batch transfer' };
+    }
+    if (transfers.some((transfer) => !transfer.to || !transfer.amount)) {
+      return { success: false, error: 'Every collapsed transfer requires to and amount' };
+    }
+
+    const tokenAddress: string | undefined = transfers[0].tokenAddress;
+    if (
+      !tokenAddress ||
+      transfers.some((transfer) => transfer.tokenAddress?.toLowerCase() !== tokenAddress.toLowerCase())
+    ) {
+      return { success: false, error: 'Collapsed transfers must all send the same token' };
+    }
+    if (!action.contractAddress) {
+      return { success: false, error: 'Missing required batch parameter: contractAddress' };
+    }
+    if (!action.agentId) {
+      return { success: false, error: 'Missing required batch parameter: agentId' };
+    }
+
+    const transaction: Omit<SimulatedTransaction, 'workflowId'> = {
+      stepId: step.id,
+      kind: 'batch_transfer',
+      to: action.contractAddress,
+      tokenAddress,
+      agentId: action.agentId,
+      transfers: transfers.map((transfer) => ({ to: transfer.to, amount: transfer.amount })),
+    };
+    if (run.dryRun) {
+      return this.simulateTransaction(run, transaction);
+    }
+
+    const gated = await this.enforceRiskPolicy(run, step, transaction);
+    if (gated) {
+      return gated;
+    }
+
+    const tool = this.agent.getTools().find((t) => t.name === 'batch_transfer');
+    if (!tool) {
+      return { success: false, error: 'Batch transfer tool not available' };
+    }
+
+    const resultStr = await tool.func({
+      treasuryAddress: action.contractAddress,
+      agentId: action.agentId,
+      tokenAddress,
+      recipients: transfers.map((transfer) => transfer.to),
+      amounts: transfers.map((transfer) => transfer.amount),
+      feeCurrency: await this.feeCurrencySelector?.(run.workflow),
+    } as any);
+    const result = typeof resultStr === 'string' ? JSON.parse(resultStr) : resultStr;
+    return {
+      success: result.success,
+      transactionHash: result.transactionHash,
+      error: result.error,
+      result: { ...result, mode: 'collapse', transfers: transfers.length },
+    };
   }
 
-  private async executeAction(action: Workflow['actions'][0]): Promise<{
-    success: boolean;
-    transactionHash?: string;
-    error?: string;
-    result?: any;
-  }> {
+  private async executeAction(
+    action: Workflow['actions'][0],
+    run: ActionRun,
+    step: WorkflowExecutionStep
+  ): Promise<ActionResult> {
     const tools = this.agent.getTools();
+    const stepId = step.id;
+
+    try {
+      action = this.resolveAction(action, run);
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to resolve action templates',
+      };
+    }
 
     switch (action.type) {
       case 'transfer': {
@@ -195,6 +899,22 @@ export class WorkflowOrchestrator {
           return { success: false, error: 'Missing required transfer parameter: amount' };
         }
 
+        const transaction: Omit<SimulatedTransaction, 'workflowId'> = {
+          stepId,
+          kind: action.tokenAddress ? 'token_transfer' : 'native_transfer',
+          to: action.to,
+          value: action.amount,
+          tokenAddress: action.tokenAddress,
+        };
+        if (run.dryRun) {
+          return this.simulateTransaction(run, transaction);
+        }
+
+        const gated = await this.enforceRiskPolicy(run, step, transaction);
+        if (gated) {
+          return gated;
+        }
+
         if (action.tokenAddress) {
           const tool = tools.find((t) => t.name === 'send_token');
           if (tool) {
@@ -202,6 +922,7 @@ export class WorkflowOrchestrator {
               tokenAddress: action.tokenAddress,
               to: action.to,
               amount: action.amount,
+              feeCurrency: await this.feeCurrencySelector?.(run.workflow),
             } as any);
             const result = typeof resultStr === 'string' ? JSON.parse(resultStr) : resultStr;
             return {
@@ -217,6 +938,7 @@ export class WorkflowOrchestrator {
             const resultStr = await tool.func({
               to: action.to,
               amount: action.amount,
+              feeCurrency: await this.feeCurrencySelector?.(run.workflow),
             } as any);
             const result = typeof resultStr === 'string' ? JSON.parse(resultStr) : resultStr;
             return {
@@ -238,6 +960,23 @@ export class WorkflowOrchestrator {
           return { success: false, error: 'Missing required contract_call parameter: functionName' };
         }
 
+        const transaction: Omit<SimulatedTransaction, 'workflowId'> = {
+          stepId,
+          kind: 'contract_call',
+          to: action.contractAddress,
+          functionName: action.functionName,
+          args: action.parameters || [],
+          abi: action.abi,
+        };
+        if (run.dryRun) {
+          return this.simulateTransaction(run, transaction);
+        }
+
+        const gated = await this.enforceRiskPolicy(run, step, transaction);
+        if (gated) {
+          return gated;
+        }
+
         const tool = tools.find((t) => t.name === 'call_contract');
         if (tool) {
           const resultStr = await tool.func({
@@ -245,6 +984,7 @@ export class WorkflowOrchestrator {
             functionName: action.functionName,
             parameters: action.parameters || [],
             abi: action.abi,
+            feeCurrency: await this.feeCurrencySelector?.(run.workflow),
           } as any);
           const result = typeof resultStr === 'string' ? JSON.parse(resultStr) : resultStr;
           return {
@@ -258,7 +998,104 @@ export class WorkflowOrchestrator {
       }
 
       case 'notify': {
-        return { success: true, result: { notified: true } };
+        if (!action.message) {
+          return { success: false, error: 'Missing required notify parameter: message' };
+        }
+
+        const message = String(action.message);
+        if (run.dryRun) {
+          return { success: true, result: { simulated: true, delivered: false, message } };
+        }
+        if (!this.notifier) {
+          return { success: false, error: 'Notification delivery not configured' };
+        }
+
+        const delivery = await this.notifier({
+          channel: action.channel,
+          webhookUrl: action.webhookUrl,
+          message,
+          workflowId: run.context.workflowId,
+          workflowName: run.workflow.name,
+          executionId: run.context.executionId,
+          transactionHashes: [...run.transactionHashes],
+          trigger: run.context.trigger,
+        });
+        return {
+          success: delivery.delivered,
+          error: delivery.error,
+          result: { ...delivery, message },
+        };
+      }
+
+      case 'conditional': {
+        if (!action.condition) {
+          return { success: false, error: 'Missing required conditional parameter: condition' };
+        }
+        if (!action.actions?.length) {
+          return { success: false, error: 'Missing required conditional parameter: actions' };
+        }
+
+        let evaluation: { met: boolean; value: string };
+        try {
+          evaluation = await this.evaluateCondition(action.condition, run);
+        } catch (error) {
+          return {
+            success: false,
+            error: error instanceof Error ? error.message : 'Condition evaluation failed',
+          };
+        }
+
+        if (!evaluation.met) {
+          return { success: true, result: { conditionMet: false, value: evaluation.value } };
+        }
+
+        const outcome = await this.executeActions(action.actions, run, stepId);
+        return {
+          success: outcome.success,
+          error: outcome.error,
+          result: { conditionMet: true, value: evaluation.value },
+        };
+      }
+
+      case 'batch': {
+        if (!action.actions?.length) {
+          return { success: false, error: 'Missing required batch parameter: actions' };
+        }
+
+        if (action.mode === 'collapse') {
+          return this.executeCollapsedBatch(action, run, step);
+        }
+
+        const outcome = await this.executeActions(action.actions, run, stepId);
+        return {
+          success: outcome.success,
+          error: outcome.error,
+          result: { mode: 'sequential', actions: action.actions.length },
+        };
+      }
+
+      case 'approval': {
+        if (run.dryRun) {
+          return { success: true, result: { simulated: true, approved: true } };
+        }
+        if (!this.approvalGate) {
+          return { success: false, error: 'Approval gate not configured' };
+        }
+
+        const decision = await this.approvalGate({
+          workflowId: run.context.workflowId,
+          executionId: run.context.executionId,
+          stepId,
+          message: action.message,
+          approvers: action.approvers,
+          expiresInMs: action.expiresInMs,
+          signal: run.context.signal,
+        });
+        return {
+          success: decision.approved,
+          error: decision.approved ? undefined : decision.reason || 'Approval rejected',
+          result: decision,
+        };
       }
 
       default:
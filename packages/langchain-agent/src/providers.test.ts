@@ -0,0 +1,158 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { BaseChatModel } from '@langchain/core/language_models/chat_models';
+import { AIMessage, HumanMessage, type BaseMessage } from '@langchain/core/messages';
+import type { ChatResult } from '@langchain/core/outputs';
+import { createProviderModel, FallbackChatModel } from './providers.js';
+import { LangChainAgent } from './agent.js';
+
+class ScriptedChatModel extends BaseChatModel {
+  calls = 0;
+
+  constructor(private readonly behaviour: { reply?: string; error?: string; failOn?: string; delayMs?: number }) {
+    super({});
+  }
+
+  _llmType(): string {
+    return 'scripted';
+  }
+
+  async _generate(messages: BaseMessage[]): Promise<ChatResult> {
+    this.calls++;
+    if (this.behaviour.delayMs) {
+      await new Promise((resolve) => setTimeout(resolve, this.behaviour.delayMs));
+    }
+    if (this.behaviour.error) {
+      throw new Error(this.behaviour.error);
+    }
+    if (this.behaviour.failOn && messages.some((message) => message.content === this.behaviour.failOn)) {
+      throw new Error(`refused ${this.behaviour.failOn}`);
+    }
+    const message = new AIMessage({
+      content: this.behaviour.reply ?? '',
+      usage_metadata: { input_tokens: 1200, output_tokens: 300, total_tokens: 1500 },
+    });
+    return { generations: [{ text: this.behaviour.reply ?? '', message }] };
+  }
+}
+
+describe('FallbackChatModel', () => {
+  it('should fall through the chain on errors and report the provider that answered', async () => {
+    const primary = new ScriptedChatModel({ error: 'rate limited' });
+    const secondary = new ScriptedChatModel({ reply: 'from secondary' });
+    const model = new FallbackChatModel([
+      { name: 'openai:gpt-4o-mini', model: primary },
+      { name: 'anthropic:claude-3-5-haiku', model: secondary, inputCostPer1kTokens: 0.8, outputCostPer1kTokens: 4 },
+    ]);
+
+    const response = await model.invoke([new HumanMessage('hello')]);
+
+    expect(response.content).toBe('from secondary');
+    expect(response.response_metadata.provider).toBe('anthropic:claude-3-5-haiku');
+    expect(model.getUsage()).toEqual({
+      'openai:gpt-4o-mini': {
+        requests: 1,
+        failures: 1,
+        inputTokens: 0,
+        outputTokens: 0,
+        costUsd: 0,
+        lastError: 'rate limited',
+      },
+      'anthropic:claude-3-5-haiku': {
+        requests: 1,
+        failures: 0,
+        inputTokens: 1200,
+        outputTokens: 300,
+        costUsd: expect.closeTo(0.96 + 1.2, 6),
+      },
+    });
+  });
+
+  it('should move on when a provider exceeds its timeout', async () => {
+    const slow = new ScriptedChatModel({ reply: 'too late', delayMs: 200 });
+    const local = new ScriptedChatModel({ reply: 'from ollama' });
+    const model = new FallbackChatModel([
+      { name: 'slow', model: slow, timeoutMs: 20 },
+      { name: 'local', model: local },
+    ]);
+
+    const response = await model.invoke([new HumanMessage('hello')]);
+
+    expect(response.content).toBe('from ollama');
+    expect(model.getUsage().slow.failures).toBe(1);
+  });
+
+  it('should report the answering provider per call when calls overlap', async () => {
+    const model = new FallbackChatModel([
+      { name: 'primary', model: new ScriptedChatModel({ reply: 'from primary', failOn: 'fallback', delayMs: 20 }) },
+      { name: 'secondary', model: new ScriptedChatModel({ reply: 'from secondary' }) },
+    ]);
+
+    const [fallback, direct] = await Promise.all([
+      model.invoke([new HumanMessage('fallback')]),
+      model.invoke([new HumanMessage('hello')]),
+    ]);
+
+    expect(fallback.response_metadata.provider).toBe('secondary');
+    expect(direct.response_metadata.provider).toBe('primary');
+  });
+
+  it('should report every failure when the whole chain fails', async () => {
+    const model = new FallbackChatModel([
+      { name: 'a', model: new ScriptedChatModel({ error: 'down' }) },
+      { name: 'b', model: new ScriptedChatModel({ error: 'quota exceeded' }) },
+    ]);
+
+    await expect(model.invoke([new HumanMessage('hello')])).rejects.toThrow(
+      'All LLM providers failed (a: down; b: quota exceeded)'
+    );
+  });
+});
+
+describe('LLM provider configuration', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('should build OpenAI-compatible local models without an API key', () => {
+    vi.stubEnv('OPENAI_API_KEY', '');
+    vi.stubEnv('ANTHROPIC_API_KEY', '');
+    expect(
+      createProviderModel({ provider: 'openai', model: 'llama3.1', baseUrl: 'http://localhost:11434/v1' })
+    ).toBeInstanceOf(BaseChatModel);
+    expect(() => createProviderModel({ provider: 'anthropic', model: 'claude-3-5-haiku-latest' })).toThrow(
+      'Anthropic API key is required'
+    );
+  });
+
+  it('should accept an ordered provider chain on the agent', () => {
+    const agent = new LangChainAgent({
+      id: 'multi',
+      type: 'langchain',
+      name: 'Multi',
+      model: 'gemini-1.5-flash',
+      providers: [
+        { provider: 'anthropic', model: 'claude-3-5-haiku-latest', apiKey: 'test-key' },
+        { provider: 'openai', model: 'llama3.1', name: 'ollama', baseUrl: 'http://localhost:11434/v1' },
+        { provider: 'gemini', model: 'gemini-1.5-flash', apiKey: 'test-key' },
+      ],
+    });
+
+    expect(Object.keys(agent.getProviderUsage())).toEqual([
+      'anthropic:claude-3-5-haiku-latest',
+      'ollama',
+      'gemini:gemini-1.5-flash',
+    ]);
+  });
+
+  it('should select providers from prefixed model names', () => {
+    vi.stubEnv('OPENAI_BASE_URL', 'http://localhost:8080/v1');
+    const agent = new LangChainAgent({
+      id: 'prefixed',
+      type: 'langchain',
+      name: 'Prefixed',
+      model: 'openai:llama3.1',
+    });
+
+    expect(Object.keys(agent.getProviderUsage())).toEqual(['openai:llama3.1']);
+  });
+});
@@ -0,0 +1,183 @@
+import { ChatAnthropic } from '@langchain/anthropic';
+import { ChatGoogleGenerativeAI } from '@langchain/google-genai';
+import { ChatOpenAI } from '@langchain/openai';
+import { BaseChatModel } from '@langchain/core/language_models/chat_models';
+import type { AIMessage, BaseMessage } from '@langchain/core/messages';
+import type { ChatResult } from '@langchain/core/outputs';
+
+export type LLMProviderKind = 'gemini' | 'openai' | 'anthropic';
+
+export interface LLMProviderConfig {
+  provider: LLMProviderKind;
+  model: string;
+  name?: string;
+  apiKey?: string;
+  baseUrl?: string;
+  temperature?: number;
+  maxTokens?: number;
+  timeoutMs?: number;
+  inputCostPer1kTokens?: number;
+  outputCostPer1kTokens?: number;
+}
+
+export interface ProviderUsage {
+  requests: number;
+  failures: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+  lastError?: string;
+}
+
+export interface ProviderModel {
+  name: string;
+  model: BaseChatModel;
+  timeoutMs?: number;
+  inputCostPer1kTokens?: number;
+  outputCostPer1kTokens?: number;
+}
+
+export function getProviderName(config: LLMProviderConfig): string {
+  return config.name ?? `${config.provider}:${config.model}`;
+}
+
+export function createProviderModel(config: LLMProviderConfig): BaseChatModel {
+  const temperature = config.temperature ?? 0.7;
+  const maxTokens = config.maxTokens ?? 2000;
+
+  switch (config.provider) {
+    case 'gemini': {
+      const apiKey = config.apiKey || process.env.GEMINI_API_KEY;
+      if (!apiKey) {
+        throw new Error('Gemini API key is required for Gemini models');
+      }
+      return new ChatGoogleGenerativeAI({
+        model: config.model,
+        apiKey,
+        temperature,
+        maxOutputTokens: maxTokens,
+      }) as unknown as BaseChatModel;
+    }
+    case 'openai': {
+      const baseURL = config.baseUrl || process.env.OPENAI_BASE_URL;
+      const apiKey = config.apiKey || process.env.OPENAI_API_KEY;
+      if (!apiKey && !baseURL) {
+        throw new Error('OpenAI API key is required unless a compatible baseUrl is configured');
+      }
+      return new ChatOpenAI({
+        model: config.model,
+        apiKey: apiKey || 'not-needed',
+        temperature,
+        maxTokens,
+        configuration: baseURL ? { baseURL } : undefined,
+      }) as unknown as BaseChatModel;
+    }
+    case 'anthropic': {
+      const apiKey = config.apiKey || process.env.ANTHROPIC_API_KEY;
+      if (!apiKey) {
+        throw new Error('Anthropic API key is required for Anthropic models');
+      }
+      return new ChatAnthropic({
+        model: config.model,
+        apiKey,
+        temperature,
+        maxTokens,
+        anthropicApiUrl: config.baseUrl,
+      }) as unknown as BaseChatModel;
+    }
+    default:
+      throw new Error(`Unsupported LLM provider: ${String((config as LLMProviderConfig).provider)}`);
+  }
+}
+
+export class FallbackChatModel extends BaseChatModel {
+  private readonly providers: ProviderModel[];
+  private readonly usage = new Map<string, ProviderUsage>();
+
+  constructor(providers: ProviderModel[]) {
+    super({});
+    if (providers.length === 0) {
+      throw new Error('At least one LLM provider is required');
+    }
+    this.providers = providers;
+    for (const provider of providers) {
+      this.usage.set(provider.name, { requests: 0, failures: 0, inputTokens: 0, outputTokens: 0, costUsd: 0 });
+    }
+  }
+
+  _llmType(): string {
+    return 'fallback';
+  }
+
+  getUsage(): Record<string, ProviderUsage> {
+    return Object.fromEntries([...this.usage].map(([name, usage]) => [name, { ...usage }]));
+  }
+
+  async _generate(messages: BaseMessage[], options: this['ParsedCallOptions']): Promise<ChatResult> {
+    const failures: string[] = [];
+
+    for (const provider of this.providers) {
+      const usage = this.usage.get(provider.name)!;
+      usage.requests++;
+
+      try {
+        const response = await this.invokeProvider(provider, messages, options.signal);
+
+        const inputTokens = response.usage_metadata?.input_tokens ?? 0;
+        const outputTokens = response.usage_metadata?.output_tokens ?? 0;
+        usage.inputTokens += inputTokens;
+        usage.outputTokens += outputTokens;
+        usage.costUsd +=
+          (inputTokens / 1000) * (provider.inputCostPer1kTokens ?? 0) +
+          (outputTokens / 1000) * (provider.outputCostPer1kTokens ?? 0);
+
+        const text = typeof response.content === 'string' ? response.content : JSON.stringify(response.content);
+        return {
+          generations: [{ text, message: response }],
+          llmOutput: { provider: provider.name, tokenUsage: { inputTokens, outputTokens } },
+        };
+      } catch (error) {
+        if (options.signal?.aborted) {
+          throw error;
+        }
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        usage.failures++;
+        usage.lastError = message;
+        failures.push(`${provider.name}: ${message}`);
+      }
+    }
+
+    throw new Error(`All LLM providers failed (${failures.join('; ')})`);
+  }
+
+  private async invokeProvider(
+    provider: ProviderModel,
+    messages: BaseMessage[],
+    signal?: AbortSignal
+  ): Promise<AIMessage> {
+    if (!provider.timeoutMs) {
+      return (await provider.model.invoke(messages, { signal })) as AIMessage;
+    }
+
+    const controller = new AbortController();
+    const onAbort = () => controller.abort(signal?.reason);
+    signal?.addEventListener('abort', onAbort, { once: true });
+    let timer: NodeJS.Timeout | undefined;
+
+    try {
+      return await Promise.race([
+        provider.model.invoke(messages, { signal: controller.signal }) as Promise<AIMessage>,
+        new Promise<never>((_, reject) => {
+          timer = setTimeout(() => {
+            const error = new Error(`Timed out after ${provider.timeoutMs}ms`);
+            controller.abort(error);
+            reject(error);
+          }, provider.timeoutMs);
+        }),
+      ]);
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    }
+  }
+}
@@ -83,5 +83,14 @@ describe('createTools', () => {
     const txStatusTool = tools.find((t) => t.name === 'get_transaction_status');
     expect(txStatusTool).toBeDefined();
   });
+
+  it('should include batch_transfer tool', () => {
+    const client = new CeloClient({
+      network: 'alfajores',
+    });
+    const tools = createTools(client);
+    const batchTransferTool = tools.find((t) => t.name === 'batch_transfer');
+    expect(batchTransferTool).toBeDefined();
+  });
 });
 
@@ -7,11 +7,16 @@ import {
   sendCELO,
   sendToken,
   callContract,
+  batchTransferFromTreasury,
   readContract,
   getTransactionStatus,
 } from '@celo-automator/celo-functions';
 import type { Address, Hash } from 'viem';
 
+function toJson(value: unknown): string {
+  return JSON.stringify(value, (_key, item) => (typeof item === 'bigint' ? item.toString() : item));
+}
+
 export function createTools(celoClient?: CeloClient) {
   if (!celoClient) {
     return [];
@@ -26,7 +31,7 @@ export function createTools(celoClient?: CeloClient) {
       }),
       func: async ({ address }) => {
         const balance = await getBalance(celoClient, address as Address);
-        return JSON.stringify({
+        return toJson({
           success: true,
           address,
           balance,
@@ -48,7 +53,7 @@ export function createTools(celoClient?: CeloClient) {
           address as Address,
           tokenAddress as Address
         );
-        return JSON.stringify({
+        return toJson({
           success: true,
           ...balance,
         });
@@ -61,10 +66,13 @@ export function createTools(celoClient?: CeloClient) {
       schema: z.object({
         to: z.string().describe('Recipient wallet address'),
         amount: z.string().describe('Amount to send (in wei, smallest unit)'),
+        feeCurrency: z.string().optional().describe('Token address to pay gas in, such as cUSD (defaults to CELO)'),
       }),
-      func: async ({ to, amount }) => {
-        const result = await sendCELO(celoClient, to as Address, amount);
-        return JSON.stringify(result);
+      func: async ({ to, amount, feeCurrency }) => {
+        const result = await sendCELO(celoClient, to as Address, amount, {
+          feeCurrency: feeCurrency as Address | undefined,
+        });
+        return toJson(result);
       },
     }),
 
@@ -75,15 +83,17 @@ export function createTools(celoClient?: CeloClient) {
         tokenAddress: z.string().describe('The ERC20 token contract address'),
         to: z.string().describe('Recipient wallet address'),
         amount: z.string().describe('Amount to send (in smallest token unit)'),
+        feeCurrency: z.string().optional().describe('Token address to pay gas in, such as cUSD (defaults to CELO)'),
       }),
-      func: async ({ tokenAddress, to, amount }) => {
+      func: async ({ tokenAddress, to, amount, feeCurrency }) => {
         const result = await sendToken(
           celoClient,
           tokenAddress as Address,
           to as Address,
-          amount
+          amount,
+          { feeCurrency: feeCurrency as Address | undefined }
         );
-        return JSON.stringify(result);
+        return toJson(result);
       },
     }),
 
@@ -95,22 +105,54 @@ export function createTools(celoClient?: CeloClient) {
         functionName: z.string().describe('The function name to call'),
         parameters: z.array(z.any()).describe('Function parameters'),
         abi: z.array(z.any()).optional().describe('Contract ABI (if not cached)'),
+        feeCurrency: z.string().optional().describe('Token address to pay gas in, such as cUSD (defaults to CELO)'),
       }),
-      func: async ({ address, functionName, parameters, abi }) => {
+      func: async ({ address, functionName, parameters, abi, feeCurrency }) => {
         if (!abi) {
-          return JSON.stringify({
+          return toJson({
             success: false,
             error: 'ABI required for contract calls',
           });
         }
 
-        const result = await callContract(celoClient, {
-          address: address as Address,
-          abi,
-          functionName,
-          args: parameters,
-        });
-        return JSON.stringify(result);
+        const result = await callContract(
+          celoClient,
+          {
+            address: address as Address,
+            abi,
+            functionName,
+            args: parameters,
+          },
+          { feeCurrency: feeCurrency as Address | undefined }
+        );
+        return toJson(result);
+      },
+    }),
+
+    new DynamicStructuredTool({
+      name: 'batch_transfer',
+      description: 'Send ERC20 tokens to several recipients in one agent treasury transaction',
+      schema: z.object({
+        treasuryAddress: z.string().describe('The agent treasury contract address'),
+        agentId: z.string().describe('The agent id registered with the treasury'),
+        tokenAddress: z.string().describe('The ERC20 token contract address'),
+        recipients: z.array(z.string()).describe('Recipient wallet addresses'),
+        amounts: z.array(z.string()).describe('Amounts to send (in smallest token unit), one per recipient'),
+        feeCurrency: z.string().optional().describe('Token address to pay gas in, such as cUSD (defaults to CELO)'),
+      }),
+      func: async ({ treasuryAddress, agentId, tokenAddress, recipients, amounts, feeCurrency }) => {
+        const result = await batchTransferFromTreasury(
+          celoClient,
+          {
+            treasuryAddress: treasuryAddress as Address,
+            agentId,
+            tokenAddress: tokenAddress as Address,
+            recipients: recipients as Address[],
+            amounts,
+          },
+          { feeCurrency: feeCurrency as Address | undefined }
+        );
+        return toJson(result);
       },
     }),
 
@@ -131,12 +173,12 @@ export function createTools(celoClient?: CeloClient) {
             functionName,
             args: parameters,
           });
-          return JSON.stringify({
+          return toJson({
             success: true,
             result,
           });
         } catch (error) {
-          return JSON.stringify({
+          return toJson({
             success: false,
             error: error instanceof Error ? error.message : 'Unknown error',
           });
@@ -152,7 +194,7 @@ export function createTools(celoClient?: CeloClient) {
       }),
       func: async ({ txHash }) => {
         const status = await getTransactionStatus(celoClient, txHash as Hash);
-        return JSON.stringify({
+        return toJson({
           success: true,
           ...status,
         });
@@ -6,6 +6,7 @@ import {
   AgentQueryResponse,
   ContractDeploymentRequest,
   ContractDeploymentResponse,
+  GasEstimateRequest,
   GasEstimateResponse,
   HealthResponse,
   SDKConfig,
@@ -144,7 +145,7 @@ export class CeloAISDK {
   }
 
   async estimateGas(
-    request: TransactionRequest
+    request: GasEstimateRequest
   ): Promise<GasEstimateResponse> {
     if (this.config.validateRequests !== false) {
       validateOrThrow(ValidationSchemas.transactionRequest, request);
@@ -54,10 +54,16 @@ export interface AgentCreateRequest {
   description?: string;
   model?: string;
   capabilities?: string[];
+  feePolicy?: FeePolicy;
   metadata?: Record<string, unknown>;
   config?: Record<string, unknown>;
 }
 
+export interface FeePolicy {
+  preferred: string[];
+  minCeloBalance: string;
+}
+
 export interface AgentRecord {
   id: string;
   type: string;
@@ -148,6 +154,7 @@ export interface TransactionRequest {
   maxPriorityFeePerGas?: string;
   chainId?: number | string;
   nonce?: number;
+  feeCurrency?: string;
   agentId?: string;
   memo?: string;
   simulateOnly?: boolean;
@@ -157,18 +164,47 @@ export interface TransactionRequest {
 export interface TransactionResponse {
   success: boolean;
   transactionHash?: string;
+  feeCurrency?: string;
   riskScore?: number;
   requiresApproval?: boolean;
   metadata?: Record<string, unknown>;
   error?: string;
 }
 
+export type GasPriority = 'low' | 'normal' | 'high';
+
+export interface GasEstimateRequest extends TransactionRequest {
+  priority?: GasPriority;
+  maxGasPrice?: string;
+}
+
+export interface GasCost {
+  wei: string;
+  celo: string;
+}
+
 export interface GasEstimateResponse {
   success: boolean;
+  priority?: GasPriority;
+  gasUsed?: string;
   gasLimit?: string;
   gasPrice?: string;
   maxFeePerGas?: string;
   maxPriorityFeePerGas?: string;
+  baseFeePerGas?: string;
+  feeSuggestions?: Record<GasPriority, { maxFeePerGas: string; maxPriorityFeePerGas: string }>;
+  feeHistory?: { oldestBlock: string; blockCount: number };
+  estimatedCost?: GasCost;
+  maxCost?: GasCost;
+  feeCurrency?: {
+    address: string;
+    symbol?: string;
+    gasPrice: string;
+    estimatedCost: string;
+    maxCost: string;
+    estimatedCostFormatted?: string;
+    maxCostFormatted?: string;
+  };
   confidence?: number;
   metadata?: Record<string, unknown>;
   error?: string;
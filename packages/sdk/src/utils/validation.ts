@@ -7,6 +7,12 @@ export const ValidationSchemas = {
     description: z.string().optional(),
     model: z.string().optional(),
     capabilities: z.array(z.string()).optional(),
+    feePolicy: z
+      .object({
+        preferred: z.array(z.string()).min(1),
+        minCeloBalance: z.string().regex(/^\d+$/),
+      })
+      .optional(),
     metadata: z.record(z.unknown()).optional(),
     config: z.record(z.unknown()).optional(),
   }),
@@ -29,6 +35,7 @@ export const ValidationSchemas = {
     maxPriorityFeePerGas: z.string().optional(),
     chainId: z.union([z.number(), z.string()]).optional(),
     nonce: z.number().optional(),
+    feeCurrency: z.string().optional(),
     agentId: z.string().optional(),
     memo: z.string().optional(),
     simulateOnly: z.boolean().optional(),
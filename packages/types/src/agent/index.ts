@@ -34,6 +34,7 @@ export interface AgentResponse {
     result?: any;
   }>;
   executionTime?: number;
+  provider?: string;
   error?: string;
 }
 
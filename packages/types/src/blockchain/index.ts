@@ -17,6 +17,11 @@ export interface TransactionRequest {
   maxFeePerGas?: bigint;
   maxPriorityFeePerGas?: bigint;
   nonce?: number;
+  feeCurrency?: Address;
+}
+
+export interface SendOptions {
+  feeCurrency?: Address;
 }
 
 export interface TransactionResult {
@@ -28,6 +33,68 @@ export interface TransactionResult {
   receipt?: any;
 }
 
+export interface BroadcastTransaction {
+  hash: Hash;
+  from: Address;
+  to: Address;
+  value: bigint;
+  data?: `0x${string}`;
+  nonce: number;
+  chainId: number;
+  gasLimit: bigint;
+  gasPrice?: bigint;
+  maxFeePerGas?: bigint;
+  maxPriorityFeePerGas?: bigint;
+  feeCurrency?: Address;
+}
+
+export interface TransactionLifecycleState {
+  status: 'pending' | 'confirmed' | 'failed' | 'dropped';
+  inMempool?: boolean;
+  blockNumber?: bigint;
+  gasUsed?: bigint;
+  effectiveGasPrice?: bigint;
+}
+
+export type GasPriority = 'low' | 'normal' | 'high';
+
+export interface FeeSuggestion {
+  maxPriorityFeePerGas: bigint;
+  maxFeePerGas: bigint;
+}
+
+export interface FeeSuggestions {
+  baseFeePerGas: bigint;
+  oldestBlock: bigint;
+  blockCount: number;
+  suggestions: Record<GasPriority, FeeSuggestion>;
+}
+
+export interface GasCostEstimate {
+  priority: GasPriority;
+  gasUsed: bigint;
+  gasLimit: bigint;
+  gasPrice: bigint;
+  maxFeePerGas?: bigint;
+  maxPriorityFeePerGas?: bigint;
+  estimatedCost: bigint;
+  maxCost: bigint;
+  confidence: number;
+  fees?: FeeSuggestions;
+  feeCurrency?: {
+    address: Address;
+    gasPrice: bigint;
+    estimatedCost: bigint;
+    maxCost: bigint;
+  };
+}
+
+export interface SimulationResult {
+  success: boolean;
+  gasUsed: bigint;
+  error?: string;
+}
+
 export interface EventFilter {
   address?: Address | Address[];
   topics?: (string | string[])[];
@@ -35,6 +102,15 @@ export interface EventFilter {
   toBlock?: bigint | 'latest' | 'earliest' | 'pending';
 }
 
+export interface ContractEventLog {
+  address: Address;
+  eventName: string;
+  args: Record<string, any>;
+  blockNumber: bigint;
+  transactionHash: Hash;
+  logIndex: number;
+}
+
 export interface ContractCall {
   address: Address;
   abi: any[];
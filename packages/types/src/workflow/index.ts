@@ -1,17 +1,20 @@
 import { z } from 'zod';
 
+export const ConditionOperatorSchema = z.enum(['gt', 'gte', 'lt', 'lte', 'eq']);
+
 export const WorkflowTriggerSchema = z.discriminatedUnion('type', [
   z.object({
     type: z.literal('event'),
     event: z.object({
       contractAddress: z.string(),
       eventName: z.string(),
+      abi: z.array(z.any()).optional(),
       filter: z.record(z.any()).optional(),
     }),
   }),
   z.object({
     type: z.literal('cron'),
-    cron: z.string(),
+    cron: z.string().describe('Five-field cron expression or @macro, evaluated in UTC'),
   }),
   z.object({
     type: z.literal('manual'),
@@ -20,12 +23,38 @@ export const WorkflowTriggerSchema = z.discriminatedUnion('type', [
     type: z.literal('condition'),
     condition: z.object({
       type: z.enum(['balance', 'price', 'custom']),
-      operator: z.enum(['gt', 'gte', 'lt', 'lte', 'eq']),
+      operator: ConditionOperatorSchema,
       value: z.union([z.string(), z.number()]),
+      address: z.string().optional(),
+      tokenAddress: z.string().optional(),
+      asset: z.string().optional(),
     }),
   }),
 ]);
+export const RetryableErrorClassSchema = z.enum([
+  'nonce',
+  'rpc_timeout',
+  'rate_limit',
+  'action_timeout',
+  'any',
+]);
+
+export const ActionRetryPolicySchema = z.object({
+  maxAttempts: z.number().int().min(1).max(10),
+  backoffMs: z.number().int().nonnegative().optional(),
+  backoffMultiplier: z.number().min(1).optional(),
+  maxBackoffMs: z.number().int().positive().optional(),
+  retryOn: z.array(RetryableErrorClassSchema).optional(),
+});
+
+export const FeeCurrencyPolicySchema = z.object({
+  preferred: z.array(z.string()).min(1),
+  minCeloBalance: z.string().regex(/^\d+$/),
+});
+
 export const WorkflowActionSchema: z.ZodType<any> = z.object({
+  id: z.string().optional(),
+  dependsOn: z.array(z.string()).optional(),
   type: z.enum([
     'transfer',
     'contract_call',
@@ -33,6 +62,7 @@ export const WorkflowActionSchema: z.ZodType<any> = z.object({
     'notify',
     'conditional',
     'batch',
+    'approval',
   ]),
   to: z.string().optional(),
   amount: z.string().optional(),
@@ -41,13 +71,24 @@ export const WorkflowActionSchema: z.ZodType<any> = z.object({
   functionName: z.string().optional(),
   parameters: z.array(z.any()).optional(),
   webhookUrl: z.string().optional(),
+  channel: z.enum(['generic', 'slack', 'discord']).optional(),
   message: z.string().optional(),
   condition: z.object({
     type: z.string(),
     operator: z.string(),
     value: z.union([z.string(), z.number()]),
+    field: z.string().optional(),
+    address: z.string().optional(),
+    tokenAddress: z.string().optional(),
   }).optional(),
   actions: z.array(z.lazy(() => WorkflowActionSchema)).optional(),
+  mode: z.enum(['sequential', 'collapse']).optional(),
+  agentId: z.string().optional(),
+  approvers: z.array(z.string()).describe('Approver names matched against APPROVER_TOKENS identities').optional(),
+  expiresInMs: z.number().int().positive().optional(),
+  timeoutMs: z.number().int().positive().optional(),
+  retry: ActionRetryPolicySchema.optional(),
+  compensation: z.array(z.lazy(() => WorkflowActionSchema)).optional(),
 });
 
 export const WorkflowSchema = z.object({
@@ -56,23 +97,174 @@ export const WorkflowSchema = z.object({
   description: z.string().optional(),
   trigger: WorkflowTriggerSchema,
   actions: z.array(WorkflowActionSchema),
+  variables: z.record(z.any()).optional(),
+  maxConcurrency: z.number().int().positive().optional(),
+  agentId: z.string().optional(),
   enabled: z.boolean().default(true),
+  timeoutMs: z.number().int().positive().optional(),
+  feePolicy: FeeCurrencyPolicySchema.optional(),
   metadata: z.record(z.any()).optional(),
 });
 
+export type ConditionOperator = z.infer<typeof ConditionOperatorSchema>;
+export type RetryableErrorClass = z.infer<typeof RetryableErrorClassSchema>;
+export type ActionRetryPolicy = z.infer<typeof ActionRetryPolicySchema>;
+export type FeeCurrencyPolicy = z.infer<typeof FeeCurrencyPolicySchema>;
 export type WorkflowTrigger = z.infer<typeof WorkflowTriggerSchema>;
 export type WorkflowAction = z.infer<typeof WorkflowActionSchema>;
 export type Workflow = z.infer<typeof WorkflowSchema>;
 
+export interface WorkflowExecutionTrigger {
+  type: WorkflowTrigger['type'];
+  firedAt: string;
+  scheduledFor?: string;
+  catchUp?: boolean;
+  data?: Record<string, any>;
+}
+
+export interface WorkflowExecutionStep {
+  id: string;
+  type: string;
+  status: 'running' | 'completed' | 'failed' | 'timed_out' | 'cancelled';
+  startedAt: string;
+  completedAt?: string;
+  input: Record<string, any>;
+  output?: any;
+  transactionHash?: string;
+  error?: string;
+  attempts?: number;
+  retries?: Array<{ attempt: number; error: string; errorClass: RetryableErrorClass }>;
+  compensates?: string;
+  risk?: TransactionRiskAssessment;
+}
+
+export interface SimulatedTransaction {
+  stepId: string;
+  workflowId?: string;
+  kind: 'native_transfer' | 'token_transfer' | 'contract_call' | 'batch_transfer';
+  to: string;
+  value?: string;
+  tokenAddress?: string;
+  functionName?: string;
+  args?: any[];
+  abi?: any[];
+  agentId?: string;
+  transfers?: Array<{ to: string; amount: string }>;
+}
+
+export interface TransactionRiskAssessment {
+  score: number;
+  classification: string;
+  requiresApproval: boolean;
+  blockExecution: boolean;
+  reasons: string[];
+  value?: string;
+  token?: string;
+}
+
+export interface TransactionSimulationOutcome {
+  success: boolean;
+  gasEstimate?: string;
+  error?: string;
+  risk?: TransactionRiskAssessment;
+}
+
+export interface WorkflowRunContext {
+  workflowId?: string;
+  executionId?: string;
+  trigger?: WorkflowExecutionTrigger;
+  secrets?: Record<string, string>;
+  completedSteps?: WorkflowExecutionStep[];
+  signal?: AbortSignal;
+  onStep?: (step: WorkflowExecutionStep) => void;
+}
+
+export type NotificationChannel = 'generic' | 'slack' | 'discord';
+
+export interface WorkflowNotification {
+  channel?: NotificationChannel;
+  webhookUrl?: string;
+  message: string;
+  workflowId?: string;
+  workflowName: string;
+  executionId?: string;
+  transactionHashes: string[];
+  trigger?: WorkflowExecutionTrigger;
+}
+
+export interface NotificationDelivery {
+  delivered: boolean;
+  channel: NotificationChannel;
+  destination?: string;
+  statusCode?: number;
+  error?: string;
+  deliveredAt: string;
+}
+
 export interface WorkflowExecution {
   id: string;
   workflowId: string;
-  status: 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
+  workflowVersion?: number;
+  status: 'pending' | 'running' | 'waiting_approval' | 'completed' | 'failed' | 'cancelled';
+  trigger?: WorkflowExecutionTrigger;
   startedAt: string;
   completedAt?: string;
   error?: string;
   results?: Record<string, any>;
   transactionHashes?: string[];
+  steps?: WorkflowExecutionStep[];
+}
+
+export interface ApprovalRequest {
+  workflowId?: string;
+  executionId?: string;
+  stepId: string;
+  message?: string;
+  approvers?: string[];
+  expiresInMs?: number;
+  signal?: AbortSignal;
+}
+
+export interface ApprovalDecision {
+  approved: boolean;
+  approvalId?: string;
+  decidedBy?: string;
+  comment?: string;
+  decidedAt?: string;
+  reason?: string;
+}
+
+export interface WorkflowApproval {
+  id: string;
+  workflowId: string;
+  executionId: string;
+  stepId: string;
+  status: 'pending' | 'approved' | 'rejected' | 'expired' | 'cancelled';
+  message?: string;
+  approvers?: string[];
+  requestedAt: string;
+  expiresAt: string;
+  decidedAt?: string;
+  decidedBy?: string;
+  comment?: string;
+}
+
+export interface WorkflowVersion {
+  workflowId: string;
+  version: number;
+  workflow: Workflow;
+  createdAt: string;
+  source: 'create' | 'update' | 'rollback';
+  rolledBackFrom?: number;
+}
+
+export interface WorkflowTemplateParameter {
+  name: string;
+  type: 'address' | 'amount' | 'cron' | 'number' | 'string' | 'url';
+  description?: string;
+  required?: boolean;
+  default?: string;
+  decimals?: number;
 }
 
 export interface WorkflowTemplate {
@@ -81,5 +273,19 @@ export interface WorkflowTemplate {
   description: string;
   category: string;
   workflow: Omit<Workflow, 'id'>;
+  parameters: WorkflowTemplateParameter[];
   tags: string[];
 }
+
+export interface WorkflowBundle {
+  format: 'celo-automator.workflows';
+  version: 1;
+  exportedAt: string;
+  workflows: Workflow[];
+}
+
+export interface WorkflowAssumption {
+  path: string;
+  value: unknown;
+  reason: string;
+}